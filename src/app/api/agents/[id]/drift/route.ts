@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/jwt";
+import Agent from "@/models/agentModel";
+import connectDB from "@/lib/db";
+import { checkAgentDrift, parseDriftResolutions, resolveAgentDrift } from "@/lib/agentDrift";
+
+/**
+ * GET /api/agents/[id]/drift
+ * Fetches the ElevenLabs agent and lists the fields where it differs from ours,
+ * with both values.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+
+        await connectDB();
+        const agent = await Agent.findOne({ agentId: params.id, userId: user.userId });
+        if (!agent) {
+            return NextResponse.json({ message: "Agent not found" }, { status: 404 });
+        }
+
+        try {
+            const changes = await checkAgentDrift(agent);
+            return NextResponse.json({ changes, checkedAt: agent.driftCheckedAt });
+        } catch (driftError: any) {
+            return NextResponse.json({ message: "Could not read the agent from ElevenLabs", error: driftError.message }, { status: 502 });
+        }
+    } catch (error: any) {
+        console.error(`Error checking drift for agent ${params.id}:`, error);
+        return NextResponse.json({ message: "Failed to check agent drift", error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/agents/[id]/drift
+ * Resolves drifted fields ({ resolutions: [{ field, action: "pull" | "push" }] }).
+ * Returns the updated agent and the fields that still differ.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+
+        const { resolutions, error } = parseDriftResolutions(await request.json());
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        await connectDB();
+        const agent = await Agent.findOne({ agentId: params.id, userId: user.userId });
+        if (!agent) {
+            return NextResponse.json({ message: "Agent not found" }, { status: 404 });
+        }
+
+        let changes;
+        try {
+            changes = await resolveAgentDrift(agent, resolutions, user.userId);
+        } catch (syncError: any) {
+            if (syncError.name === "ValidationError") {
+                return NextResponse.json({ message: `The ElevenLabs value can't be pulled: ${syncError.message}` }, { status: 400 });
+            }
+            console.error(`Error resolving drift for agent ${params.id}:`, syncError);
+            return NextResponse.json({ message: "ElevenLabs rejected the change", error: syncError.message }, { status: 502 });
+        }
+
+        return NextResponse.json({ message: "Agent reconciled", agent, changes });
+    } catch (error: any) {
+        console.error(`Error resolving drift for agent ${params.id}:`, error);
+        return NextResponse.json({ message: "Failed to resolve agent drift", error: error.message }, { status: 500 });
+    }
+}
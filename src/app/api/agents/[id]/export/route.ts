@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/jwt";
+import Agent from "@/models/agentModel";
+import connectDB from "@/lib/db";
+import { exportAgentBundle } from "@/lib/agentBundle";
+
+/**
+ * GET /api/agents/[id]/export
+ * Downloads the agent as a JSON bundle that POST /api/agents/import/bundle can
+ * recreate in another account.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+
+        await connectDB();
+        const agent = await Agent.findOne({ agentId: params.id, userId: user.userId });
+        if (!agent) {
+            return NextResponse.json({ message: "Agent not found" }, { status: 404 });
+        }
+
+        let bundle;
+        try {
+            bundle = await exportAgentBundle(agent);
+        } catch (exportError: any) {
+            return NextResponse.json({ message: "Could not read the agent's tools or knowledge from ElevenLabs", error: exportError.message }, { status: 502 });
+        }
+
+        const fileName = `${agent.name.replace(/[^a-z0-9-_]+/gi, "-").toLowerCase() || "agent"}.agent.json`;
+        return new NextResponse(JSON.stringify(bundle, null, 2), {
+            headers: {
+                "Content-Type": "application/json",
+                "Content-Disposition": `attachment; filename="${fileName}"`,
+            },
+        });
+    } catch (error: any) {
+        console.error(`Error exporting agent ${params.id}:`, error);
+        return NextResponse.json({ message: "Failed to export agent", error: error.message }, { status: 500 });
+    }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { getUserFromRequest } from "@/lib/jwt"; // Assuming this is your JWT helper
 import Agent from "@/models/agentModel"; // Your Mongoose model
 import connectDB from "@/lib/db";
+import { parseRetryPolicy } from "@/models/retryPolicy";
+import { isTelephonyProviderName, TELEPHONY_PROVIDERS } from "@/lib/telephony";
+import { updateAgent } from "@/lib/elevenLabs/agents/updateAgent";
 
 /**
  * GET a single agent by its ID
@@ -34,6 +37,11 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
 /**
  * UPDATE an agent by its ID
  * This function is called when the user saves changes on the EditAgentPage.
+ * Changes to voice, prompt, LLM, ASR, turn, RAG or built-in tool settings are patched
+ * onto the ElevenLabs agent first; if ElevenLabs rejects them, nothing is saved and
+ * the error is returned. The response lists which fields changed on ElevenLabs.
+ * Each save that changes the configuration is recorded as a new AgentVersion, with
+ * the optional `changeNote` from the body.
  */
 export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
     try {
@@ -43,24 +51,51 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
         }
 
         const body = await request.json();
+
+        if (body.retryPolicy) {
+            const { policy, error } = parseRetryPolicy(body.retryPolicy);
+            if (error) {
+                return NextResponse.json({ message: error }, { status: 400 });
+            }
+            body.retryPolicy = policy;
+        }
+
+        if (body.callbackDelayMinutes !== undefined) {
+            const delay = Number(body.callbackDelayMinutes);
+            if (!Number.isInteger(delay) || delay < 1) {
+                return NextResponse.json({ message: "callbackDelayMinutes must be a whole number of minutes (at least 1)" }, { status: 400 });
+            }
+            body.callbackDelayMinutes = delay;
+        }
+
+        // Empty means "use the account's provider"
+        if (body.telephonyProvider !== undefined) {
+            if (body.telephonyProvider && !isTelephonyProviderName(body.telephonyProvider)) {
+                return NextResponse.json({ message: `telephonyProvider must be one of: ${TELEPHONY_PROVIDERS.join(", ")}` }, { status: 400 });
+            }
+            body.telephonyProvider = body.telephonyProvider || null;
+        }
         
-        await connectDB();
-        
-        // FIX: Use params.id to find the correct agent to update.
-        const updatedAgent = await Agent.findOneAndUpdate(
-            { agentId: params.id, userId: user.userId },
-            { $set: body }, // Update agent with the new data from the form
-            { new: true }   // Return the updated document
-        );
-
-        if (!updatedAgent) {
-            return NextResponse.json({ message: "Agent not found or update failed" }, { status: 404 });
+        const { changeNote, ...updates } = body;
+        let result;
+        try {
+            result = await updateAgent(user.userId, params.id, updates, { authorId: user.userId, note: changeNote });
+        } catch (updateError: any) {
+            if (updateError.name === "ValidationError") {
+                return NextResponse.json({ message: updateError.message }, { status: 400 });
+            }
+            throw updateError;
         }
 
-        // TODO: Add a call to the ElevenLabs API here to update the external agent as well.
-        // Example: await updateElevenLabsAgent(params.id, body);
+        const { agent, sync, version, syncError } = result;
+        if (!agent) {
+            return NextResponse.json({ message: "Agent not found or update failed" }, { status: 404 });
+        }
+        if (syncError) {
+            return NextResponse.json({ message: "ElevenLabs rejected the update, so nothing was saved", error: syncError }, { status: 502 });
+        }
 
-        return NextResponse.json({ message: "Agent updated successfully", agent: updatedAgent });
+        return NextResponse.json({ message: "Agent updated successfully", agent, sync, version });
 
     } catch (error) {
         console.error("Error updating agent:", error);
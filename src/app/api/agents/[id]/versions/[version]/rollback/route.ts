@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/jwt";
+import Agent from "@/models/agentModel";
+import AgentVersion from "@/models/agentVersionModel";
+import connectDB from "@/lib/db";
+import { rollbackAgentToVersion } from "@/lib/agentVersions";
+
+/**
+ * POST /api/agents/[id]/versions/[version]/rollback
+ * Restores the agent's configuration from the given version and re-syncs it to
+ * ElevenLabs. The restored configuration becomes a new version, so the rollback can
+ * itself be undone.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string; version: string } }) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+        const versionNumber = Number(params.version);
+        if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+            return NextResponse.json({ message: "Invalid version" }, { status: 400 });
+        }
+
+        await connectDB();
+        const agent = await Agent.findOne({ agentId: params.id, userId: user.userId });
+        if (!agent) {
+            return NextResponse.json({ message: "Agent not found" }, { status: 404 });
+        }
+
+        const target = await AgentVersion.findOne({ agentId: agent._id, version: versionNumber });
+        if (!target) {
+            return NextResponse.json({ message: "Version not found" }, { status: 404 });
+        }
+
+        try {
+            const { sync, version } = await rollbackAgentToVersion(agent, target, user.userId);
+            return NextResponse.json({
+                message: version ? `Rolled back to version ${versionNumber}` : "The agent already matches this version",
+                agent,
+                sync,
+                version: version?.version ?? agent.currentVersion,
+            });
+        } catch (rollbackError: any) {
+            if (rollbackError.name === "ValidationError") {
+                return NextResponse.json({ message: rollbackError.message }, { status: 400 });
+            }
+            console.error(`Error rolling back agent ${params.id} to version ${versionNumber}:`, rollbackError);
+            return NextResponse.json({ message: "ElevenLabs rejected the rollback, so nothing was changed", error: rollbackError.message }, { status: 502 });
+        }
+    } catch (error: any) {
+        console.error(`Error rolling back agent ${params.id}:`, error);
+        return NextResponse.json({ message: "Failed to roll back agent", error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/jwt";
+import Agent from "@/models/agentModel";
+import AgentVersion from "@/models/agentVersionModel";
+import connectDB from "@/lib/db";
+
+/**
+ * GET /api/agents/[id]/versions/[version]
+ * Returns one saved version of the agent, including its full configuration.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string; version: string } }) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+        const versionNumber = Number(params.version);
+        if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+            return NextResponse.json({ message: "Invalid version" }, { status: 400 });
+        }
+
+        await connectDB();
+        const agent = await Agent.findOne({ agentId: params.id, userId: user.userId }).select("_id");
+        if (!agent) {
+            return NextResponse.json({ message: "Agent not found" }, { status: 404 });
+        }
+
+        const version = await AgentVersion.findOne({ agentId: agent._id, version: versionNumber }).populate("authorId", "name email");
+        if (!version) {
+            return NextResponse.json({ message: "Version not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ version });
+    } catch (error: any) {
+        console.error(`Error fetching version ${params.version} of agent ${params.id}:`, error);
+        return NextResponse.json({ message: "Failed to fetch agent version", error: error.message }, { status: 500 });
+    }
+}
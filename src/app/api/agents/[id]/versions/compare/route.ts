@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/jwt";
+import Agent from "@/models/agentModel";
+import AgentVersion from "@/models/agentVersionModel";
+import connectDB from "@/lib/db";
+import { diffAgentConfigs } from "@/lib/agentVersions";
+
+/**
+ * GET /api/agents/[id]/versions/compare?from=2&to=5
+ * Lists the configuration fields that differ between two versions, with both values.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+
+        const searchParams = new URL(request.url).searchParams;
+        const from = Number(searchParams.get("from"));
+        const to = Number(searchParams.get("to"));
+        if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+            return NextResponse.json({ message: "from and to must be version numbers" }, { status: 400 });
+        }
+
+        await connectDB();
+        const agent = await Agent.findOne({ agentId: params.id, userId: user.userId }).select("_id");
+        if (!agent) {
+            return NextResponse.json({ message: "Agent not found" }, { status: 404 });
+        }
+
+        const versions = await AgentVersion.find({ agentId: agent._id, version: { $in: [from, to] } }).select("version config");
+        const fromVersion = versions.find(v => v.version === from);
+        const toVersion = versions.find(v => v.version === to);
+        if (!fromVersion || !toVersion) {
+            return NextResponse.json({ message: "Version not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ from, to, changes: diffAgentConfigs(fromVersion.config, toVersion.config) });
+    } catch (error: any) {
+        console.error(`Error comparing versions of agent ${params.id}:`, error);
+        return NextResponse.json({ message: "Failed to compare agent versions", error: error.message }, { status: 500 });
+    }
+}
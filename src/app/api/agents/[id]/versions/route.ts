@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/jwt";
+import Agent from "@/models/agentModel";
+import AgentVersion from "@/models/agentVersionModel";
+import Call from "@/models/callModel";
+import connectDB from "@/lib/db";
+
+/**
+ * GET /api/agents/[id]/versions
+ * Lists the agent's saved versions, newest first, with author, change note, changed
+ * fields and how many calls each version handled. Configs are left out; fetch a
+ * single version for that.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+
+        await connectDB();
+        const agent = await Agent.findOne({ agentId: params.id, userId: user.userId }).select("_id currentVersion");
+        if (!agent) {
+            return NextResponse.json({ message: "Agent not found" }, { status: 404 });
+        }
+
+        const [versions, callCounts] = await Promise.all([
+            AgentVersion.find({ agentId: agent._id })
+                .select("-config")
+                .populate("authorId", "name email")
+                .sort({ version: -1 })
+                .lean<any[]>(),
+            Call.aggregate([
+                { $match: { agentId: agent._id, agentVersion: { $ne: null } } },
+                { $group: { _id: "$agentVersion", count: { $sum: 1 } } },
+            ]),
+        ]);
+        const callsByVersion = new Map<number, number>(callCounts.map((c: any) => [c._id, c.count]));
+
+        return NextResponse.json({
+            currentVersion: agent.currentVersion,
+            versions: versions.map(v => ({ ...v, callCount: callsByVersion.get(v.version) || 0 })),
+        });
+    } catch (error: any) {
+        console.error(`Error listing versions of agent ${params.id}:`, error);
+        return NextResponse.json({ message: "Failed to fetch agent versions", error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/jwt";
+import connectDB from "@/lib/db";
+import { importAgentBundle, parseAgentBundle } from "@/lib/agentBundle";
+
+/**
+ * POST /api/agents/import/bundle
+ * Creates an agent from an exported bundle ({ bundle, name? }), uploading its tools
+ * and knowledge documents to this account's ElevenLabs workspace.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { bundle, error } = parseAgentBundle(body.bundle);
+        if (error || !bundle) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+        if (body.name !== undefined && typeof body.name !== "string") {
+            return NextResponse.json({ message: "name must be a string" }, { status: 400 });
+        }
+
+        await connectDB();
+        try {
+            const result = await importAgentBundle(user.userId, bundle, body.name);
+            return NextResponse.json({ message: "Agent imported", ...result }, { status: 201 });
+        } catch (importError: any) {
+            if (importError.name === "ValidationError") {
+                return NextResponse.json({ message: "The bundle's agent configuration is invalid", error: importError.message }, { status: 400 });
+            }
+            console.error("Error importing agent bundle:", importError);
+            return NextResponse.json({ message: "ElevenLabs rejected the import", error: importError.message }, { status: 502 });
+        }
+    } catch (error: any) {
+        console.error("Error importing agent bundle:", error);
+        return NextResponse.json({ message: "Failed to import agent bundle", error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/jwt";
+import connectDB from "@/lib/db";
+import { AgentImportResult, importElevenLabsAgent, listImportableAgents } from "@/lib/agentImport";
+
+const MAX_AGENTS_PER_IMPORT = 20;
+
+/**
+ * GET /api/agents/import
+ * Lists the ElevenLabs agents tagged with the account's claim tag, and the account's
+ * claim tag itself.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+
+        await connectDB();
+        try {
+            const { agents, claimTag } = await listImportableAgents(user.userId);
+            return NextResponse.json({ agents, claimTag });
+        } catch (listError: any) {
+            return NextResponse.json({ message: "Could not list agents from ElevenLabs", error: listError.message }, { status: 502 });
+        }
+    } catch (error: any) {
+        console.error("Error listing ElevenLabs agents:", error);
+        return NextResponse.json({ message: "Failed to list ElevenLabs agents", error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/agents/import
+ * Imports ElevenLabs agents into the account ({ agentIds: string[] }). Each agent is
+ * imported on its own; the response reports success or the reason per agent.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getUserFromRequest(request);
+        if (!user || typeof user === "string") {
+            return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+        }
+
+        const { agentIds } = await request.json();
+        if (!Array.isArray(agentIds) || agentIds.length === 0 || agentIds.some((id: any) => typeof id !== "string" || !id)) {
+            return NextResponse.json({ message: "agentIds must be a non-empty list of ElevenLabs agent ids" }, { status: 400 });
+        }
+        if (agentIds.length > MAX_AGENTS_PER_IMPORT) {
+            return NextResponse.json({ message: `Import at most ${MAX_AGENTS_PER_IMPORT} agents at a time` }, { status: 400 });
+        }
+
+        await connectDB();
+
+        const results: AgentImportResult[] = [];
+        for (const agentId of [...new Set<string>(agentIds)]) {
+            try {
+                results.push(await importElevenLabsAgent(user.userId, agentId));
+            } catch (importError: any) {
+                console.error(`Error importing ElevenLabs agent ${agentId}:`, importError);
+                results.push({ agentId, ok: false, error: importError.message });
+            }
+        }
+
+        const imported = results.filter(r => r.ok).length;
+        return NextResponse.json({ message: `Imported ${imported} of ${results.length} agents`, results }, { status: imported > 0 ? 201 : 200 });
+    } catch (error: any) {
+        console.error("Error importing ElevenLabs agents:", error);
+        return NextResponse.json({ message: "Failed to import agents", error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcileAgentDrift } from '@/lib/agentDrift';
+
+/**
+ * GET /api/agents/reconcile
+ * Called by a cron job (e.g. every 15 minutes) to compare agents with their ElevenLabs
+ * copies and flag the ones that drifted. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await reconcileAgentDrift();
+        return NextResponse.json(result);
+    } catch (error: any) {
+        console.error('Error reconciling agents with ElevenLabs:', error);
+        return NextResponse.json({ message: 'Failed to reconcile agents', error: error.message }, { status: 500 });
+    }
+}
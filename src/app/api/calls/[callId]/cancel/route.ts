@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { recordTransition } from '@/lib/callLifecycle';
+
+/**
+ * POST /api/calls/[callId]/cancel
+ * Cancels a call that is still queued (scheduled calls, retries and callbacks).
+ * Calls that the dispatcher has already claimed can only be hung up.
+ */
+export async function POST(request: NextRequest, { params }: { params: { callId: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.callId)) {
+            return NextResponse.json({ message: 'Invalid Call ID' }, { status: 400 });
+        }
+
+        await connectDB();
+
+        // Conditional update so a call being dialed right now is never marked canceled
+        const call = await Call.findOneAndUpdate(
+            { _id: params.callId, userId: userData.userId, status: 'queued' },
+            { $set: { status: 'canceled', failureReason: 'Canceled by user' } },
+            { new: true }
+        );
+
+        if (!call) {
+            const exists = await Call.exists({ _id: params.callId, userId: userData.userId });
+            if (!exists) {
+                return NextResponse.json({ message: 'Call not found' }, { status: 404 });
+            }
+            return NextResponse.json({ message: 'Only queued calls can be canceled' }, { status: 409 });
+        }
+        await recordTransition(call._id, 'queued', 'canceled', { source: 'user', reason: 'Canceled by user' });
+
+        return NextResponse.json({ message: 'Call canceled', call });
+    } catch (error: any) {
+        console.error(`Error in POST /api/calls/${params.callId}/cancel:`, error);
+        return NextResponse.json({ message: 'Failed to cancel call', error: error.message }, { status: 500 });
+    }
+}
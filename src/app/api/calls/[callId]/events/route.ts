@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { getCallEvents } from '@/lib/callLifecycle';
+
+/**
+ * GET /api/calls/[callId]/events
+ * The call's status history, oldest first, starting with its creation.
+ */
+export async function GET(request: NextRequest, { params }: { params: { callId: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.callId)) {
+            return NextResponse.json({ message: 'Invalid Call ID' }, { status: 400 });
+        }
+
+        await connectDB();
+        const call = await Call.findOne({ _id: params.callId, userId: userData.userId }).select('status createdAt');
+        if (!call) {
+            return NextResponse.json({ message: 'Call not found' }, { status: 404 });
+        }
+
+        const events = await getCallEvents(call._id);
+        return NextResponse.json({ callId: call._id, status: call.status, createdAt: call.createdAt, events });
+    } catch (error: any) {
+        console.error(`Error fetching events for call ${params.callId}:`, error);
+        return NextResponse.json({ message: 'Failed to fetch call events', error: error.message }, { status: 500 });
+    }
+}
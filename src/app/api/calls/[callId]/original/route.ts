@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
+import User from '@/models/userModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { decryptOriginal } from '@/lib/redaction';
+
+/**
+ * GET /api/calls/[callId]/original
+ * The unredacted summary and transcript of a redacted call. Admins only, only for
+ * their own account's calls, and only when the account keeps encrypted originals.
+ */
+export async function GET(request: NextRequest, { params }: { params: { callId: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.callId)) {
+            return NextResponse.json({ message: 'Invalid Call ID' }, { status: 400 });
+        }
+
+        await connectDB();
+        // Checked against the database rather than the token, so revoking admin takes effect at once
+        const user = await User.findById(userData.userId).select('role').lean<any>();
+        if (user?.role !== 'admin') {
+            return NextResponse.json({ message: 'Only admins can view unredacted call content' }, { status: 403 });
+        }
+
+        const call = await Call.findOne({ _id: params.callId, userId: userData.userId }).select('+redactedOriginal redactedCategories redactedAt');
+        if (!call) {
+            return NextResponse.json({ message: 'Call not found' }, { status: 404 });
+        }
+        if (!call.redactedOriginal) {
+            return NextResponse.json({ message: 'No original is kept for this call' }, { status: 404 });
+        }
+
+        console.log(`Admin ${userData.userId} viewed the unredacted content of call ${call._id}`);
+        return NextResponse.json({
+            callId: call._id,
+            redactedCategories: call.redactedCategories || [],
+            redactedAt: call.redactedAt,
+            original: decryptOriginal(call.redactedOriginal),
+        });
+    } catch (error: any) {
+        console.error(`Error fetching original content for call ${params.callId}:`, error);
+        return NextResponse.json({ message: 'Failed to fetch original call content', error: error.message }, { status: 500 });
+    }
+}
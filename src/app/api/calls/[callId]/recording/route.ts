@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { fetchConversationAudio } from '@/lib/elevenLabs';
+import { serveArchivedRecording } from '@/lib/recordingPlayback';
+
+/**
+ * GET /api/calls/[callId]/recording
+ * Plays the call's archived recording (with Range support). Until the archiver
+ * has stored it, the ElevenLabs conversation audio is proxied instead.
+ */
+export async function GET(request: NextRequest, { params }: { params: { callId: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return new NextResponse('Unauthorized', { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.callId)) {
+            return new NextResponse('Invalid Call ID', { status: 400 });
+        }
+
+        await connectDB();
+        const call = await Call.findOne({ _id: params.callId, userId: userData.userId });
+        if (!call) {
+            return new NextResponse('Call not found', { status: 404 });
+        }
+
+        if (call.recordingStatus === 'archived' && call.recordingKey) {
+            return await serveArchivedRecording(request, call);
+        }
+
+        const audio = call.conversationId ? await fetchConversationAudio(call.conversationId) : null;
+        if (!audio?.body) {
+            return new NextResponse('No recording is available for this call', { status: 404 });
+        }
+        return new NextResponse(audio.body, {
+            headers: { 'Content-Type': audio.headers.get('content-type') || 'audio/mpeg' },
+        });
+    } catch (error: any) {
+        console.error(`Error serving recording for call ${params.callId}:`, error);
+        return new NextResponse('Internal Server Error', { status: 500 });
+    }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
+import Agent from '@/models/agentModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { initiateCall } from '@/lib/elevenLabs';
+import { checkOutboundCallWindow } from '@/lib/callingWindow';
+import { guardOutboundDial } from '@/lib/dnc';
+
+/**
+ * POST /api/calls/[callId]/redial
+ * Calls the same number again with the same agent and custom message. Goes through
+ * the same do-not-call and calling-window checks as a new single call.
+ */
+export async function POST(request: NextRequest, { params }: { params: { callId: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.callId)) {
+            return NextResponse.json({ message: 'Invalid Call ID' }, { status: 400 });
+        }
+
+        await connectDB();
+        const original = await Call.findOne({ _id: params.callId, userId: userData.userId });
+        if (!original) {
+            return NextResponse.json({ message: 'Call not found' }, { status: 404 });
+        }
+        if (original.direction === 'inbound') {
+            return NextResponse.json({ message: 'Inbound calls cannot be called again from here' }, { status: 400 });
+        }
+
+        const agent = await Agent.findOne({ userId: userData.userId, agentId: original.elevenLabsAgentId }).select('timezone disabled');
+        if (!agent) {
+            return NextResponse.json({ message: 'The agent that placed this call no longer exists' }, { status: 404 });
+        }
+        if (agent.disabled) {
+            return NextResponse.json({ message: 'The agent that placed this call is disabled' }, { status: 409 });
+        }
+
+        const dnc = await guardOutboundDial({ userId: userData.userId, phoneNumber: original.phoneNumber, path: 'single', callId: original._id });
+        if (dnc.blocked) {
+            return NextResponse.json({ message: `Number is on the do-not-call list: ${dnc.reason}` }, { status: 403 });
+        }
+
+        const windowCheck = await checkOutboundCallWindow({
+            userId: userData.userId,
+            phoneNumber: original.phoneNumber,
+            contactId: original.contactId,
+            agentTimezone: agent.timezone,
+        });
+        if (!windowCheck.allowed) {
+            return NextResponse.json({
+                message: `Outside the calling window: ${windowCheck.reason}`,
+                nextAllowedAt: windowCheck.nextAllowedAt,
+                timezone: windowCheck.timezone,
+            }, { status: 409 });
+        }
+
+        const result = await initiateCall(
+            userData.userId,
+            original.elevenLabsAgentId,
+            original.phoneNumber,
+            original.contactName || original.phoneNumber,
+            original.customMessage,
+            { contactId: original.contactId, redialOfCallId: original._id }
+        );
+
+        return NextResponse.json(result);
+    } catch (error: any) {
+        console.error(`Error calling again from call ${params.callId}:`, error);
+        return NextResponse.json({ message: 'Failed to call again', error: error.message }, { status: 500 });
+    }
+}
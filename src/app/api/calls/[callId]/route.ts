@@ -1,8 +1,14 @@
 // app/api/calls/[callId]/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db';
-import Call from '@/models/callModel';
+import Call, { ICall } from '@/models/callModel';
+import Contact from '@/models/contactModel';
+import Lead from '@/models/leadModel';
+import Pipeline from '@/models/pipelineModel';
 import { getUserFromRequest } from '@/lib/jwt';
+import { getProviderForCall } from '@/lib/telephony';
+import { transitionCall } from '@/lib/callLifecycle';
+import { getAccountRedactionSettings, redactCallContent } from '@/lib/redaction';
 import mongoose from 'mongoose';
 
 type UrlParams = {
@@ -11,9 +17,42 @@ type UrlParams = {
   };
 };
 
+const MAX_NOTES_LENGTH = 5000;
+const MAX_TAGS = 20;
+
+/**
+ * Everything the call detail page shows: the (redacted) call plus the contact
+ * and pipeline lead it belongs to, matched by contact or phone number.
+ */
+async function loadCallDetail(call: ICall) {
+  const redaction = await getAccountRedactionSettings(call.userId);
+  const { call: detail } = redactCallContent(call.toObject(), redaction);
+
+  const contact = call.contactId
+    ? await Contact.findById(call.contactId).select('name phoneNumber email company status tags').lean<any>()
+    : await Contact.findOne({ userId: call.userId, phoneNumber: call.phoneNumber }).select('name phoneNumber email company status tags').lean<any>();
+
+  const leadMatch: any[] = [{ phoneNumber: call.phoneNumber }];
+  if (contact) leadMatch.push({ contactId: contact._id });
+  const lead = await Lead.findOne({ userId: call.userId, $or: leadMatch })
+    .sort({ updatedAt: -1 })
+    .select('name status priority value pipelineId stageId')
+    .lean<any>();
+
+  let leadDetail = null;
+  if (lead) {
+    const pipeline = await Pipeline.findById(lead.pipelineId).select('name stages').lean<any>();
+    const stage = pipeline?.stages?.find((s: any) => s._id.toString() === lead.stageId.toString());
+    leadDetail = { ...lead, pipelineName: pipeline?.name, stageName: stage?.name, stageColor: stage?.color };
+  }
+
+  return { call: detail, contact, lead: leadDetail };
+}
+
 /**
  * GET /api/calls/[callId]
- * Fetches the status of a specific call.
+ * Fetches the status of a specific call. With `?include=details` the response also
+ * carries the full call, its contact and lead, for the call detail page.
  */
 export async function GET(request: NextRequest, { params }: UrlParams) {
   try {
@@ -35,11 +74,15 @@ export async function GET(request: NextRequest, { params }: UrlParams) {
       return NextResponse.json({ message: 'Call not found' }, { status: 404 });
     }
 
+    const includeDetails = new URL(request.url).searchParams.get('include') === 'details';
+
     return NextResponse.json({
       status: call.status,
       signedUrl: call.elevenLabsSignedUrl || null,
-      callSid: call.exotelCallSid || null,
+      provider: call.provider,
+      callSid: getProviderForCall(call).getCallSid(call) || null,
       failureReason: call.failureReason || null,
+      ...(includeDetails ? await loadCallDetail(call) : {}),
     });
 
   } catch (error: any) {
@@ -72,44 +115,71 @@ export async function POST(request: NextRequest, { params }: UrlParams) {
       return NextResponse.json({ message: 'Call not found' }, { status: 404 });
     }
 
-    if (!call.exotelCallSid) {
-        return NextResponse.json({ message: 'Exotel Call SID not found for this call.' }, { status: 400 });
+    // Ends the call through whichever provider placed it
+    const provider = getProviderForCall(call);
+    const hangup = await provider.hangup(call);
+    if (!hangup.ok) {
+        return NextResponse.json({ message: hangup.message }, { status: hangup.httpStatus });
     }
 
-    // --- Full Exotel Hangup Logic ---
-    const EXOTEL_ACCOUNT_SID = process.env.EXOTEL_ACCOUNT_SID!;
-    const EXOTEL_API_KEY = process.env.EXOTEL_API_KEY!;
-    const EXOTEL_API_TOKEN = process.env.EXOTEL_API_TOKEN!;
-    
-    const exotelApiUrl = `https://api.exotel.com/v1/Accounts/${EXOTEL_ACCOUNT_SID}/Calls/${call.exotelCallSid}.json`;
-    const authHeader = `Basic ${Buffer.from(`${EXOTEL_API_KEY}:${EXOTEL_API_TOKEN}`).toString('base64')}`;
-
-    console.log(`Sending Hangup request to Exotel for SID: ${call.exotelCallSid}`);
-
-    const exotelResponse = await fetch(exotelApiUrl, {
-        method: 'POST',
-        headers: {
-            'Authorization': authHeader,
-            'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({ Status: 'completed' }).toString(),
-    });
+    await transitionCall(call, 'ended', { source: 'user', reason: 'Hung up from the dashboard' });
+    await call.save();
 
-    if (!exotelResponse.ok) {
-        const errorText = await exotelResponse.text();
-        console.error("Exotel Hangup API Error:", errorText);
-        return NextResponse.json({ message: `Exotel hangup error: ${errorText}` }, { status: exotelResponse.status });
+    return NextResponse.json({ message: hangup.message });
+
+  } catch (error: any) {
+    console.error(`Error processing POST for call ${params.callId}:`, error);
+    return NextResponse.json({ message: 'Server error processing request', error: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/calls/[callId]
+ * Updates the call's notes and/or tags.
+ */
+export async function PATCH(request: NextRequest, { params }: UrlParams) {
+  try {
+    const userData = await getUserFromRequest(request);
+    if (!userData || typeof userData === 'string') {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    const { callId } = params;
+
+    if (!callId || !mongoose.Types.ObjectId.isValid(callId)) {
+        return NextResponse.json({ message: 'Invalid Call ID' }, { status: 400 });
     }
 
-    console.log(`Hangup request successful for Exotel SID: ${call.exotelCallSid}`);
+    const body = await request.json();
+    const update: any = {};
 
-    call.status = 'ended';
-    await call.save();
+    if (body.notes !== undefined) {
+      if (typeof body.notes !== 'string' || body.notes.length > MAX_NOTES_LENGTH) {
+        return NextResponse.json({ message: `Notes must be text of at most ${MAX_NOTES_LENGTH} characters` }, { status: 400 });
+      }
+      update.notes = body.notes;
+    }
 
-    return NextResponse.json({ message: 'Hangup request sent to Exotel' });
+    if (body.tags !== undefined) {
+      if (!Array.isArray(body.tags) || body.tags.some((tag: any) => typeof tag !== 'string')) {
+        return NextResponse.json({ message: 'Tags must be a list of strings' }, { status: 400 });
+      }
+      const tags = [...new Set<string>(body.tags.map((tag: string) => tag.trim()).filter(Boolean))];
+      if (tags.length > MAX_TAGS) {
+        return NextResponse.json({ message: `A call can have at most ${MAX_TAGS} tags` }, { status: 400 });
+      }
+      update.tags = tags;
+    }
+
+    await connectDB();
+    const call = await Call.findOneAndUpdate({ _id: callId, userId: userData.userId }, { $set: update }, { new: true }).select('notes tags');
+    if (!call) {
+      return NextResponse.json({ message: 'Call not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Call updated', notes: call.notes || '', tags: call.tags || [] });
 
   } catch (error: any) {
-    console.error(`Error processing POST for call ${params.callId}:`, error);
-    return NextResponse.json({ message: 'Server error processing request', error: error.message }, { status: 500 });
+    console.error(`Error updating call ${params.callId}:`, error);
+    return NextResponse.json({ message: 'Server error updating call', error: error.message }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
 import { getUserFromRequest } from '@/lib/jwt';
-
-const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY!;
+import { fetchConversationAudio } from '@/lib/elevenLabs';
+import { serveArchivedRecording } from '@/lib/recordingPlayback';
 
 // ✅ THE FIX IS HERE: The function now accepts 'context' as the second argument
 export async function GET(request: NextRequest, context: { params: { conversationId: string } }) {
@@ -17,17 +19,20 @@ export async function GET(request: NextRequest, context: { params: { conversatio
             return new NextResponse('Conversation ID is required', { status: 400 });
         }
         
-        const response = await fetch(`https://api.elevenlabs.io/v1/conversations/${conversationId}/audio`, {
-            headers: { 'xi-api-key': ELEVENLABS_API_KEY },
-        });
+        // Serve our archived copy when there is one, so playback does not depend on ElevenLabs retention
+        await connectDB();
+        const userId = typeof userData === 'object' ? userData.userId : userData;
+        const call = await Call.findOne({ conversationId, userId });
+        if (call?.recordingStatus === 'archived' && call.recordingKey) {
+            return await serveArchivedRecording(request, call);
+        }
 
-        if (!response.ok || !response.body) {
-            const errorText = await response.text();
-            console.error(`Failed to fetch audio from ElevenLabs for ${conversationId}:`, errorText);
-            return new NextResponse(`Failed to fetch audio from provider: ${errorText}`, { status: response.status });
+        const audio = await fetchConversationAudio(conversationId);
+        if (!audio?.body) {
+            return new NextResponse('No audio is available for this conversation', { status: 404 });
         }
-        
-        return new NextResponse(response.body, {
+
+        return new NextResponse(audio.body, {
             headers: { 'Content-Type': 'audio/mpeg' },
         });
     } catch (error) {
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
+import Agent from '@/models/agentModel';
 import { getUserFromRequest } from '@/lib/jwt';
 import { initiateCall } from '@/lib/elevenLabs';
+import { checkOutboundCallWindow } from '@/lib/callingWindow';
+import { guardOutboundDial } from '@/lib/dnc';
 
 export async function POST(request: NextRequest) {
     try {
@@ -9,21 +14,65 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
         }
 
-        const { agentId, contacts } = await request.json();
+        // outsideWindow: 'defer' (default) queues contacts outside calling hours for later, 'refuse' skips them
+        const { agentId, contacts, outsideWindow = 'defer' } = await request.json();
 
         if (!agentId || !Array.isArray(contacts) || contacts.length === 0) {
             return NextResponse.json({ message: 'Agent ID and a list of contacts are required' }, { status: 400 });
         }
 
+        await connectDB();
+        const agent = await Agent.findOne({ userId: userData.userId, agentId });
+        if (!agent) {
+            return NextResponse.json({ message: 'Agent not found' }, { status: 404 });
+        }
+
         let initiatedCount = 0;
+        let deferredCount = 0;
+        let refusedCount = 0;
+        let blockedCount = 0;
         
         for (const contact of contacts) {
             try {
+                const dnc = await guardOutboundDial({ userId: userData.userId, phoneNumber: contact.phoneNumber, path: 'batch' });
+                if (dnc.blocked) {
+                    blockedCount++;
+                    continue;
+                }
+
+                const windowCheck = await checkOutboundCallWindow({
+                    userId: userData.userId,
+                    phoneNumber: contact.phoneNumber,
+                    contactTimezone: contact.timezone,
+                    agentTimezone: agent.timezone,
+                });
+                if (!windowCheck.allowed) {
+                    if (outsideWindow === 'refuse' || !windowCheck.nextAllowedAt) {
+                        refusedCount++;
+                        continue;
+                    }
+                    // Picked up by the scheduled call dispatcher once the window opens
+                    await Call.create({
+                        userId: userData.userId,
+                        agentId: agent._id,
+                        elevenLabsAgentId: agent.agentId,
+                        agentName: agent.name,
+                        contactName: contact.name,
+                        phoneNumber: contact.phoneNumber,
+                        customMessage: contact.customMessage,
+                        status: 'queued',
+                        scheduledFor: windowCheck.nextAllowedAt,
+                    });
+                    deferredCount++;
+                    continue;
+                }
+
                 await initiateCall(
                     userData.userId,
                     agentId,
                     contact.phoneNumber,
                     contact.name,
+                    contact.customMessage,
                 );
                 initiatedCount++;
             } catch (callError) {
@@ -32,12 +81,18 @@ export async function POST(request: NextRequest) {
         }
 
         return NextResponse.json({
-            message: `Successfully initiated ${initiatedCount} of ${contacts.length} calls.`,
+            message: `Successfully initiated ${initiatedCount} of ${contacts.length} calls.` +
+                (deferredCount ? ` ${deferredCount} scheduled for the next calling window.` : '') +
+                (refusedCount ? ` ${refusedCount} skipped (outside calling hours).` : '') +
+                (blockedCount ? ` ${blockedCount} blocked (do-not-call list).` : ''),
             initiated: initiatedCount,
+            deferred: deferredCount,
+            refused: refusedCount,
+            blocked: blockedCount,
         });
 
     } catch (error: any) {
         console.error('Error in POST /api/calls/batch:', error);
         return NextResponse.json({ message: 'Failed to start batch calls', error: error.message }, { status: 500 });
     }
-}
\ No newline at end of file
+}
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db';
 import Call from '@/models/callModel';
 import { getUserFromRequest } from '@/lib/jwt';
+import { mapElevenLabsStatus, transitionCall } from '@/lib/callLifecycle';
+import { finalizeCallAttempt } from '@/lib/callRetry';
+import { recordDoNotCallOutcome } from '@/lib/dnc';
+import { parseElevenLabsTranscript, transcriptToText } from '@/lib/transcript';
+import { getAccountRedactionSettings, redactCallBeforeSave, redactCallContent } from '@/lib/redaction';
+import { recordOutcomeSuccess } from '@/lib/outcomes';
 
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY!;
 
@@ -17,6 +23,14 @@ export async function GET(request: NextRequest, { params }: { params: { conversa
             return NextResponse.json({ message: 'Conversation ID is required' }, { status: 400 });
         }
 
+        await connectDB();
+
+        // Every account shares the ElevenLabs key, so only conversations of the caller's own calls are fetched
+        const call = await Call.findOne({ conversationId: conversationId, userId: userData.userId });
+        if (!call) {
+            return NextResponse.json({ message: 'Call not found' }, { status: 404 });
+        }
+
         // ✅ FIXED: Fetch from the correct /conversations/{id} endpoint
         const response = await fetch(`https://api.elevenlabs.io/v1/convai/conversations/${conversationId}`, {
             headers: { 'xi-api-key': ELEVENLABS_API_KEY },
@@ -28,25 +42,35 @@ export async function GET(request: NextRequest, { params }: { params: { conversa
         }
 
         const details = await response.json();
+        const turns = parseElevenLabsTranscript(details.transcript ?? details.messages);
 
-        await connectDB();
-        
-        // ✅ FIXED: Find the document in our DB using conversationId
-        await Call.findOneAndUpdate(
-            { conversationId: conversationId, userId: userData.userId }, 
-            {
-                $set: {
-                    summary: details.summary || '',
-                    // The Twilio API returns transcription in a 'messages' array, so we format it
-                    transcription: details.messages ? details.messages.map((m: any) => `${m.role}: ${m.text}`).join('\n') : '',
-                    outcome: details.outcome || 'No Outcome',
-                    status: details.status || 'completed',
-                    duration: details.duration_seconds || 0
-                }
-            }
-        );
-
-        return NextResponse.json(details);
+        const previousStatus = call.status;
+        const previousOutcome = call.outcome;
+        // Viewing a call only fills in what is missing; it never replaces the analyzed outcome
+        if (details.summary) call.summary = details.summary;
+        if (turns.length > 0) {
+            call.transcript = turns;
+            call.transcription = transcriptToText(turns);
+        }
+        if (!call.outcome && details.outcome) call.outcome = details.outcome;
+        if (details.duration_seconds) call.duration = details.duration_seconds;
+        // Only a finished conversation says anything about the call's final status
+        if (details.status === 'done' || details.status === 'failed') {
+            await transitionCall(call, mapElevenLabsStatus(details.status), { source: 'elevenlabs-details', reason: `ElevenLabs reported status: ${details.status}` });
+        }
+        await redactCallBeforeSave(call);
+        await call.save();
+        await finalizeCallAttempt(call, previousStatus);
+        if (call.outcome !== previousOutcome) {
+            await recordOutcomeSuccess(call);
+            await recordDoNotCallOutcome(call);
+        }
+
+        // The raw ElevenLabs payload carries the unredacted text too, so it is dropped when redacting
+        const settings = await getAccountRedactionSettings(call.userId);
+        const { call: content } = redactCallContent({ summary: details.summary, transcript: turns, transcription: transcriptToText(turns) }, settings);
+        const raw = settings.enabled ? { ...details, messages: undefined, analysis: undefined } : details;
+        return NextResponse.json({ ...raw, ...content });
 
     } catch (error: any) {
         console.error("Error in /api/calls/details/[conversationId]:", error);
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dispatchDueCalls } from '@/lib/callDispatcher';
+
+/**
+ * GET /api/calls/dispatch
+ * Called by a cron job (e.g. every minute) to dial queued calls that are due.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await dispatchDueCalls();
+        return NextResponse.json(result);
+    } catch (error: any) {
+        console.error('Error dispatching scheduled calls:', error);
+        return NextResponse.json({ message: 'Failed to dispatch calls', error: error.message }, { status: 500 });
+    }
+}
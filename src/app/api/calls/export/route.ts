@@ -2,13 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db';
 import Call from '@/models/callModel';
 import { getUserFromRequest } from '@/lib/jwt';
+import { buildCallSearch, withContactNameFallback } from '@/lib/callSearch';
+import { getAccountRedactionSettings, redactCallContent } from '@/lib/redaction';
+
+const csvField = (value: any) => `"${String(value ?? '').replace(/"/g, '""')}"`;
 
 function convertToCSV(data: any[]) {
-    const headers = ['Contact Name', 'Phone Number', 'Status', 'Outcome', 'Agent Name', 'Start Time', 'Duration (s)'];
+    const headers = ['Contact Name', 'Phone Number', 'Status', 'Outcome', 'Agent Name', 'Start Time', 'Duration (s)', 'Summary', 'Transcript'];
     const rows = data.map(call => [
-        `"${call.contactName || ''}"`, `"${call.phoneNumber || ''}"`, `"${call.status || ''}"`,
-        `"${call.outcome || ''}"`, `"${call.agentName || ''}"`,
-        `"${call.startTime ? new Date(call.startTime).toISOString() : ''}"`, call.duration || 0
+        csvField(call.contactName), csvField(call.phoneNumber), csvField(call.status),
+        csvField(call.outcome), csvField(call.agentName),
+        csvField(call.startTime ? new Date(call.startTime).toISOString() : ''), call.duration || 0,
+        csvField(call.summary), csvField(call.transcription)
     ].join(','));
     return [headers.join(','), ...rows].join('\n');
 }
@@ -20,25 +25,14 @@ export async function GET(request: NextRequest) {
 
         await connectDB();
         const { searchParams } = new URL(request.url);
-        const query: any = { userId: userData.userId };
-        
-        if (searchParams.get('status')) query.status = searchParams.get('status');
-        if (searchParams.get('search')) {
-            const searchTerm = searchParams.get('search')!;
-             query.$or = [
-                { contactName: { $regex: searchTerm, $options: 'i' } },
-                { phoneNumber: { $regex: searchTerm, $options: 'i' } }
-            ];
-        }
-        if (searchParams.get('startDate')) {
-             query.createdAt = { ...query.createdAt, $gte: new Date(searchParams.get('startDate')!) };
-        }
-         if (searchParams.get('endDate')) {
-            query.createdAt = { ...query.createdAt, $lte: new Date(searchParams.get('endDate')!) };
-        }
-
+        const parsed = buildCallSearch(userData.userId, searchParams);
+        if (parsed.error) return new NextResponse(parsed.error, { status: 400 });
+        const search = await withContactNameFallback(parsed);
 
-        const calls = await Call.find(query).sort({ createdAt: -1 }).lean();
+        // Calls stored before redaction was turned on are masked here as well
+        const redaction = await getAccountRedactionSettings(userData.userId);
+        const calls = (await Call.find(search.query).sort({ createdAt: -1 }).lean<any[]>())
+            .map(call => redactCallContent(call, redaction).call);
         const csv = convertToCSV(calls);
 
         return new NextResponse(csv, {
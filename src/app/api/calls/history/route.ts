@@ -2,7 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db';
 import Call from '@/models/callModel';
 import { getUserFromRequest } from '@/lib/jwt';
+import { buildCallSearch, buildSearchSnippets, withContactNameFallback } from '@/lib/callSearch';
+import { getAccountRedactionSettings, redactCallContent } from '@/lib/redaction';
 
+/**
+ * GET /api/calls/history
+ * Paginated call history. `search` runs a full-text search over summaries, transcripts,
+ * notes and outcomes (digits search phone numbers); results then carry highlighted snippets.
+ * Searches the text index can't match fall back to a partial match on the contact name.
+ * Filters: status, agentId, campaignId, outcome, direction, startDate/endDate,
+ * minDuration/maxDuration (seconds) and minCost/maxCost.
+ */
 export async function GET(request: NextRequest) {
     try {
         const userData = await getUserFromRequest(request);
@@ -15,45 +25,36 @@ export async function GET(request: NextRequest) {
         const { searchParams } = new URL(request.url);
         const page = parseInt(searchParams.get('page') || '1');
         const limit = parseInt(searchParams.get('limit') || '20');
-        const status = searchParams.get('status');
-        const searchTerm = searchParams.get('search');
-        const startDate = searchParams.get('startDate');
-        const endDate = searchParams.get('endDate');
 
-        // Build the database query object
-        const query: any = { userId: userData.userId };
-
-        if (status) {
-            query.status = status;
-        }
-
-        if (searchTerm) {
-            query.$or = [
-                { contactName: { $regex: searchTerm, $options: 'i' } },
-                { phoneNumber: { $regex: searchTerm, $options: 'i' } }
-            ];
+        const parsed = buildCallSearch(userData.userId, searchParams);
+        if (parsed.error) {
+            return NextResponse.json({ message: parsed.error }, { status: 400 });
         }
+        const search = await withContactNameFallback(parsed);
 
-        if (startDate) {
-            query.createdAt = { ...query.createdAt, $gte: new Date(startDate) };
-        }
-        if (endDate) {
-            query.createdAt = { ...query.createdAt, $lte: new Date(endDate) };
-        }
+        // Text searches are ranked by relevance, everything else newest first
+        const sort: any = search.textSearch ? { score: { $meta: 'textScore' }, createdAt: -1 } : { createdAt: -1 };
+        const projection = search.textSearch ? { score: { $meta: 'textScore' } } : {};
 
-        const totalCalls = await Call.countDocuments(query);
-        const calls = await Call.find(query)
-            .sort({ createdAt: -1 })
+        const totalCalls = await Call.countDocuments(search.query);
+        const results = await Call.find(search.query, projection)
+            .sort(sort)
             .skip((page - 1) * limit)
             .limit(limit)
-            .lean();
+            .lean<any[]>();
+
+        // Calls stored before redaction was turned on are masked on the way out; snippets come from the masked text
+        const redaction = await getAccountRedactionSettings(userData.userId);
+        const calls = results
+            .map(call => redactCallContent(call, redaction).call)
+            .map(call => search.textSearch ? { ...call, searchSnippets: buildSearchSnippets(call, search.terms) } : call);
 
         return NextResponse.json({
             calls,
             pagination: {
                 total: totalCalls,
                 page,
-                pages: Math.ceil(totalCalls / limit)
+                pages: Math.ceil(totalCalls / limit),
             }
         });
     } catch (error: any) {
@@ -4,8 +4,10 @@ import connectDB from '@/lib/db';
 import Call from '@/models/callModel'; // Your Mongoose Call model
 import Agent from '@/models/agentModel'; // Your Mongoose Agent model
 import { getUserFromRequest } from '@/lib/jwt'; // Your auth helper
-// Import Exotel SDK or fetch helper (you'll need to install/create this)
-// import { makeExotelCall } from '@/lib/exotel'; 
+import { getTelephonyProvider, resolveProviderName } from '@/lib/telephony';
+import { checkOutboundCallWindow } from '@/lib/callingWindow';
+import { normalizePhoneNumber } from '@/lib/phone';
+import { guardOutboundDial } from '@/lib/dnc';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,11 +18,27 @@ export async function POST(request: NextRequest) {
     const userId = typeof userData === 'object' ? userData.userId : userData;
 
     const body = await request.json();
-    const { agentId, phoneNumber, contactName, customMessage } = body;
+    const { agentId, contactName, customMessage, scheduledFor, outsideWindow } = body;
 
-    if (!agentId || !phoneNumber || !contactName) {
+    if (!agentId || !body.phoneNumber || !contactName) {
       return NextResponse.json({ message: 'Missing required fields' }, { status: 400 });
     }
+    const phoneNumber = normalizePhoneNumber(body.phoneNumber);
+    if (!phoneNumber) {
+      return NextResponse.json({ message: `Invalid phone number: ${body.phoneNumber}` }, { status: 400 });
+    }
+
+    // Optional future dial time; the call is then queued for the dispatcher instead of dialed now
+    let scheduledDate: Date | null = null;
+    if (scheduledFor) {
+      scheduledDate = new Date(scheduledFor);
+      if (isNaN(scheduledDate.getTime())) {
+        return NextResponse.json({ message: 'Invalid scheduledFor date' }, { status: 400 });
+      }
+      if (scheduledDate.getTime() <= Date.now()) {
+        scheduledDate = null; // Past or current time: just dial right away
+      }
+    }
 
     await connectDB();
 
@@ -30,131 +48,80 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: 'Agent not found' }, { status: 404 });
     }
 
-    // 2. Create an initial Call record in your DB (status: 'initiating')
+    // 2. Pick the agent's telephony provider and guard against dialing its own caller ID
+    const providerName = await resolveProviderName(agent);
+    const provider = getTelephonyProvider(providerName);
+    if (provider.isOwnNumber(phoneNumber)) {
+      return NextResponse.json({ message: 'You cannot initiate a call to the system\'s own caller ID.' }, { status: 400 });
+    }
+
+    // 3. Refuse numbers on the account's do-not-call list
+    const dnc = await guardOutboundDial({ userId, phoneNumber, path: scheduledDate ? 'scheduled' : 'single' });
+    if (dnc.blocked) {
+      return NextResponse.json({ message: `Number is on the do-not-call list: ${dnc.reason}` }, { status: 403 });
+    }
+
+    // 4. Enforce calling hours and blackout dates in the contact's timezone.
+    // With outsideWindow: 'defer' the call is queued for the next allowed time instead of refused.
+    const windowCheck = await checkOutboundCallWindow({ userId, phoneNumber, agentTimezone: agent.timezone }, scheduledDate || new Date());
+    if (!windowCheck.allowed) {
+      if (outsideWindow !== 'defer' || !windowCheck.nextAllowedAt) {
+        return NextResponse.json({
+          message: `Outside the calling window: ${windowCheck.reason}`,
+          nextAllowedAt: windowCheck.nextAllowedAt,
+          timezone: windowCheck.timezone,
+        }, { status: 409 });
+      }
+      scheduledDate = windowCheck.nextAllowedAt;
+    }
+
+    // 5. Create an initial Call record in your DB (status: 'initiating', or 'queued' if scheduled)
     const newCall = new Call({
       userId,
       agentId: agent._id, // Store your DB reference if you have one
       elevenLabsAgentId: agent.agentId, // Corrected: Use agent.agentId from the found agent
       agentName: agent.name,
+      agentVersion: agent.currentVersion,
       contactName,
       phoneNumber,
-      status: 'initiating', // New initial status
+      provider: providerName,
+      status: scheduledDate ? 'queued' : 'initiating', // New initial status
       notes: customMessage || '',
-      callStartTime: new Date(), // Mark when the attempt started
+      customMessage: customMessage || undefined,
+      scheduledFor: scheduledDate || undefined,
+      callStartTime: scheduledDate ? undefined : new Date(), // Mark when the attempt started; the dispatcher sets it for scheduled calls
     });
     await newCall.save();
 
-    // 3. Prepare Exotel API Call
-    // You'll need your Exotel Account SID, API Key/Token from Exotel dashboard
-    const EXOTEL_ACCOUNT_SID = process.env.EXOTEL_ACCOUNT_SID!;
-    const EXOTEL_API_KEY = process.env.EXOTEL_API_KEY!;
-    const EXOTEL_API_TOKEN = process.env.EXOTEL_API_TOKEN!;
-    const EXOTEL_CALLER_ID = process.env.EXOTEL_CALLER_ID!; // Your verified Exotel number
-
-    // Robust normalization function to get the last 10 digits of a phone number
-    const getTenDigitNumber = (num: string) => {
-        const digitsOnly = num.replace(/\D/g, '');
-        return digitsOnly.slice(-10);
-    };
-
-    const normalizedCallerId = getTenDigitNumber(EXOTEL_CALLER_ID);
-    const normalizedPhoneNumber = getTenDigitNumber(phoneNumber);
-    if (normalizedCallerId === normalizedPhoneNumber) {
-      return NextResponse.json({ message: 'You cannot initiate a call to the system\'s own caller ID.' }, { status: 400 });
+    if (scheduledDate) {
+      return NextResponse.json({
+        message: 'Call scheduled',
+        callId: newCall._id.toString(),
+        scheduledFor: scheduledDate.toISOString(),
+        initialStatus: 'queued'
+      });
     }
 
-    // Log environment variables (masking sensitive parts)
-    console.log(`Exotel Config: Account SID: ${EXOTEL_ACCOUNT_SID}, Caller ID: ${EXOTEL_CALLER_ID}`);
-    console.log(`Exotel API Key (first 5 chars): ${EXOTEL_API_KEY.substring(0, 5)}...`);
-    console.log(`Exotel API Token (first 5 chars): ${EXOTEL_API_TOKEN.substring(0, 5)}...`);
-
-    // Define the two separate webhook URLs
-    const connectUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/exotel/connect`;
-    const statusCallbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/exotel/webhook`;
-    const elevenlabsWebhookUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/elevenlabs`;
-
-    const exotelPayload = {
-      To: phoneNumber, // <-- ADD THIS LINE
-      CallerId: EXOTEL_CALLER_ID, // Can often be the same as From
-      // This URL is hit with a POST request when the call is answered. It must return ExoML.
-      Url: connectUrl,
-      // Method is inferred by the <Connect> applet being POST
-      // This URL is hit with status updates (ringing, completed, etc.).
-      StatusCallback: statusCallbackUrl,
-      StatusCallbackMethod: "GET", // The method for the 'StatusCallback' URL
-      // Pass your internal call ID and agent ID to the webhook
-      CustomField: JSON.stringify({ 
-          internalCallId: newCall._id.toString(),
-          elevenLabsAgentId: agent.agentId, // Corrected: Use agent.agentId from the found agent
-          elevenlabsWebhookUrl: elevenlabsWebhookUrl
-      }), 
-      // Add other Exotel options if needed (recording etc.)
-    };
-
-    // 4. Make the API Call to Exotel to initiate the call
-    // Replace with your actual Exotel API call logic (using fetch or an SDK)
-    // UPDATED: Removed 'To' from the URL, as it's now in the body. 'From' is also optional here as CallerId is present.
-    const exotelApiUrl = `https://api.exotel.com/v1/Accounts/${EXOTEL_ACCOUNT_SID}/Calls/connect.json?From=${EXOTEL_CALLER_ID}`;
-    const authHeader = `Basic ${Buffer.from(`${EXOTEL_API_KEY}:${EXOTEL_API_TOKEN}`).toString('base64')}`;
-    
-    console.log("Exotel API URL:", exotelApiUrl);
-    console.log("Authorization Header:", authHeader.substring(0, 30) + "..."); // Masking most of the token
-    console.log("Initiating Exotel Call with payload:", exotelPayload);
-    const requestBody = new URLSearchParams(exotelPayload as any).toString();
-    console.log("Exotel Request Body (form-urlencoded):", requestBody);
-
-    const exotelResponse = await fetch(exotelApiUrl, {
-        method: 'POST',
-        headers: {
-            'Authorization': authHeader,
-            'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: requestBody,
-    });
-
-    if (!exotelResponse.ok) {
-        const errorText = await exotelResponse.text();
-        console.error("Exotel API Error:", errorText);
-
-        let failureReason = `Exotel initiation failed: ${errorText}`;
-        let clientMessage = `Error initiating call. Status: ${exotelResponse.status}`;
-
-        // Check for specific TRAI/NDNC error
-        if (exotelResponse.status === 403 && errorText.includes("TRAI NDNC")) {
-            failureReason = "Call blocked by TRAI/NDNC regulations. The recipient number is likely on the Do Not Call list.";
-            clientMessage = "This call cannot be completed due to TRAI/NDNC regulations. The number may be on the Do Not Call list.";
-        }
-
-        newCall.status = 'failed';
-        newCall.failureReason = failureReason;
-        console.error(`Exotel Response Status: ${exotelResponse.status}`);
-        console.error(`Exotel Response Status Text: ${exotelResponse.statusText}`);
-        await newCall.save();
+    // 5. Ask the provider to place the call (updates the Call record)
+    const result = await provider.dial(newCall, agent.agentId);
+    if (!result.ok) {
         // Return a more structured error to the client
-        return NextResponse.json({ message: clientMessage, details: errorText }, { status: exotelResponse.status });
+        return NextResponse.json({ message: result.clientMessage, details: result.details }, { status: result.httpStatus });
     }
 
-    const exotelResult = await exotelResponse.json();
-    const exotelCallSid = exotelResult.Call.Sid; // Get the Call SID from Exotel response
-
-    console.log("Exotel Call Initiated:", exotelResult);
-
-    // 5. Update your Call record with Exotel's Call SID
-    newCall.exotelCallSid = exotelCallSid;
-    newCall.status = 'ringing'; // Update status
-    await newCall.save();
-
     // 6. Respond to Frontend
     // Send back your internal Call ID so the frontend can poll for status/URL
     return NextResponse.json({ 
-        message: 'Call initiated via Exotel', 
+        message: result.clientMessage,
         callId: newCall._id.toString(), // Your DB call ID
-        exotelCallSid: exotelCallSid,
+        provider: providerName,
+        callSid: result.providerCallSid,
+        exotelCallSid: providerName === 'exotel' ? result.providerCallSid : undefined,
         initialStatus: 'ringing'
     });
 
   } catch (error: any) {
-    console.error('Error initiating Exotel call:', error);
+    console.error('Error initiating call:', error);
     return NextResponse.json({ message: 'Server error initiating call', error: error.message }, { status: 500 });
   }
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { archivePendingRecordings } from '@/lib/recordingArchiver';
+
+/**
+ * GET /api/calls/recordings/archive
+ * Called by a cron job (e.g. every 5 minutes) to copy recordings of finished calls
+ * into recording storage. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await archivePendingRecordings();
+        return NextResponse.json(result);
+    } catch (error: any) {
+        console.error('Error archiving call recordings:', error);
+        return NextResponse.json({ message: 'Failed to archive recordings', error: error.message }, { status: 500 });
+    }
+}
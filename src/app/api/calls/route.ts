@@ -6,6 +6,10 @@ import Agent from '@/models/agentModel';
 import { getUserFromRequest } from '@/lib/jwt';
 import { initiateCall } from '@/lib/elevenLabs'; // Assuming this is your service function
 import { parse } from 'csv-parse/sync';
+import { checkOutboundCallWindow } from '@/lib/callingWindow';
+import { normalizePhoneNumber } from '@/lib/phone';
+import { guardOutboundDial } from '@/lib/dnc';
+import { getAccountRedactionSettings, redactCallContent } from '@/lib/redaction';
 
 export async function GET(request: NextRequest) {
     try {
@@ -21,9 +25,10 @@ export async function GET(request: NextRequest) {
         const calls = await Call.find({ userId: userData.userId })
             .sort({ createdAt: -1 })
             .limit(limit)
-            .lean(); // Use .lean() for faster, plain JS objects
+            .lean<any[]>(); // Use .lean() for faster, plain JS objects
 
-        return NextResponse.json({ calls });
+        const redaction = await getAccountRedactionSettings(userData.userId);
+        return NextResponse.json({ calls: calls.map(call => redactCallContent(call, redaction).call) });
     } catch (error: any) {
         console.error('Error fetching calls:', error);
         return NextResponse.json({ message: 'Failed to fetch calls', error: error.message }, { status: 500 });
@@ -38,13 +43,33 @@ export async function POST(request: NextRequest) {
         }
 
         const body = await request.json();
-        const { agentId, phoneNumber, contactName, customMessage } = body;
+        const { agentId, contactName, customMessage } = body;
 
-        if (!agentId || !phoneNumber || !contactName) {
+        if (!agentId || !body.phoneNumber || !contactName) {
             return NextResponse.json({ message: 'Agent, Phone Number, and Name are required' }, { status: 400 });
         }
+        const phoneNumber = normalizePhoneNumber(body.phoneNumber);
+        if (!phoneNumber) {
+            return NextResponse.json({ message: `Invalid phone number: ${body.phoneNumber}` }, { status: 400 });
+        }
+
+        await connectDB();
+        const dnc = await guardOutboundDial({ userId: userData.userId, phoneNumber, path: 'single' });
+        if (dnc.blocked) {
+            return NextResponse.json({ message: `Number is on the do-not-call list: ${dnc.reason}` }, { status: 403 });
+        }
 
-        const result = await initiateCall(userData.userId, agentId, phoneNumber, contactName);
+        const agent = await Agent.findOne({ userId: userData.userId, agentId }).select('timezone');
+        const windowCheck = await checkOutboundCallWindow({ userId: userData.userId, phoneNumber, agentTimezone: agent?.timezone });
+        if (!windowCheck.allowed) {
+            return NextResponse.json({
+                message: `Outside the calling window: ${windowCheck.reason}`,
+                nextAllowedAt: windowCheck.nextAllowedAt,
+                timezone: windowCheck.timezone,
+            }, { status: 409 });
+        }
+
+        const result = await initiateCall(userData.userId, agentId, phoneNumber, contactName, customMessage);
         
         return NextResponse.json(result);
     } catch (error: any) {
@@ -80,8 +105,10 @@ export async function PUT(request: NextRequest) {
 
         const results = { created: 0, skipped: 0, failed: 0 };
         const uploadedContacts = [];
+        const invalidRows: { row: number; phoneNumber: string }[] = [];
+        const seenNumbers = new Set<string>();
 
-        for (const record of records) {
+        for (const [index, record] of records.entries()) {
             const name = record.name || record.Name;
             const phone = record.phone || record.Phone || record.phoneNumber;
             const customMessage = record.message || record.customMessage;
@@ -90,9 +117,22 @@ export async function PUT(request: NextRequest) {
                 results.skipped++;
                 continue;
             }
-            
+
+            const phoneNumber = normalizePhoneNumber(phone);
+            if (!phoneNumber) {
+                invalidRows.push({ row: index + 2, phoneNumber: phone }); // +2: header row and 1-based numbering
+                results.failed++;
+                continue;
+            }
+            // The same number written two ways is still one contact
+            if (seenNumbers.has(phoneNumber)) {
+                results.skipped++;
+                continue;
+            }
+            seenNumbers.add(phoneNumber);
+
             // This is what the frontend expects for the batch call
-            uploadedContacts.push({ name, phoneNumber: phone, customMessage });
+            uploadedContacts.push({ name, phoneNumber, customMessage });
             results.created++;
         }
 
@@ -100,6 +140,7 @@ export async function PUT(request: NextRequest) {
             message: `Processed ${records.length} contacts from CSV.`,
             results,
             uploadedContacts,
+            invalidRows,
         });
     } catch (error: any) {
         console.error('Error processing CSV:', error);
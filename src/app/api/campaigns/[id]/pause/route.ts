@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Campaign from '@/models/campaignModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { pauseCampaign } from '@/lib/campaignRunner';
+
+/**
+ * POST /api/campaigns/[id]/pause
+ * Pauses a campaign: no new calls are dialed, live calls are allowed to finish.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid Campaign ID' }, { status: 400 });
+        }
+
+        await connectDB();
+
+        const campaign = await Campaign.findOne({ _id: params.id, userId: userData.userId });
+        if (!campaign) {
+            return NextResponse.json({ message: 'Campaign not found' }, { status: 404 });
+        }
+
+        const error = await pauseCampaign(campaign);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 409 });
+        }
+
+        return NextResponse.json({ message: 'Campaign paused', campaign });
+    } catch (error: any) {
+        console.error(`Error in POST /api/campaigns/${params.id}/pause:`, error);
+        return NextResponse.json({ message: 'Failed to pause campaign', error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Campaign from '@/models/campaignModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { loadOutcomeTaxonomy } from '@/lib/outcomes';
+import { buildVariantReport } from '@/lib/campaignVariants';
+import { buildCampaignFunnel, buildContactRows, loadCampaignCalls, contactRowsToCSV, campaignReportToXLSX } from '@/lib/campaignReport';
+
+/**
+ * GET /api/campaigns/[id]/report
+ * Aggregates the campaign's calls into a funnel (dialed -> ringing -> answered ->
+ * connected -> successful -> outcomes), a per-contact table and, for A/B campaigns, a variant comparison.
+ * `?format=csv` or `?format=xlsx` downloads the per-contact table instead.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid Campaign ID' }, { status: 400 });
+        }
+
+        await connectDB();
+
+        const campaign = await Campaign.findOne({ _id: params.id, userId: userData.userId });
+        if (!campaign) {
+            return NextResponse.json({ message: 'Campaign not found' }, { status: 404 });
+        }
+
+        const calls = await loadCampaignCalls(campaign);
+        const taxonomy = await loadOutcomeTaxonomy(campaign.userId);
+        const funnel = buildCampaignFunnel(calls, taxonomy);
+        const contacts = await buildContactRows(campaign, calls);
+
+        const format = new URL(request.url).searchParams.get('format');
+        const filename = `campaign_${campaign.name.replace(/[^\w-]+/g, '_')}_${new Date().toISOString().split('T')[0]}`;
+
+        if (format === 'csv') {
+            return new NextResponse(contactRowsToCSV(contacts), {
+                status: 200,
+                headers: {
+                    'Content-Type': 'text/csv',
+                    'Content-Disposition': `attachment; filename="${filename}.csv"`,
+                },
+            });
+        }
+        if (format === 'xlsx') {
+            return new NextResponse(new Uint8Array(campaignReportToXLSX(contacts, funnel)), {
+                status: 200,
+                headers: {
+                    'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+                    'Content-Disposition': `attachment; filename="${filename}.xlsx"`,
+                },
+            });
+        }
+        if (format) {
+            return NextResponse.json({ message: "format must be 'csv' or 'xlsx'" }, { status: 400 });
+        }
+
+        const variantReport = await buildVariantReport(campaign, taxonomy);
+        return NextResponse.json({ campaignId: campaign._id, funnel, contacts, ...variantReport });
+    } catch (error: any) {
+        console.error(`Error building report for campaign ${params.id}:`, error);
+        return NextResponse.json({ message: 'Failed to build campaign report', error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Campaign from '@/models/campaignModel';
+import Call from '@/models/callModel';
+import Agent from '@/models/agentModel';
+import Contact from '@/models/contactModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { parseCampaignSettings } from '@/lib/campaignRunner';
+import { parseCampaignVariants } from '@/lib/campaignVariants';
+
+type UrlParams = {
+    params: {
+        id: string;
+    };
+};
+
+/**
+ * GET /api/campaigns/[id]
+ * Fetches a campaign along with a count of its calls per status.
+ */
+export async function GET(request: NextRequest, { params }: UrlParams) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid Campaign ID' }, { status: 400 });
+        }
+
+        await connectDB();
+
+        const campaign = await Campaign.findOne({ _id: params.id, userId: userData.userId })
+            .populate('agentId', 'name agentId')
+            .populate('variants.agentId', 'name agentId')
+            .lean();
+        if (!campaign) {
+            return NextResponse.json({ message: 'Campaign not found' }, { status: 404 });
+        }
+
+        const statusCounts = await Call.aggregate([
+            { $match: { campaignId: new mongoose.Types.ObjectId(params.id) } },
+            { $group: { _id: '$status', count: { $sum: 1 } } },
+        ]);
+        const callStatusCounts = Object.fromEntries(statusCounts.map((s) => [s._id, s.count]));
+
+        return NextResponse.json({ campaign, callStatusCounts });
+    } catch (error: any) {
+        console.error(`Error fetching campaign ${params.id}:`, error);
+        return NextResponse.json({ message: 'Failed to fetch campaign', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/campaigns/[id]
+ * Updates a campaign. The agent, A/B variants and contact list can only change before the campaign starts.
+ */
+export async function PUT(request: NextRequest, { params }: UrlParams) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid Campaign ID' }, { status: 400 });
+        }
+
+        const body = await request.json();
+        const { fields, error } = parseCampaignSettings(body);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        await connectDB();
+
+        const campaign = await Campaign.findOne({ _id: params.id, userId: userData.userId });
+        if (!campaign) {
+            return NextResponse.json({ message: 'Campaign not found' }, { status: 404 });
+        }
+        if (['completed', 'cancelled'].includes(campaign.status)) {
+            return NextResponse.json({ message: `A ${campaign.status} campaign can no longer be edited` }, { status: 409 });
+        }
+
+        const notStarted = ['draft', 'scheduled'].includes(campaign.status);
+
+        if (body.agentId || body.contactIds || body.variants !== undefined) {
+            if (!notStarted) {
+                return NextResponse.json({ message: 'Agent, variants and contacts cannot change once a campaign has started' }, { status: 409 });
+            }
+            if (body.agentId) {
+                const agent = await Agent.findOne({ userId: userData.userId, agentId: body.agentId });
+                if (!agent) {
+                    return NextResponse.json({ message: 'Agent not found' }, { status: 404 });
+                }
+                campaign.agentId = agent._id;
+            }
+            if (body.variants !== undefined) {
+                const { variants, error: variantsError } = await parseCampaignVariants(userData.userId, body.variants || []);
+                if (variantsError) {
+                    return NextResponse.json({ message: variantsError }, { status: 400 });
+                }
+                campaign.variants = variants!;
+                if (variants!.length > 0) {
+                    campaign.agentId = variants![0].agentId;
+                }
+            }
+            if (Array.isArray(body.contactIds)) {
+                const validIds = body.contactIds.filter((id: string) => mongoose.Types.ObjectId.isValid(id));
+                const contacts = await Contact.find({ _id: { $in: validIds }, userId: userData.userId }).select('_id');
+                campaign.contacts = contacts.map((c: any) => c._id);
+                campaign.totalContacts = contacts.length;
+            }
+        }
+
+        // Only the draft <-> scheduled switch is allowed here; the runner owns the other transitions
+        if (body.status) {
+            if (!notStarted || !['draft', 'scheduled'].includes(body.status)) {
+                return NextResponse.json({ message: `Cannot change status from '${campaign.status}' to '${body.status}'` }, { status: 409 });
+            }
+            campaign.status = body.status;
+        }
+
+        campaign.set(fields);
+        await campaign.save();
+
+        return NextResponse.json({ message: 'Campaign updated successfully', campaign });
+    } catch (error: any) {
+        console.error(`Error updating campaign ${params.id}:`, error);
+        return NextResponse.json({ message: 'Failed to update campaign', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/campaigns/[id]
+ * Deletes a campaign that is not currently running. Its calls are kept for history.
+ */
+export async function DELETE(request: NextRequest, { params }: UrlParams) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid Campaign ID' }, { status: 400 });
+        }
+
+        await connectDB();
+
+        const campaign = await Campaign.findOne({ _id: params.id, userId: userData.userId });
+        if (!campaign) {
+            return NextResponse.json({ message: 'Campaign not found' }, { status: 404 });
+        }
+        if (campaign.status === 'in-progress') {
+            return NextResponse.json({ message: 'A running campaign cannot be deleted' }, { status: 409 });
+        }
+
+        await campaign.deleteOne();
+
+        return NextResponse.json({ message: 'Campaign deleted successfully' });
+    } catch (error: any) {
+        console.error(`Error deleting campaign ${params.id}:`, error);
+        return NextResponse.json({ message: 'Failed to delete campaign', error: error.message }, { status: 500 });
+    }
+}
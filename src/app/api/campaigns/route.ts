@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Campaign from '@/models/campaignModel';
+import Agent from '@/models/agentModel';
+import Contact from '@/models/contactModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { parseCampaignSettings } from '@/lib/campaignRunner';
+import { parseCampaignVariants } from '@/lib/campaignVariants';
+
+/**
+ * GET /api/campaigns
+ * Lists the logged-in user's campaigns, newest first.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { searchParams } = new URL(request.url);
+        const status = searchParams.get('status');
+
+        const query: any = { userId: userData.userId };
+        if (status) query.status = status;
+
+        const campaigns = await Campaign.find(query)
+            .sort({ createdAt: -1 })
+            .populate('agentId', 'name agentId')
+            .lean();
+
+        return NextResponse.json({ campaigns });
+    } catch (error: any) {
+        console.error('Error fetching campaigns:', error);
+        return NextResponse.json({ message: 'Failed to fetch campaigns', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/campaigns
+ * Creates a campaign as a draft, or as 'scheduled' so the runner picks it up.
+ * For an A/B test, pass `variants` ([{ key, agentId, weight, customMessage? }]) instead of `agentId`.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { agentId, contactIds, status } = body;
+        const hasVariants = Array.isArray(body.variants) && body.variants.length > 0;
+
+        if (!body.name || (!agentId && !hasVariants) || !Array.isArray(contactIds) || contactIds.length === 0) {
+            return NextResponse.json({ message: 'Name, agent and at least one contact are required' }, { status: 400 });
+        }
+        if (status && !['draft', 'scheduled'].includes(status)) {
+            return NextResponse.json({ message: "New campaigns must be 'draft' or 'scheduled'" }, { status: 400 });
+        }
+
+        const { fields, error } = parseCampaignSettings(body);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        await connectDB();
+
+        let variants: any[] = [];
+        if (hasVariants) {
+            const parsed = await parseCampaignVariants(userData.userId, body.variants);
+            if (parsed.error) {
+                return NextResponse.json({ message: parsed.error }, { status: 400 });
+            }
+            variants = parsed.variants!;
+        }
+
+        // With variants, the first variant's agent doubles as the campaign's main agent
+        const agent = hasVariants
+            ? await Agent.findById(variants[0].agentId)
+            : await Agent.findOne({ userId: userData.userId, agentId });
+        if (!agent) {
+            return NextResponse.json({ message: 'Agent not found' }, { status: 404 });
+        }
+
+        const validIds = contactIds.filter((id: string) => mongoose.Types.ObjectId.isValid(id));
+        const contacts = await Contact.find({ _id: { $in: validIds }, userId: userData.userId }).select('_id');
+        if (contacts.length === 0) {
+            return NextResponse.json({ message: 'None of the selected contacts were found' }, { status: 400 });
+        }
+
+        const campaign = await Campaign.create({
+            ...fields,
+            userId: userData.userId,
+            agentId: agent._id,
+            variants,
+            contacts: contacts.map((c: any) => c._id),
+            totalContacts: contacts.length,
+            status: status || 'draft',
+        });
+
+        return NextResponse.json({ message: 'Campaign created successfully', campaign }, { status: 201 });
+    } catch (error: any) {
+        console.error('Error creating campaign:', error);
+        return NextResponse.json({ message: 'Failed to create campaign', error: error.message }, { status: 500 });
+    }
+}
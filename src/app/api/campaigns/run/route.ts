@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueCampaigns } from '@/lib/campaignRunner';
+
+/**
+ * GET /api/campaigns/run
+ * Called by a cron job (e.g. every minute) to advance all due and running campaigns.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const results = await runDueCampaigns();
+        return NextResponse.json({ processed: results.length, results });
+    } catch (error: any) {
+        console.error('Error running campaigns:', error);
+        return NextResponse.json({ message: 'Failed to run campaigns', error: error.message }, { status: 500 });
+    }
+}
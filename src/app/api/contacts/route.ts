@@ -4,6 +4,11 @@ import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/db";
 import Contact from "@/models/contactModel";
 import { getUserFromRequest } from "@/lib/jwt";
+import { isValidTimezone } from "@/lib/callingWindow";
+import { normalizePhoneNumber } from "@/lib/phone";
+import { addToDnc } from "@/lib/dnc";
+
+const CONTACT_STATUSES = ["active", "inactive", "do-not-call"];
 
 /**
  * GET all contacts for the logged-in user
@@ -36,11 +41,21 @@ export async function POST(request: NextRequest) {
         }
 
         const body = await request.json();
-        const { name, phoneNumber, email, company } = body;
+        const { name, email, company, timezone, status } = body;
 
-        if (!name || !phoneNumber) {
+        if (!name || !body.phoneNumber) {
             return NextResponse.json({ message: "Name and phone number are required" }, { status: 400 });
         }
+        const phoneNumber = normalizePhoneNumber(body.phoneNumber);
+        if (!phoneNumber) {
+            return NextResponse.json({ message: `Invalid phone number: ${body.phoneNumber}` }, { status: 400 });
+        }
+        if (status && !CONTACT_STATUSES.includes(status)) {
+            return NextResponse.json({ message: `Invalid status: ${status}` }, { status: 400 });
+        }
+        if (timezone && !isValidTimezone(timezone)) {
+            return NextResponse.json({ message: `Unknown timezone: ${timezone}` }, { status: 400 });
+        }
 
         await connectDB();
 
@@ -50,6 +65,8 @@ export async function POST(request: NextRequest) {
             phoneNumber,
             email,
             company,
+            ...(timezone && { timezone }),
+            ...(status && { status, statusFromDnc: false }), // Set by hand from here on
             lastContacted: new Date(), // Set last contacted time on creation/update
         };
 
@@ -59,6 +76,9 @@ export async function POST(request: NextRequest) {
             { $set: contactData },
             { new: true, upsert: true, runValidators: true }
         );
+        if (contact.status === 'do-not-call') {
+            await addToDnc(userData.userId, contact.phoneNumber, { source: 'contact', contactId: contact._id });
+        }
 
         return NextResponse.json({ message: "Contact saved successfully", contact }, { status: 201 });
 
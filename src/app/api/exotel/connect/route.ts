@@ -3,23 +3,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db';
 import Call from '@/models/callModel';
 import Agent from '@/models/agentModel';
-
-const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY!;
-
-/**
- * Creates the ExoML response to instruct Exotel to stream audio to a WebSocket.
- * @param webSocketUrl The signed URL from ElevenLabs.
- * @returns An XML string (ExoML).
- */
-function createExotelStreamResponse(webSocketUrl: string): string {
-    // Ensure the URL is properly XML-escaped
-    const escapedUrl = webSocketUrl.replace(/&/g, '&amp;');
-    return `
-        <Response>
-            <Stream url="${escapedUrl}" />
-        </Response>
-    `.trim();
-}
+import { createExotelStreamResponse, getElevenLabsSignedUrl, EXOTEL_HANGUP_RESPONSE } from '@/lib/exotel';
+import { isAllowedExotelIp, isValidCallToken } from '@/lib/exotelWebhookAuth';
+import { transitionCall } from '@/lib/callLifecycle';
 
 /**
  * This webhook is called by Exotel's <Connect> applet when the call is answered.
@@ -27,6 +13,10 @@ function createExotelStreamResponse(webSocketUrl: string): string {
  * the <Stream> ExoML to start the audio stream.
  */
 export async function POST(request: NextRequest) {
+    if (!isAllowedExotelIp(request)) {
+        return new Response(EXOTEL_HANGUP_RESPONSE, { status: 403, headers: { 'Content-Type': 'application/xml' } });
+    }
+
     await connectDB();
 
     const formData = await request.formData();
@@ -37,21 +27,37 @@ export async function POST(request: NextRequest) {
 
     if (!customFieldString) {
         console.error("Connect Webhook: Missing CustomField data.");
-        return new Response("<Response><Hangup/></Response>", { status: 200, headers: { 'Content-Type': 'application/xml' } });
+        return new Response(EXOTEL_HANGUP_RESPONSE, { status: 200, headers: { 'Content-Type': 'application/xml' } });
     }
 
     try {
-        const { internalCallId, elevenLabsAgentId, elevenlabsWebhookUrl } = JSON.parse(customFieldString);
+        const { internalCallId, token } = JSON.parse(customFieldString);
 
-        if (!internalCallId || !elevenLabsAgentId) {
-            throw new Error("Invalid CustomField data. Missing internalCallId or elevenLabsAgentId.");
+        if (!internalCallId) {
+            throw new Error("Invalid CustomField data. Missing internalCallId.");
+        }
+        if (!isValidCallToken(internalCallId, token)) {
+            console.warn(`Connect Webhook: Invalid token for call ${internalCallId}. Hanging up.`);
+            return new Response(EXOTEL_HANGUP_RESPONSE, { status: 200, headers: { 'Content-Type': 'application/xml' } });
         }
-        console.log(`Using ElevenLabs webhook URL: ${elevenlabsWebhookUrl}`);
 
         const call = await Call.findById(internalCallId);
         if (!call) {
             throw new Error(`Call record not found for internal ID: ${internalCallId}`);
         }
+        if (callSid && call.exotelCallSid && call.exotelCallSid !== callSid) {
+            throw new Error(`CallSid ${callSid} does not belong to call ${internalCallId}`);
+        }
+
+        // The agent and webhook come from our own records, never from the request
+        const elevenLabsAgentId = call.elevenLabsAgentId;
+        const elevenlabsWebhookUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/elevenlabs`;
+
+        // A call that already finished (e.g. hung up or canceled while ringing) is not connected
+        if (call.status !== 'connected' && !(await transitionCall(call, 'connected', { source: 'exotel-connect' }))) {
+            console.warn(`Connect Webhook: Call ${internalCallId} is ${call.status}; hanging up.`);
+            return new Response(EXOTEL_HANGUP_RESPONSE, { status: 200, headers: { 'Content-Type': 'application/xml' } });
+        }
 
         // Find the agent to get its name
         const agent = await Agent.findOne({ agentId: elevenLabsAgentId });
@@ -60,36 +66,20 @@ export async function POST(request: NextRequest) {
         }
 
         // Fetch the signed URL from ElevenLabs
-        const url = `https://api.elevenlabs.io/v1/convai/conversation/get-signed-url`;
-        const elResponse = await fetch(url, { 
-            method: 'POST',
-            headers: { 'xi-api-key': ELEVENLABS_API_KEY, 'Content-Type': 'application/json' },
-            body: JSON.stringify({ agent_id: elevenLabsAgentId, webhook_url: elevenlabsWebhookUrl })
-        });
-
-        if (!elResponse.ok) {
-            const errorBody = await elResponse.text();
-            throw new Error(`ElevenLabs API error: ${elResponse.status} - ${errorBody}`);
-        }
-
-        const data = await elResponse.json();
-        if (!data.signed_url) {
-            throw new Error("ElevenLabs response missing signed_url");
-        }
+        const signedUrl = await getElevenLabsSignedUrl(elevenLabsAgentId, call._id.toString(), elevenlabsWebhookUrl);
 
-        // Save the URL and update status
-        call.elevenLabsSignedUrl = data.signed_url;
-        call.status = 'connected';
+        // Save the URL (the status was moved to 'connected' above)
+        call.elevenLabsSignedUrl = signedUrl;
         if (!call.callStartTime) call.callStartTime = new Date();
         await call.save();
 
         console.log(`Connect Webhook: Successfully fetched signed URL for call ${internalCallId}. Returning <Stream> ExoML.`);
-        const exoML = createExotelStreamResponse(data.signed_url);
+        const exoML = createExotelStreamResponse(signedUrl);
         return new Response(exoML, { status: 200, headers: { 'Content-Type': 'application/xml' } });
 
     } catch (error: any) {
         console.error("CRITICAL ERROR in Connect Webhook:", error.message);
         // Hangup the call if we fail to get the stream URL
-        return new Response("<Response><Hangup/></Response>", { status: 200, headers: { 'Content-Type': 'application/xml' } });
+        return new Response(EXOTEL_HANGUP_RESPONSE, { status: 200, headers: { 'Content-Type': 'application/xml' } });
     }
 }
@@ -0,0 +1,118 @@
+// /api/exotel/inbound/route.ts
+import { NextRequest } from 'next/server';
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
+import Agent from '@/models/agentModel';
+import Contact from '@/models/contactModel';
+import PhoneNumber, { toNumberKey } from '@/models/phoneNumberModel';
+import { createExotelStreamResponse, getElevenLabsSignedUrl, EXOTEL_HANGUP_RESPONSE } from '@/lib/exotel';
+import { isAllowedExotelIp } from '@/lib/exotelWebhookAuth';
+import { transitionCall } from '@/lib/callLifecycle';
+
+function exoMLResponse(body: string) {
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'application/xml' } });
+}
+
+/**
+ * Exotel sends the call details either as query parameters (GET) or as form data (POST),
+ * depending on how the applet in the number's call flow is configured.
+ */
+async function readParams(request: NextRequest): Promise<URLSearchParams> {
+    if (request.method === 'POST') {
+        const formData = await request.formData();
+        const params = new URLSearchParams();
+        formData.forEach((value, key) => params.append(key, String(value)));
+        return params;
+    }
+    return request.nextUrl.searchParams;
+}
+
+/**
+ * Called by the call flow of an Exotel number when someone dials it. Looks up the agent
+ * the number is assigned to, records an inbound Call and returns the <Stream> ExoML that
+ * connects the caller to the agent. Unassigned numbers and disabled agents are hung up.
+ */
+async function handleInboundCall(request: NextRequest) {
+    // No CustomField on inbound calls, so the IP allowlist is the only check available here
+    if (!isAllowedExotelIp(request)) {
+        return new Response(EXOTEL_HANGUP_RESPONSE, { status: 403, headers: { 'Content-Type': 'application/xml' } });
+    }
+
+    await connectDB();
+
+    const params = await readParams(request);
+    const callSid = params.get('CallSid');
+    const from = params.get('CallFrom') || params.get('From');
+    const to = params.get('CallTo') || params.get('To');
+
+    console.log(`Exotel Inbound Webhook - CallSid: ${callSid}, From: ${from}, To: ${to}`);
+
+    if (!callSid || !from || !to) {
+        console.error("Inbound Webhook: Missing CallSid, From or To.");
+        return exoMLResponse(EXOTEL_HANGUP_RESPONSE);
+    }
+
+    try {
+        const mapping = await PhoneNumber.findOne({ numberKey: toNumberKey(to), enabled: true });
+        if (!mapping) {
+            console.warn(`Inbound Webhook: No agent is assigned to ${to}. Hanging up.`);
+            return exoMLResponse(EXOTEL_HANGUP_RESPONSE);
+        }
+
+        const agent = await Agent.findOne({ _id: mapping.agentId, userId: mapping.userId });
+        if (!agent || agent.disabled) {
+            console.warn(`Inbound Webhook: Agent for ${to} is ${agent ? 'disabled' : 'missing'}. Hanging up.`);
+            return exoMLResponse(EXOTEL_HANGUP_RESPONSE);
+        }
+
+        // Exotel may retry the webhook; reuse the call record created on the first attempt
+        let call = await Call.findOne({ exotelCallSid: callSid });
+        if (!call) {
+            const contact = await Contact.findOne({ userId: mapping.userId, phoneNumber: from }).select('name');
+            call = new Call({
+                userId: mapping.userId,
+                agentId: agent._id,
+                elevenLabsAgentId: agent.agentId,
+                agentName: agent.name,
+                agentVersion: agent.currentVersion,
+                contactId: contact?._id,
+                contactName: contact?.name,
+                phoneNumber: from,
+                inboundNumber: to,
+                direction: 'inbound',
+                provider: 'exotel',
+                exotelCallSid: callSid,
+                status: 'answered',
+                callStartTime: new Date(),
+            });
+            await call.save();
+        }
+
+        const elevenlabsWebhookUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/elevenlabs`;
+        const signedUrl = await getElevenLabsSignedUrl(agent.agentId, call._id.toString(), elevenlabsWebhookUrl);
+
+        call.elevenLabsSignedUrl = signedUrl;
+        await transitionCall(call, 'connected', { source: 'exotel-inbound' });
+        await call.save();
+
+        console.log(`Inbound Webhook: Connecting call ${call._id} from ${from} to agent ${agent.agentId}. Returning <Stream> ExoML.`);
+        return exoMLResponse(createExotelStreamResponse(signedUrl));
+
+    } catch (error: any) {
+        console.error("CRITICAL ERROR in Inbound Webhook:", error.message);
+        const call = await Call.findOne({ exotelCallSid: callSid }).catch(() => null);
+        if (call && await transitionCall(call, 'failed', { source: 'exotel-inbound', reason: `Inbound connect failed: ${error.message}` })) {
+            call.callEndTime = new Date();
+            await call.save();
+        }
+        return exoMLResponse(EXOTEL_HANGUP_RESPONSE);
+    }
+}
+
+export async function GET(request: NextRequest) {
+    return handleInboundCall(request);
+}
+
+export async function POST(request: NextRequest) {
+    return handleInboundCall(request);
+}
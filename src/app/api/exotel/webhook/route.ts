@@ -2,6 +2,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db';
 import Call, { ICall } from '@/models/callModel'; // Your Mongoose Call model
+import { finalizeCallAttempt } from '@/lib/callRetry';
+import { mapExotelStatus } from '@/lib/exotel';
+import { isAllowedExotelIp, isValidCallToken } from '@/lib/exotelWebhookAuth';
+import { transitionCall } from '@/lib/callLifecycle';
+import WebhookEvent, { IWebhookEvent } from '@/models/webhookEventModel';
 
 // This function is NO LONGER expected to return ExoML to control the call via Passthru GET response,
 // based on the provided documentation focusing on metadata reporting.
@@ -9,6 +14,10 @@ import Call, { ICall } from '@/models/callModel'; // Your Mongoose Call model
 // function createExotelConnectWebSocketResponse(webSocketUrl: string): string { ... } // REMOVED
 
 export async function GET(request: NextRequest) { // Changed to GET
+    if (!isAllowedExotelIp(request)) {
+        return new Response("Forbidden", { status: 403 });
+    }
+
     await connectDB();
     
     // --- Parse Query Parameters ---
@@ -43,47 +52,76 @@ export async function GET(request: NextRequest) { // Changed to GET
     const streamDisconnectedBy = queryParams.get('Stream[DisconnectedBy]') as string | null;
     const streamDuration = queryParams.get('Stream[Duration]') as string | null;
 
-     // --- Logic to Identify Call (remains similar) ---
+    if (!callSid) {
+        console.error("Webhook error: Missing CallSid.");
+        return new Response("Error: Missing call identifier", { status: 400 });
+    }
+
+    // --- Identify the call ---
+    // Outbound calls carry our CustomField, which must hold a valid token for its call id.
+    // Only inbound calls (no CustomField) may be looked up by their CallSid.
+    let call: ICall | null = null;
     let internalCallId: string | null = null;
-    let elevenLabsAgentId: string | null = null; // Still needed if we fetch URL here
 
-    if (customFieldString) { 
+    if (customFieldString) {
+        let customData: any = null;
         try {
-            const customData = JSON.parse(customFieldString);
-            internalCallId = customData.internalCallId;
-            elevenLabsAgentId = customData.elevenLabsAgentId; // Agent ID passed during initiation
-            console.log(`Parsed CustomField: internalCallId=${internalCallId}, elevenLabsAgentId=${elevenLabsAgentId}`);
+            customData = JSON.parse(customFieldString);
         } catch (e) { console.error("Failed to parse CustomField:", customFieldString, e); }
+
+        if (customData?.internalCallId) {
+            if (!isValidCallToken(customData.internalCallId, customData.token)) {
+                console.warn(`Webhook rejected: invalid token for call ${customData.internalCallId}. CallSid: ${callSid}`);
+                return new Response("Forbidden", { status: 403 });
+            }
+            internalCallId = customData.internalCallId;
+            call = await Call.findById(internalCallId);
+        }
     }
-    
-    if (!internalCallId && callSid) { 
-         console.log(`Internal Call ID missing, attempting lookup by Exotel SID: ${callSid}`);
-         const call = await Call.findOne({ exotelCallSid: callSid });
+
+    if (!internalCallId) {
+        console.log(`Internal Call ID missing, attempting inbound lookup by Exotel SID: ${callSid}`);
+        call = await Call.findOne({ exotelCallSid: callSid, direction: 'inbound' });
         if (call) {
             internalCallId = call._id.toString();
-            elevenLabsAgentId = call.elevenLabsAgentId; 
-            console.log(`Found call ${internalCallId} via Exotel SID.`);
-        } else { console.warn(`No call found matching Exotel SID: ${callSid}`); }
+            console.log(`Found inbound call ${internalCallId} via Exotel SID.`);
+        }
     }
-    
-    if (!internalCallId) { 
-        console.error(`Webhook error: Could not determine internalCallId. CallSid: ${callSid}`);
-        // Cannot update DB without ID. Respond with error code (though Passthru might ignore it).
-        // Returning 200 OK might be safer to prevent Exotel retries.
-        return new Response("Error: Missing call identifier", { status: 400 }); // Or maybe 200 OK
+
+    // Nothing is recorded for unknown or rejected callbacks, so the genuine one (or Exotel's retry) still gets through
+    if (!call) {
+        console.error(`Webhook error: Could not identify the call. CallSid: ${callSid}, internal ID: ${internalCallId}`);
+        return new Response("Error: Unknown call", { status: 400 });
+    }
+    if (call.exotelCallSid && call.exotelCallSid !== callSid) {
+        console.warn(`Webhook rejected: CallSid ${callSid} does not belong to call ${internalCallId}.`);
+        return new Response("Forbidden", { status: 403 });
     }
 
+    // --- Record the event; a redelivered callback hits the unique index and is skipped ---
+    const eventStatus = streamStatus ? `stream:${streamStatus}` : (callStatus || 'unknown');
+    let event: IWebhookEvent;
     try {
-        const call = await Call.findById(internalCallId);
-        if (!call) { 
-            console.error(`Webhook error: Call record not found for internal ID: ${internalCallId}. Exotel SID: ${callSid}`);
-            return new Response("Error: Call record not found", { status: 404 }); // Or maybe 200 OK
+        event = await WebhookEvent.create({ provider: 'exotel', callSid, status: eventStatus, payload: allParams, callId: call._id });
+    } catch (error: any) {
+        if (error.code === 11000) {
+            console.log(`Duplicate Exotel webhook for ${callSid} (${eventStatus}) ignored.`);
+            return new Response("OK", { status: 200 });
         }
+        throw error;
+    }
 
+    const finishEvent = async (result: 'applied' | 'ignored', note?: string) => {
+        await WebhookEvent.updateOne({ _id: event._id }, { $set: { result, note } });
+    };
+
+    try {
         console.log(`Processing webhook for call ${internalCallId}. Exotel Status: ${callStatus}. Stream Status: ${streamStatus}. Current DB Status: ${call.status}`);
 
         // --- Update DB based on received status ---
+        const previousStatus = call.status;
         let updatedStatus: ICall['status'] | null = null;
+        let failureReason: string | undefined;
         let needsSave = false;
 
         // Prioritize Stream status if available for final states
@@ -91,29 +129,24 @@ export async function GET(request: NextRequest) { // Changed to GET
             updatedStatus = 'ended';
         } else if (streamStatus === 'failed' || callStatus === 'failed') {
             updatedStatus = 'failed';
-            call.failureReason = streamError || call.failureReason || `Exotel reported status: ${callStatus}`;
+            failureReason = streamError || call.failureReason || `Exotel reported status: ${callStatus}`;
         } else if (streamStatus === 'cancelled') {
              updatedStatus = call.status === 'connected' ? 'ended' : 'failed'; // If connected then cancelled, likely user hangup. If not, failed setup.
-             call.failureReason = call.failureReason || `Stream cancelled by ${streamDisconnectedBy || 'unknown'}`;
-        } else if (callStatus === 'busy') {
-            updatedStatus = 'busy';
-        } else if (callStatus === 'no-answer') {
-            updatedStatus = 'no-answer';
-        } else if (callStatus === 'answered' || callStatus === 'in-progress') { // Status before 'connected'
-             if (call.status === 'ringing' || call.status === 'initiating') {
-                 updatedStatus = 'answered';
-             }
-        } else if (callStatus === 'ringing') {
-             if (call.status === 'initiating' || call.status === 'queued') {
-                updatedStatus = 'ringing';
-             }
+             failureReason = call.failureReason || `Stream cancelled by ${streamDisconnectedBy || 'unknown'}`;
+        } else if (callStatus) {
+            updatedStatus = mapExotelStatus(callStatus, call.status);
         }
 
-        // Apply status update if changed
+        // Apply status update if the state machine allows it. A call that already reached a
+        // final status keeps it; late or out-of-order callbacks only fill in the end time and duration below
+        let note: string | undefined;
         if (updatedStatus && call.status !== updatedStatus) {
-            call.status = updatedStatus;
-            needsSave = true;
-            console.log(`Webhook updating call ${internalCallId} status to ${updatedStatus}`);
+            if (await transitionCall(call, updatedStatus, { source: 'exotel-webhook', reason: failureReason })) {
+                needsSave = true;
+                console.log(`Webhook updating call ${internalCallId} status to ${updatedStatus}`);
+            } else {
+                note = `Call already ${call.status}; ${eventStatus} not applied`;
+            }
         }
 
         // Update end time and duration for terminal states
@@ -130,7 +163,9 @@ export async function GET(request: NextRequest) { // Changed to GET
         // Save if any changes were made
         if (needsSave) {
             await call.save();
+            await finalizeCallAttempt(call, previousStatus);
         }
+        await finishEvent(needsSave ? 'applied' : 'ignored', note);
 
         // --- Respond to Exotel ---
         // This webhook only receives status updates and does not control the call flow.
@@ -140,6 +175,8 @@ export async function GET(request: NextRequest) { // Changed to GET
 
     } catch (error: any) { 
         console.error(`Webhook CRITICAL error for call ${internalCallId || callSid || 'UNKNOWN'}:`, error);
+        // Forget the event so Exotel's retry of this callback is processed again
+        await WebhookEvent.deleteOne({ _id: event._id }).catch(() => {});
         return new Response("Internal Server Error", { status: 500 });
     }
 }
\ No newline at end of file
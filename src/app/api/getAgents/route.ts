@@ -41,6 +41,8 @@ export async function GET(request: NextRequest) {
       max_duration_seconds: a.maxDurationSeconds,
       knowledge_documents: a.knowledgeDocuments,
       tools: a.tools,
+      drifted_fields: a.driftedFields || [],
+      drift_checked_at: a.driftCheckedAt,
       conversation_config: {
         first_message: a.firstMessage,
         system_prompt: a.systemPrompt,
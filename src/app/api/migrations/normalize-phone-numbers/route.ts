@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import { migratePhoneNumbers } from '@/lib/phoneMigration';
+
+/**
+ * POST /api/migrations/normalize-phone-numbers[?dryRun=true]
+ * One-off migration that rewrites stored phone numbers to E.164 and merges contacts
+ * that turn out to share a number. With dryRun it only reports what would change.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+        await connectDB();
+        const report = await migratePhoneNumbers({ dryRun });
+        return NextResponse.json(report);
+    } catch (error: any) {
+        console.error('Error normalizing phone numbers:', error);
+        return NextResponse.json({ message: 'Failed to normalize phone numbers', error: error.message }, { status: 500 });
+    }
+}
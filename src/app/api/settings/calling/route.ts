@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import User from '@/models/userModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { getAccountCallingRules, parseCallingRules } from '@/lib/callingWindow';
+import { isTelephonyProviderName, resolveProviderName, TELEPHONY_PROVIDERS } from '@/lib/telephony';
+
+/**
+ * GET /api/settings/calling
+ * Returns the account's default calling hours, blackout dates and telephony provider.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+        const rules = await getAccountCallingRules(userData.userId);
+        const telephonyProvider = await resolveProviderName({ userId: userData.userId });
+        return NextResponse.json({ callingWindow: rules.window, blackoutDates: rules.blackoutDates, telephonyProvider });
+    } catch (error: any) {
+        console.error('Error fetching calling settings:', error);
+        return NextResponse.json({ message: 'Failed to fetch calling settings', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/settings/calling
+ * Updates calling hours ({ startTime, endTime } in "HH:MM"; both empty = no limit)
+ * the list of blackout dates ("YYYY-MM-DD" with an optional label) and/or the
+ * telephony provider used by agents that don't pick their own.
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { fields, error } = parseCallingRules(body);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        if (body.telephonyProvider !== undefined && !isTelephonyProviderName(body.telephonyProvider)) {
+            return NextResponse.json({ message: `telephonyProvider must be one of: ${TELEPHONY_PROVIDERS.join(', ')}` }, { status: 400 });
+        }
+
+        const update: any = {};
+        if (body.telephonyProvider) update.telephonyProvider = body.telephonyProvider;
+        if (fields.window) update.callingWindow = fields.window;
+        if (fields.blackoutDates) update.blackoutDates = fields.blackoutDates;
+
+        await connectDB();
+        const user = await User.findByIdAndUpdate(userData.userId, { $set: update }, { new: true });
+        if (!user) {
+            return NextResponse.json({ message: 'User not found' }, { status: 404 });
+        }
+
+        const rules = await getAccountCallingRules(userData.userId);
+        return NextResponse.json({ message: 'Calling settings updated', callingWindow: rules.window, blackoutDates: rules.blackoutDates, telephonyProvider: user.telephonyProvider });
+    } catch (error: any) {
+        console.error('Error updating calling settings:', error);
+        return NextResponse.json({ message: 'Failed to update calling settings', error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import DncEntry from '@/models/dncEntryModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { removeFromDnc } from '@/lib/dnc';
+
+/**
+ * DELETE /api/settings/dnc/[id]
+ * Takes a number off the list so it can be dialed again.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid entry ID' }, { status: 400 });
+        }
+
+        await connectDB();
+        const entry = await DncEntry.findOne({ _id: params.id, userId: userData.userId });
+        if (!entry) {
+            return NextResponse.json({ message: 'Entry not found' }, { status: 404 });
+        }
+        await removeFromDnc(userData.userId, entry.phoneNumber);
+
+        return NextResponse.json({ message: 'Number removed from the do-not-call list' });
+    } catch (error: any) {
+        console.error('Error removing do-not-call number:', error);
+        return NextResponse.json({ message: 'Failed to remove number', error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import BlockedDial from '@/models/blockedDialModel';
+import { getUserFromRequest } from '@/lib/jwt';
+
+/**
+ * GET /api/settings/dnc/blocked[?limit=]
+ * The most recent dial attempts the do-not-call list stopped, with the reason.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const limit = Math.min(200, parseInt(new URL(request.url).searchParams.get('limit') || '50'));
+
+        await connectDB();
+        const blockedDials = await BlockedDial.find({ userId: userData.userId })
+            .sort({ createdAt: -1 })
+            .limit(limit)
+            .lean();
+
+        return NextResponse.json({ blockedDials });
+    } catch (error: any) {
+        console.error('Error fetching blocked dials:', error);
+        return NextResponse.json({ message: 'Failed to fetch blocked dials', error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import DncEntry from '@/models/dncEntryModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { addToDnc } from '@/lib/dnc';
+import { normalizePhoneNumber } from '@/lib/phone';
+
+const PAGE_SIZE = 50;
+
+/**
+ * GET /api/settings/dnc[?search=&page=]
+ * Lists the account's do-not-call numbers, newest first.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const url = new URL(request.url);
+        const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
+        const search = (url.searchParams.get('search') || '').replace(/\D/g, '');
+
+        const filter: any = { userId: userData.userId };
+        if (search) filter.phoneNumber = { $regex: search };
+
+        await connectDB();
+        const [entries, total] = await Promise.all([
+            DncEntry.find(filter).sort({ createdAt: -1 }).skip((page - 1) * PAGE_SIZE).limit(PAGE_SIZE).lean(),
+            DncEntry.countDocuments(filter),
+        ]);
+
+        return NextResponse.json({ entries, total, page, pageSize: PAGE_SIZE });
+    } catch (error: any) {
+        console.error('Error fetching do-not-call list:', error);
+        return NextResponse.json({ message: 'Failed to fetch do-not-call list', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/settings/dnc
+ * Adds a single number to the list ({ phoneNumber, reason? }).
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { phoneNumber, reason } = await request.json();
+        if (!normalizePhoneNumber(phoneNumber)) {
+            return NextResponse.json({ message: `Invalid phone number: ${phoneNumber || ''}` }, { status: 400 });
+        }
+
+        await connectDB();
+        const entry = await addToDnc(userData.userId, phoneNumber, { source: 'manual', reason: reason || undefined });
+
+        return NextResponse.json({ message: 'Number added to the do-not-call list', entry }, { status: 201 });
+    } catch (error: any) {
+        console.error('Error adding do-not-call number:', error);
+        return NextResponse.json({ message: 'Failed to add number', error: error.message }, { status: 500 });
+    }
+}
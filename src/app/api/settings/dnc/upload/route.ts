@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import { getUserFromRequest } from '@/lib/jwt';
+import { importScrubList } from '@/lib/dnc';
+
+/**
+ * POST /api/settings/dnc/upload
+ * Imports a scrub list (multipart `file`: CSV with a phone column, or one number per line).
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File;
+        if (!file) {
+            return NextResponse.json({ message: 'A scrub list file is required' }, { status: 400 });
+        }
+
+        await connectDB();
+        const buffer = Buffer.from(await file.arrayBuffer());
+        const results = await importScrubList(userData.userId, buffer, file.name);
+
+        return NextResponse.json({
+            message: `Added ${results.added} number(s) to the do-not-call list.`,
+            results,
+        });
+    } catch (error: any) {
+        console.error('Error importing scrub list:', error);
+        return NextResponse.json({ message: 'Failed to import scrub list', error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import OutcomeDefinition from '@/models/outcomeDefinitionModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { parseOutcomeDefinition } from '@/lib/outcomes';
+
+/**
+ * PUT /api/settings/outcomes/[id]
+ * Updates an outcome's name, description, colour, success flag or order. Calls already
+ * classified keep the outcome name they were given; reports use the current flags.
+ */
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid outcome ID' }, { status: 400 });
+        }
+
+        const body = await request.json();
+        const { fields, error } = parseOutcomeDefinition(body, true);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        const update: any = { ...fields };
+        if (body.order !== undefined) {
+            if (!Number.isInteger(body.order) || body.order < 0) {
+                return NextResponse.json({ message: 'order must be a non-negative integer' }, { status: 400 });
+            }
+            update.order = body.order;
+        }
+
+        await connectDB();
+        const outcome = await OutcomeDefinition.findOneAndUpdate(
+            { _id: params.id, userId: userData.userId },
+            { $set: update },
+            { new: true, runValidators: true }
+        ).populate('agentId', 'name agentId');
+
+        if (!outcome) {
+            return NextResponse.json({ message: 'Outcome not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ message: 'Outcome updated', outcome });
+    } catch (error: any) {
+        if (error.code === 11000) {
+            return NextResponse.json({ message: 'An outcome with this name already exists' }, { status: 409 });
+        }
+        console.error('Error updating outcome definition:', error);
+        return NextResponse.json({ message: 'Failed to update outcome', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/settings/outcomes/[id]
+ * Removes an outcome. The analyzer stops using it; past calls keep it as their outcome.
+ * The last account-wide outcome cannot be removed.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid outcome ID' }, { status: 400 });
+        }
+
+        await connectDB();
+        const outcome = await OutcomeDefinition.findOne({ _id: params.id, userId: userData.userId });
+        if (!outcome) {
+            return NextResponse.json({ message: 'Outcome not found' }, { status: 404 });
+        }
+
+        if (!outcome.agentId) {
+            const accountWide = await OutcomeDefinition.countDocuments({ userId: userData.userId, agentId: null });
+            if (accountWide <= 1) {
+                return NextResponse.json({ message: 'Keep at least one account-wide outcome' }, { status: 400 });
+            }
+        }
+
+        await outcome.deleteOne();
+        return NextResponse.json({ message: 'Outcome removed' });
+    } catch (error: any) {
+        console.error('Error removing outcome definition:', error);
+        return NextResponse.json({ message: 'Failed to remove outcome', error: error.message }, { status: 500 });
+    }
+}
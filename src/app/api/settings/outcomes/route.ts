@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import OutcomeDefinition from '@/models/outcomeDefinitionModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { ensureOutcomeDefinitions, findAccountAgent, loadOutcomeTaxonomy, parseOutcomeDefinition } from '@/lib/outcomes';
+
+/**
+ * GET /api/settings/outcomes
+ * Lists the account's outcome definitions, account-wide and per agent. New accounts
+ * get the default taxonomy saved on first read. With `?agentId=`, also returns the
+ * outcomes that agent's calls are classified into.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+        await ensureOutcomeDefinitions(userData.userId);
+
+        const outcomes = await OutcomeDefinition.find({ userId: userData.userId })
+            .populate('agentId', 'name agentId')
+            .sort({ order: 1, createdAt: 1 });
+
+        const agentId = new URL(request.url).searchParams.get('agentId');
+        if (!agentId) {
+            return NextResponse.json({ outcomes });
+        }
+
+        const agent = await findAccountAgent(userData.userId, agentId);
+        if (!agent) {
+            return NextResponse.json({ message: 'Agent not found' }, { status: 404 });
+        }
+        const taxonomy = await loadOutcomeTaxonomy(userData.userId);
+        return NextResponse.json({ outcomes, effective: taxonomy.forAgent(agent._id) });
+    } catch (error: any) {
+        console.error('Error fetching outcome definitions:', error);
+        return NextResponse.json({ message: 'Failed to fetch outcomes', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/settings/outcomes
+ * Adds an outcome ({ name, description, color?, countsAsSuccess?, agentId? }).
+ * Without `agentId` it applies to every agent; with it, only to that agent, replacing
+ * an account-wide outcome of the same name.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { fields, error } = parseOutcomeDefinition(body);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        await connectDB();
+        await ensureOutcomeDefinitions(userData.userId);
+
+        let agent = null;
+        if (body.agentId) {
+            agent = await findAccountAgent(userData.userId, String(body.agentId));
+            if (!agent) {
+                return NextResponse.json({ message: 'Agent not found' }, { status: 404 });
+            }
+        }
+
+        const last = await OutcomeDefinition.findOne({ userId: userData.userId }).sort({ order: -1 }).select('order');
+        const outcome = await OutcomeDefinition.create({
+            ...fields,
+            userId: userData.userId,
+            agentId: agent?._id,
+            order: (last?.order ?? -1) + 1,
+        });
+        await outcome.populate('agentId', 'name agentId');
+
+        return NextResponse.json({ message: 'Outcome added', outcome }, { status: 201 });
+    } catch (error: any) {
+        if (error.code === 11000) {
+            return NextResponse.json({ message: 'An outcome with this name already exists' }, { status: 409 });
+        }
+        console.error('Error adding outcome definition:', error);
+        return NextResponse.json({ message: 'Failed to add outcome', error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db';
+import Agent from '@/models/agentModel';
+import PhoneNumber from '@/models/phoneNumberModel';
+import { getUserFromRequest } from '@/lib/jwt';
+
+/**
+ * PUT /api/settings/phone-numbers/[id]
+ * Reassigns the number to another agent and/or updates its label or enabled flag.
+ */
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid phone number ID' }, { status: 400 });
+        }
+
+        const { agentId, label, enabled } = await request.json();
+
+        await connectDB();
+
+        const update: any = {};
+        if (agentId !== undefined) {
+            const agent = await Agent.findOne({ userId: userData.userId, agentId }).select('_id');
+            if (!agent) {
+                return NextResponse.json({ message: 'Agent not found' }, { status: 404 });
+            }
+            update.agentId = agent._id;
+        }
+        if (label !== undefined) update.label = label;
+        if (enabled !== undefined) update.enabled = !!enabled;
+
+        const phoneNumber = await PhoneNumber.findOneAndUpdate(
+            { _id: params.id, userId: userData.userId },
+            { $set: update },
+            { new: true }
+        ).populate('agentId', 'name agentId');
+
+        if (!phoneNumber) {
+            return NextResponse.json({ message: 'Phone number not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ message: 'Phone number updated', phoneNumber });
+    } catch (error: any) {
+        console.error('Error updating phone number:', error);
+        return NextResponse.json({ message: 'Failed to update phone number', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/settings/phone-numbers/[id]
+ * Removes the number; calls to it are no longer answered by an agent.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        if (!mongoose.Types.ObjectId.isValid(params.id)) {
+            return NextResponse.json({ message: 'Invalid phone number ID' }, { status: 400 });
+        }
+
+        await connectDB();
+        const deleted = await PhoneNumber.findOneAndDelete({ _id: params.id, userId: userData.userId });
+        if (!deleted) {
+            return NextResponse.json({ message: 'Phone number not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ message: 'Phone number removed' });
+    } catch (error: any) {
+        console.error('Error removing phone number:', error);
+        return NextResponse.json({ message: 'Failed to remove phone number', error: error.message }, { status: 500 });
+    }
+}
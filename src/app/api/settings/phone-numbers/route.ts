@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import Agent from '@/models/agentModel';
+import PhoneNumber, { toNumberKey } from '@/models/phoneNumberModel';
+import { getUserFromRequest } from '@/lib/jwt';
+
+/**
+ * GET /api/settings/phone-numbers
+ * Lists the account's inbound numbers and the agents they are routed to.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+        const phoneNumbers = await PhoneNumber.find({ userId: userData.userId })
+            .populate('agentId', 'name agentId')
+            .sort({ createdAt: 1 });
+
+        return NextResponse.json({ phoneNumbers });
+    } catch (error: any) {
+        console.error('Error fetching phone numbers:', error);
+        return NextResponse.json({ message: 'Failed to fetch phone numbers', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/settings/phone-numbers
+ * Assigns an Exotel number to an agent ({ phoneNumber, agentId, label? }).
+ * `agentId` is the ElevenLabs agent id, as everywhere else in the API.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { phoneNumber, agentId, label } = await request.json();
+        if (!phoneNumber || !agentId) {
+            return NextResponse.json({ message: 'Phone number and agent are required' }, { status: 400 });
+        }
+
+        const numberKey = toNumberKey(String(phoneNumber));
+        if (numberKey.length < 10) {
+            return NextResponse.json({ message: 'Invalid phone number' }, { status: 400 });
+        }
+
+        await connectDB();
+
+        const agent = await Agent.findOne({ userId: userData.userId, agentId }).select('_id');
+        if (!agent) {
+            return NextResponse.json({ message: 'Agent not found' }, { status: 404 });
+        }
+
+        const existing = await PhoneNumber.findOne({ numberKey });
+        if (existing) {
+            return NextResponse.json({ message: 'This number is already assigned to an agent' }, { status: 409 });
+        }
+
+        const created = await PhoneNumber.create({
+            userId: userData.userId,
+            phoneNumber: String(phoneNumber).trim(),
+            numberKey,
+            agentId: agent._id,
+            label: label || undefined,
+        });
+        await created.populate('agentId', 'name agentId');
+
+        return NextResponse.json({ message: 'Phone number assigned', phoneNumber: created }, { status: 201 });
+    } catch (error: any) {
+        console.error('Error assigning phone number:', error);
+        return NextResponse.json({ message: 'Failed to assign phone number', error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db';
+import User from '@/models/userModel';
+import { getUserFromRequest } from '@/lib/jwt';
+import { getAccountRedactionSettings, parseRedactionSettings } from '@/lib/redaction';
+
+/**
+ * GET /api/settings/redaction
+ * Returns the account's PII redaction settings.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+        const redaction = await getAccountRedactionSettings(userData.userId);
+        return NextResponse.json({ redaction });
+    } catch (error: any) {
+        console.error('Error fetching redaction settings:', error);
+        return NextResponse.json({ message: 'Failed to fetch redaction settings', error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/settings/redaction
+ * Updates { enabled, categories, originals }. `categories` picks what is masked
+ * (card, aadhaar, pan, email, phone, otp); `originals` is "encrypt" to keep the
+ * unredacted text encrypted for admins, or "discard" to keep only the redacted copy.
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const userData = await getUserFromRequest(request);
+        if (!userData || typeof userData === 'string') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { fields, error } = parseRedactionSettings(body);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        const update: any = {};
+        if (fields.enabled !== undefined) update['redaction.enabled'] = fields.enabled;
+        if (fields.categories) update['redaction.categories'] = fields.categories;
+        if (fields.originals) update['redaction.originals'] = fields.originals;
+
+        await connectDB();
+        const user = await User.findByIdAndUpdate(userData.userId, { $set: update }, { new: true });
+        if (!user) {
+            return NextResponse.json({ message: 'User not found' }, { status: 404 });
+        }
+
+        const redaction = await getAccountRedactionSettings(userData.userId);
+        return NextResponse.json({ message: 'Redaction settings updated', redaction });
+    } catch (error: any) {
+        console.error('Error updating redaction settings:', error);
+        return NextResponse.json({ message: 'Failed to update redaction settings', error: error.message }, { status: 500 });
+    }
+}
@@ -2,10 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
 import connectDB from "@/lib/db";
 import Call from "@/models/callModel";
-import { OpenAI } from "openai";
+import { finalizeCallAttempt } from "@/lib/callRetry";
+import { scheduleCallback } from "@/lib/callbacks";
+import { mapElevenLabsStatus, transitionCall } from "@/lib/callLifecycle";
+import { recordDoNotCallOutcome } from "@/lib/dnc";
+import { parseElevenLabsTranscript, transcriptToText } from "@/lib/transcript";
+import { redactCallBeforeSave } from "@/lib/redaction";
+import { analyzeCallOutcome, loadOutcomeTaxonomy, recordOutcomeSuccess } from "@/lib/outcomes";
 
 const SECRET = process.env.ELEVENLABS_WEBHOOK_SECRET!;
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
 // This is your robust signature validation function, slightly adapted. It's great.
 function isValidSignature(rawBody: string, signature: string | null) {
@@ -21,25 +26,6 @@ function isValidSignature(rawBody: string, signature: string | null) {
   }
 }
 
-// Your excellent OpenAI outcome analysis function. No changes needed.
-async function analyzeCallOutcome(summary: string): Promise<string> {
-    if (!summary?.trim()) return "neutral";
-    try {
-        const completion = await openai.chat.completions.create({
-            model: "gpt-3.5-turbo",
-            temperature: 0,
-            messages: [
-                { role: "system", content: "You analyze call summaries. Determine the outcome from this list: highly_interested, appointment_scheduled, needs_follow_up, not_interested, do_not_call, neutral, unqualified, call_back_later. Respond with only the outcome name." },
-                { role: "user", content: `Call summary: ${summary}` },
-            ],
-        });
-        return completion.choices[0]?.message?.content?.trim().toLowerCase() || "neutral";
-    } catch (err) {
-        console.error("OpenAI outcome analysis failed:", err);
-        return "neutral"; // Fallback on error
-    }
-}
-
 export async function POST(req: NextRequest) {
     try {
         const rawBody = await req.text();
@@ -54,24 +40,39 @@ export async function POST(req: NextRequest) {
 
         // We only care about the 'call.ended' event
         if (event.type === 'call.ended') {
-            const { metadata, conversation_id, summary, status, start_time, end_time, call_duration_seconds, cost, call_sid } = event.data;
+            const { metadata, conversation_id, summary, status, start_time, end_time, call_duration_seconds, cost, call_sid, transcript, conversation_initiation_client_data } = event.data;
+
+            // Our call id comes back as metadata or as the call_id dynamic variable set when the
+            // conversation started (Twilio dials and Exotel streams, inbound included)
+            const internalCallId = metadata?.call_id || conversation_initiation_client_data?.dynamic_variables?.call_id;
 
-            if (!metadata || !metadata.call_id) {
-                console.log("Webhook ignored: Event is missing the internal `metadata.call_id`.");
+            // Twilio calls placed through ElevenLabs' native integration may not echo our metadata,
+            // so fall back to the conversation id or Twilio Call SID saved when dialing
+            if (!internalCallId && !conversation_id && !call_sid) {
+                console.log("Webhook ignored: Event has no call id, conversation id or Call SID.");
                 return NextResponse.json({ message: 'OK' });
             }
 
             await connectDB();
             
             // Find the call in our database using the internal ID we provided
-            const call = await Call.findById(metadata.call_id);
+            let call;
+            if (internalCallId) {
+                call = await Call.findById(internalCallId);
+            } else if (conversation_id) {
+                call = await Call.findOne({ conversationId: conversation_id });
+            }
+            if (!call && call_sid) {
+                call = await Call.findOne({ twilioCallSid: call_sid });
+            }
             if (!call) {
-                console.error(`Webhook error: Call with internal ID ${metadata.call_id} not found.`);
+                console.error(`Webhook error: Call ${internalCallId || conversation_id || call_sid} not found.`);
                 return NextResponse.json({ error: 'Call not found' }, { status: 404 });
             }
 
             // Update the call with all the final data from ElevenLabs
-            call.status = status;
+            const previousStatus = call.status;
+            await transitionCall(call, mapElevenLabsStatus(status), { source: 'elevenlabs-webhook', reason: `ElevenLabs reported status: ${status}` });
             call.summary = summary || '';
             call.conversationId = conversation_id;
             call.elevenLabsCallId = call_sid; // The Twilio Call SID
@@ -79,14 +80,27 @@ export async function POST(req: NextRequest) {
             call.endTime = end_time ? new Date(end_time * 1000) : new Date();
             call.duration = call_duration_seconds || 0;
             call.cost = cost || 0;
+            const turns = parseElevenLabsTranscript(transcript);
+            if (turns.length > 0) {
+                call.transcript = turns;
+                call.transcription = transcriptToText(turns);
+            }
 
-            // Generate a more detailed outcome using OpenAI
+            // Generate a more detailed outcome using OpenAI, from the agent's outcome taxonomy
+            const taxonomy = await loadOutcomeTaxonomy(call.userId);
             if (summary) {
-                call.outcome = await analyzeCallOutcome(summary);
+                call.outcome = await analyzeCallOutcome(summary, taxonomy.forAgent(call.agentId));
             }
 
+            await redactCallBeforeSave(call);
             await call.save();
-            console.log(`Webhook successfully updated call ${call._id} to status: ${status}`);
+            await finalizeCallAttempt(call, previousStatus);
+            await recordOutcomeSuccess(call, taxonomy);
+            await recordDoNotCallOutcome(call);
+
+            // Queue a follow-up when the contact asked to be called back (read from the unredacted conversation)
+            await scheduleCallback(call, { summary, turns });
+            console.log(`Webhook successfully updated call ${call._id}; status is now ${call.status}`);
         }
 
         return NextResponse.json({ message: 'Webhook received' });
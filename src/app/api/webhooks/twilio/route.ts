@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import Call from "@/models/callModel";
+import { finalizeCallAttempt } from "@/lib/callRetry";
+import { transitionCall } from "@/lib/callLifecycle";
+import { getTwilioStatusCallbackUrl, isValidTwilioSignature, twilioProvider } from "@/lib/telephony/twilio";
+
+/**
+ * POST /api/webhooks/twilio?callId=...
+ * Twilio's status callback for outbound Twilio calls. Records final statuses such as
+ * busy and no-answer, which ElevenLabs' post-call webhook never reports, so retries
+ * and campaign results work for Twilio calls too.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const callId = req.nextUrl.searchParams.get("callId");
+        const form = await req.formData();
+        const params: Record<string, string> = {};
+        form.forEach((value, key) => {
+            if (typeof value === "string") params[key] = value;
+        });
+
+        // The signature covers the URL we registered, which holds the call id
+        if (!callId || !isValidTwilioSignature(getTwilioStatusCallbackUrl(callId), params, req.headers.get("x-twilio-signature"))) {
+            console.warn(`Invalid Twilio status callback signature for call ${callId}.`);
+            return NextResponse.json({ error: "Invalid signature" }, { status: 403 });
+        }
+
+        await connectDB();
+        const call = await Call.findOne({ _id: callId, twilioCallSid: params.CallSid });
+        if (!call) {
+            console.error(`Twilio status callback: call ${callId} with CallSid ${params.CallSid} not found.`);
+            return NextResponse.json({ error: "Call not found" }, { status: 404 });
+        }
+
+        const previousStatus = call.status;
+        const status = twilioProvider.mapStatus(params.CallStatus, call.status);
+        if (!status || status === call.status || !(await transitionCall(call, status, { source: "twilio-webhook", reason: `Twilio reported status: ${params.CallStatus}` }))) {
+            return NextResponse.json({ message: "OK" });
+        }
+
+        if (!call.callEndTime && ["ended", "failed", "busy", "no-answer", "canceled"].includes(call.status)) {
+            call.callEndTime = new Date();
+            const duration = parseInt(params.CallDuration, 10);
+            if (!isNaN(duration)) call.duration = duration;
+        }
+        await call.save();
+        await finalizeCallAttempt(call, previousStatus);
+
+        return NextResponse.json({ message: "OK" });
+    } catch (error: any) {
+        console.error("Error handling Twilio status callback:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
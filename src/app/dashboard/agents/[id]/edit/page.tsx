@@ -18,6 +18,7 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -25,7 +26,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 // Icons
-import { ArrowLeft, Save, Trash2, PlayCircle, PauseCircle, Loader2 } from "lucide-react";
+import { ArrowLeft, Save, Trash2, PlayCircle, PauseCircle, Loader2, RefreshCw, Download, Upload, CheckCircle, History, RotateCcw } from "lucide-react";
 
 // --- Base URL for API calls ---
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
@@ -57,6 +58,13 @@ const agentSchema = z.object({
     url: z.string().optional(),
     document_id: z.string().optional(),
   })).optional(),
+  retryPolicy: z.object({
+    maxAttempts: z.number().min(1).max(10),
+    backoffMinutes: z.number().min(1, "Backoff must be at least 1 minute"),
+    retryOn: z.array(z.enum(['busy', 'no-answer', 'failed'])),
+  }).optional(),
+  callbackDelayMinutes: z.number().int().min(1, "Delay must be at least 1 minute").optional(),
+  telephonyProvider: z.enum(["default", "exotel", "twilio"]).optional(),
 });
 
 // Constants for UI selections
@@ -71,6 +79,9 @@ const languages = [
     { id: "de", name: "German" }, { id: "it", name: "Italian" }, { id: "pt", name: "Portuguese" },
     { id: "hi", name: "Hindi" }, { id: "ja", name: "Japanese" }, { id: "ko", name: "Korean" }, { id: "zh", name: "Chinese" }
 ];
+const retryableStatuses = [
+    { id: "busy", name: "Busy" }, { id: "no-answer", name: "No Answer" }, { id: "failed", name: "Failed" }
+] as const;
 
 export default function EditAgentPage() {
     const params = useParams();
@@ -85,6 +96,7 @@ export default function EditAgentPage() {
 
     const [saving, setSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [changeNote, setChangeNote] = useState("");
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
     const [deletingAgent, setDeletingAgent] = useState(false);
     const [playingVoice, setPlayingVoice] = useState<string | null>(null);
@@ -96,6 +108,8 @@ export default function EditAgentPage() {
         resolver: zodResolver(agentSchema),
         defaultValues: { disabled: false, tools: [], knowledgeDocuments: [] },
     });
+    // Read during render so react-hook-form tracks which fields were edited
+    const { dirtyFields } = form.formState;
 
     useEffect(() => {
         // When agent data is fetched, reset the form with the data
@@ -113,6 +127,9 @@ export default function EditAgentPage() {
                 tools: agentData.tools || [],
                 disabled: agentData.disabled || false,
                 knowledgeDocuments: agentData.knowledgeDocuments || [],
+                retryPolicy: agentData.retryPolicy || { maxAttempts: 1, backoffMinutes: 30, retryOn: ["busy", "no-answer"] },
+                callbackDelayMinutes: agentData.callbackDelayMinutes || 24 * 60,
+                telephonyProvider: agentData.telephonyProvider || "default",
             });
         }
     }, [agentData, form.reset]);
@@ -121,14 +138,22 @@ export default function EditAgentPage() {
         setSaving(true);
         setError(null);
         try {
+            // Only what was edited, so untouched fields changed on ElevenLabs stay flagged as drift
+            const updates: Record<string, any> = {};
+            for (const field of Object.keys(dirtyFields) as (keyof typeof values)[]) {
+                updates[field] = values[field];
+            }
+            // "default" clears the agent's provider so the account's one is used
+            if (updates.telephonyProvider === "default") updates.telephonyProvider = "";
             const response = await fetch(`${API_BASE_URL}/api/agents/${id}`, {
-                method: "PATCH",
+                method: "PUT",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(values),
+                body: JSON.stringify({ ...updates, changeNote: changeNote.trim() || undefined }),
             });
             if (!response.ok) {
                 const errorData = await response.json().catch(() => ({}));
-                throw new Error(errorData.message || "Failed to update agent");
+                // Sync failures carry ElevenLabs' own reason in `error`
+                throw new Error(errorData.error ? `${errorData.message}: ${errorData.error}` : errorData.message || "Failed to update agent");
             }
             // Invalidate SWR cache for agents list to show updated data
             mutate(`${API_BASE_URL}/api/getAgents`);
@@ -201,6 +226,8 @@ export default function EditAgentPage() {
                             <Button variant="destructive" onClick={() => setDeleteDialogOpen(true)} className="gap-2"><Trash2 className="h-4 w-4" />Delete Agent</Button>
                         </div>
 
+                        <ElevenLabsSyncCard agentId={id} />
+
                         <Form {...form}>
                             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
                                 <Tabs defaultValue="basic" className="w-full">
@@ -245,13 +272,64 @@ export default function EditAgentPage() {
                                                 <FormField control={form.control} name="maxDurationSeconds" render={({ field }) => ( <FormItem><FormLabel className="text-[#A7A7A7]">Max Duration: {Math.floor((field.value ?? 0) / 60)} min</FormLabel><FormControl><Slider min={60} max={7200} step={60} value={[field.value ?? 1800]} onValueChange={(v) => field.onChange(v[0])} /></FormControl></FormItem>)} />
                                             </CardContent>
                                         </Card>
+                                        <Card className="bg-[#1a1a1a] border-[#333333] mt-6">
+                                            <CardHeader>
+                                                <CardTitle className="text-[#F3FFD4]">Call Retries</CardTitle>
+                                                <CardDescription className="text-[#A7A7A7]">Automatically call again when a call is busy, unanswered or fails. Campaigns can override this.</CardDescription>
+                                            </CardHeader>
+                                            <CardContent className="space-y-6">
+                                                <FormField control={form.control} name="retryPolicy.maxAttempts" render={({ field }) => ( <FormItem><FormLabel className="text-[#A7A7A7]">Max Attempts: {field.value === 1 ? "1 (no retries)" : field.value}</FormLabel><FormControl><Slider min={1} max={10} step={1} value={[field.value ?? 1]} onValueChange={(v) => field.onChange(v[0])} /></FormControl><FormDescription className="text-[#A7A7A7]">Includes the first call.</FormDescription></FormItem>)} />
+                                                <FormField control={form.control} name="retryPolicy.backoffMinutes" render={({ field }) => ( <FormItem><FormLabel className="text-[#A7A7A7]">Wait Between Attempts (minutes)</FormLabel><FormControl><Input type="number" min={1} {...field} onChange={(e) => field.onChange(Number(e.target.value))} className="bg-[#222] border-[#333]" /></FormControl><FormMessage /></FormItem>)} />
+                                                <FormField control={form.control} name="retryPolicy.retryOn" render={({ field }) => (
+                                                    <FormItem>
+                                                        <FormLabel className="text-[#A7A7A7]">Retry When</FormLabel>
+                                                        <div className="flex flex-wrap gap-6">
+                                                            {retryableStatuses.map(s => (
+                                                                <label key={s.id} className="flex items-center gap-2 text-sm text-[#F3FFD4]">
+                                                                    <Checkbox
+                                                                        checked={field.value?.includes(s.id)}
+                                                                        onCheckedChange={(checked) => field.onChange(checked ? [...(field.value || []), s.id] : (field.value || []).filter(v => v !== s.id))}
+                                                                    />
+                                                                    {s.name}
+                                                                </label>
+                                                            ))}
+                                                        </div>
+                                                    </FormItem>
+                                                )} />
+                                            </CardContent>
+                                        </Card>
+                                        <Card className="bg-[#1a1a1a] border-[#333333] mt-6">
+                                            <CardHeader>
+                                                <CardTitle className="text-[#F3FFD4]">Callbacks</CardTitle>
+                                                <CardDescription className="text-[#A7A7A7]">Calls with a "Call Back Later" or "Needs Follow-up" outcome are scheduled again at the time the contact asked for.</CardDescription>
+                                            </CardHeader>
+                                            <CardContent className="space-y-6">
+                                                <FormField control={form.control} name="callbackDelayMinutes" render={({ field }) => ( <FormItem><FormLabel className="text-[#A7A7A7]">Default Callback Delay (minutes)</FormLabel><FormControl><Input type="number" min={1} {...field} onChange={(e) => field.onChange(Number(e.target.value))} className="bg-[#222] border-[#333]" /></FormControl><FormDescription className="text-[#A7A7A7]">Used when no callback time was mentioned on the call.</FormDescription><FormMessage /></FormItem>)} />
+                                            </CardContent>
+                                        </Card>
+                                        <Card className="bg-[#1a1a1a] border-[#333333] mt-6">
+                                            <CardHeader>
+                                                <CardTitle className="text-[#F3FFD4]">Telephony</CardTitle>
+                                                <CardDescription className="text-[#A7A7A7]">The provider this agent's outbound calls are placed through.</CardDescription>
+                                            </CardHeader>
+                                            <CardContent className="space-y-6">
+                                                <FormField control={form.control} name="telephonyProvider" render={({ field }) => ( <FormItem><FormLabel className="text-[#A7A7A7]">Provider</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger className="bg-[#222] border-[#333]"><SelectValue /></SelectTrigger></FormControl><SelectContent className="bg-[#1a1a1a] border-[#333]"><SelectItem value="default">Account default</SelectItem><SelectItem value="exotel">Exotel</SelectItem><SelectItem value="twilio">Twilio</SelectItem></SelectContent></Select><FormDescription className="text-[#A7A7A7]">The account default is set in Settings.</FormDescription><FormMessage /></FormItem>)} />
+                                            </CardContent>
+                                        </Card>
                                     </TabsContent>
                                 </Tabs>
 
                                 {/* Error Display */}
                                 {error && <p className="text-sm text-red-500 text-center">{error}</p>}
 
-                                <div className="flex justify-end space-x-4 pt-4 border-t border-[#333333]">
+                                <div className="flex flex-wrap justify-end gap-4 pt-4 border-t border-[#333333]">
+                                    <Input
+                                        placeholder="Change note (optional)"
+                                        value={changeNote}
+                                        onChange={(e) => setChangeNote(e.target.value)}
+                                        maxLength={500}
+                                        className="bg-[#222] border-[#333] flex-1 min-w-[200px] placeholder:text-[#A7A7A7]/50"
+                                    />
                                     <Button type="button" variant="outline" className="border-[#333] hover:bg-[#333]" onClick={() => router.push("/dashboard/agents")}>Cancel</Button>
                                     <Button type="submit" disabled={saving || agentLoading} className="gap-2 min-w-[160px] bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90">
                                         {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
@@ -260,6 +338,8 @@ export default function EditAgentPage() {
                                 </div>
                             </form>
                         </Form>
+
+                        <VersionHistoryCard agentId={id} />
                     </div>
                 </div>
             </main>
@@ -282,3 +362,264 @@ export default function EditAgentPage() {
         </div>
     );
 }
+
+type DriftChange = { field: string; path: string; remote: any; local: any };
+
+// Short, readable rendering of a config value for the drift table
+const formatDriftValue = (value: any) => {
+    if (value === null || value === undefined || value === "") return "(not set)";
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+/**
+ * Shows where the ElevenLabs copy of the agent differs from ours (e.g. after an edit in
+ * the ElevenLabs console) and settles each field by pulling theirs or pushing ours.
+ */
+function ElevenLabsSyncCard({ agentId }: { agentId: string }) {
+    const driftKey = `/api/agents/${agentId}/drift`;
+    const { data, error: loadError, isLoading, mutate: refresh } = useSWR<{ changes: DriftChange[]; checkedAt: string }>(driftKey, fetcher, { revalidateOnFocus: false });
+    const [busyField, setBusyField] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const resolve = async (resolutions: { field: string; action: "pull" | "push" }[]) => {
+        setBusyField(resolutions.length === 1 ? resolutions[0].field : "*");
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}${driftKey}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ resolutions }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error ? `${result.message}: ${result.error}` : result.message || "Failed to reconcile agent");
+            await refresh({ changes: result.changes, checkedAt: new Date().toISOString() }, { revalidate: false });
+            // Pulled values show up in the form below
+            mutate(`/api/agents/${agentId}`);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusyField(null);
+        }
+    };
+
+    const changes = data?.changes || [];
+
+    return (
+        <Card id="sync" className="bg-[#1a1a1a] border-[#333333] mb-6">
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div>
+                    <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><RefreshCw className="h-5 w-5 text-[#A7B3AC]" /> ElevenLabs Sync</CardTitle>
+                    <CardDescription className="text-[#A7A7A7]">Changes made in the ElevenLabs console show up here. Pull keeps theirs; push overwrites it with ours.</CardDescription>
+                </div>
+                <Button type="button" variant="outline" size="sm" className="gap-2 border-[#333] hover:bg-[#333]" disabled={isLoading || !!busyField} onClick={() => refresh()}>
+                    <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} /> Check
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {isLoading ? (
+                    <Skeleton className="h-12 w-full bg-[#333333]" />
+                ) : loadError ? (
+                    <p className="text-sm text-red-400">Could not compare with ElevenLabs. Try again later.</p>
+                ) : changes.length === 0 ? (
+                    <p className="text-sm text-green-400 flex items-center gap-2"><CheckCircle className="h-4 w-4" /> In sync with ElevenLabs.</p>
+                ) : (
+                    <>
+                        <div className="divide-y divide-[#333333] border border-[#333333] rounded-lg">
+                            {changes.map(change => (
+                                <div key={change.field} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr_auto] gap-3 px-4 py-3 text-sm">
+                                    <div className="text-[#F3FFD4] font-medium break-all">{change.field}</div>
+                                    <div className="min-w-0"><div className="text-xs text-[#A7A7A7]">ElevenLabs</div><div className="text-[#F3FFD4] break-words">{formatDriftValue(change.remote)}</div></div>
+                                    <div className="min-w-0"><div className="text-xs text-[#A7A7A7]">Ours</div><div className="text-[#F3FFD4] break-words">{formatDriftValue(change.local)}</div></div>
+                                    <div className="flex gap-2 md:flex-col">
+                                        <Button type="button" variant="outline" size="sm" className="gap-1 border-[#333] hover:bg-[#333]" disabled={!!busyField} onClick={() => resolve([{ field: change.field, action: "pull" }])}>
+                                            {busyField === change.field ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />} Pull
+                                        </Button>
+                                        <Button type="button" variant="outline" size="sm" className="gap-1 border-[#333] hover:bg-[#333]" disabled={!!busyField} onClick={() => resolve([{ field: change.field, action: "push" }])}>
+                                            {busyField === change.field ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />} Push
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button type="button" variant="outline" size="sm" className="border-[#333] hover:bg-[#333]" disabled={!!busyField} onClick={() => resolve(changes.map(c => ({ field: c.field, action: "pull" })))}>Pull All</Button>
+                            <Button type="button" variant="outline" size="sm" className="border-[#333] hover:bg-[#333]" disabled={!!busyField} onClick={() => resolve(changes.map(c => ({ field: c.field, action: "push" })))}>Push All</Button>
+                        </div>
+                    </>
+                )}
+                {error && <p className="text-sm text-red-400">{error}</p>}
+            </CardContent>
+        </Card>
+    );
+}
+
+type AgentVersionSummary = {
+    _id: string;
+    version: number;
+    source: "baseline" | "create" | "edit" | "pull" | "rollback" | "import";
+    note?: string;
+    changedFields: string[];
+    restoredFromVersion?: number;
+    authorId?: { _id: string; name: string; email: string } | null;
+    callCount: number;
+    createdAt: string;
+};
+
+const VERSION_SOURCE_LABELS: Record<AgentVersionSummary["source"], string> = {
+    baseline: "Before history",
+    create: "Created",
+    edit: "Edited",
+    pull: "Pulled from ElevenLabs",
+    rollback: "Rollback",
+    import: "Imported",
+};
+
+// Values are shown in full for the side-by-side diff; long prompts wrap
+const formatVersionValue = (value: any) => {
+    if (value === null || value === undefined || value === "") return "(not set)";
+    return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+};
+
+/**
+ * Every saved configuration of the agent, a side-by-side diff between any two of them,
+ * and rollback to an earlier one (which also updates ElevenLabs).
+ */
+function VersionHistoryCard({ agentId }: { agentId: string }) {
+    const versionsKey = `/api/agents/${agentId}/versions`;
+    const { data, mutate: refreshVersions } = useSWR<{ currentVersion: number; versions: AgentVersionSummary[] }>(versionsKey, fetcher);
+    const versions = data?.versions || [];
+
+    const [from, setFrom] = useState<string>("");
+    const [to, setTo] = useState<string>("");
+    const [rollbackTarget, setRollbackTarget] = useState<number | null>(null);
+    const [rollingBack, setRollingBack] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Compare the two latest versions until the user picks others
+    useEffect(() => {
+        if (versions.length >= 2 && !from && !to) {
+            setFrom(String(versions[1].version));
+            setTo(String(versions[0].version));
+        }
+    }, [versions, from, to]);
+
+    const compareKey = from && to && from !== to ? `${versionsKey}/compare?from=${from}&to=${to}` : null;
+    const { data: comparison, isLoading: comparing } = useSWR<{ changes: { field: string; from: any; to: any }[] }>(compareKey, fetcher);
+
+    const handleRollback = async () => {
+        if (rollbackTarget === null) return;
+        setRollingBack(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}${versionsKey}/${rollbackTarget}/rollback`, { method: "POST" });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error ? `${result.message}: ${result.error}` : result.message || "Rollback failed");
+            await refreshVersions();
+            mutate(`/api/agents/${agentId}`);
+            mutate(`/api/agents/${agentId}/drift`);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setRollingBack(false);
+            setRollbackTarget(null);
+        }
+    };
+
+    return (
+        <Card className="bg-[#1a1a1a] border-[#333333] mt-8">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><History className="h-5 w-5 text-[#A7B3AC]" /> Version History</CardTitle>
+                <CardDescription className="text-[#A7A7A7]">Each save that changes the configuration is kept as a version. Calls record the version that handled them.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {!data ? (
+                    <Skeleton className="h-24 w-full bg-[#333333]" />
+                ) : versions.length === 0 ? (
+                    <p className="text-sm text-[#A7A7A7]">No versions yet. The first save records one.</p>
+                ) : (
+                    <div className="divide-y divide-[#333333] border border-[#333333] rounded-lg max-h-80 overflow-y-auto">
+                        {versions.map(v => (
+                            <div key={v._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-4 py-3 text-sm">
+                                <div className="min-w-0 space-y-1">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <span className="font-medium text-[#F3FFD4]">v{v.version}</span>
+                                        <span className="text-xs text-[#A7A7A7] border border-[#333333] rounded px-1.5">
+                                            {VERSION_SOURCE_LABELS[v.source]}{v.restoredFromVersion ? ` of v${v.restoredFromVersion}` : ""}
+                                        </span>
+                                        {v.version === data.currentVersion && <span className="text-xs text-green-400">Current</span>}
+                                    </div>
+                                    <div className="text-xs text-[#A7A7A7]">
+                                        {new Date(v.createdAt).toLocaleString()} · {v.authorId?.name || "System"} · {v.callCount} call{v.callCount === 1 ? "" : "s"}
+                                    </div>
+                                    {v.note && <div className="text-[#F3FFD4]">{v.note}</div>}
+                                    {v.changedFields.length > 0 && v.source !== "create" && v.source !== "baseline" && (
+                                        <div className="text-xs text-[#A7A7A7] truncate">Changed: {v.changedFields.join(", ")}</div>
+                                    )}
+                                </div>
+                                {v.version !== data.currentVersion && (
+                                    <Button type="button" variant="outline" size="sm" className="gap-2 border-[#333] hover:bg-[#333] shrink-0" onClick={() => setRollbackTarget(v.version)}>
+                                        <RotateCcw className="h-4 w-4" /> Roll Back
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {versions.length >= 2 && (
+                    <div className="space-y-3">
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-[#A7A7A7]">
+                            Compare
+                            <Select value={from} onValueChange={setFrom}>
+                                <SelectTrigger className="bg-[#222] border-[#333] w-24"><SelectValue placeholder="From" /></SelectTrigger>
+                                <SelectContent className="bg-[#1a1a1a] border-[#333]">{versions.map(v => <SelectItem key={v.version} value={String(v.version)}>v{v.version}</SelectItem>)}</SelectContent>
+                            </Select>
+                            with
+                            <Select value={to} onValueChange={setTo}>
+                                <SelectTrigger className="bg-[#222] border-[#333] w-24"><SelectValue placeholder="To" /></SelectTrigger>
+                                <SelectContent className="bg-[#1a1a1a] border-[#333]">{versions.map(v => <SelectItem key={v.version} value={String(v.version)}>v{v.version}</SelectItem>)}</SelectContent>
+                            </Select>
+                        </div>
+                        {from === to ? (
+                            <p className="text-sm text-[#A7A7A7]">Pick two different versions.</p>
+                        ) : comparing || !comparison ? (
+                            <Skeleton className="h-24 w-full bg-[#333333]" />
+                        ) : comparison.changes.length === 0 ? (
+                            <p className="text-sm text-[#A7A7A7]">These versions have the same configuration.</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {comparison.changes.map(change => (
+                                    <div key={change.field} className="border border-[#333333] rounded-lg overflow-hidden">
+                                        <div className="px-3 py-1.5 text-xs font-medium text-[#F3FFD4] bg-[#222222]">{change.field}</div>
+                                        <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-[#333333] text-xs">
+                                            <pre className="p-3 whitespace-pre-wrap break-words text-red-300 bg-red-500/5 max-h-64 overflow-y-auto">{formatVersionValue(change.from)}</pre>
+                                            <pre className="p-3 whitespace-pre-wrap break-words text-green-300 bg-green-500/5 max-h-64 overflow-y-auto">{formatVersionValue(change.to)}</pre>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-red-400">{error}</p>}
+            </CardContent>
+
+            <AlertDialog open={rollbackTarget !== null} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+                <AlertDialogContent className="bg-[#1a1a1a] border-[#333333]">
+                    <AlertDialogHeader>
+                        <AlertDialogTitle className="text-[#F3FFD4]">Roll back to v{rollbackTarget}?</AlertDialogTitle>
+                        <AlertDialogDescription className="text-[#A7A7A7]">The agent&apos;s configuration is restored from this version and pushed to ElevenLabs. New calls use it right away. The current configuration stays in the history.</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={rollingBack} className="bg-transparent border-[#333] hover:bg-[#333]">Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleRollback} disabled={rollingBack} className="bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90">
+                            {rollingBack ? <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Rolling back...</> : "Roll Back"}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </Card>
+    );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { DashboardHeader } from "@/components/dashboard/header";
 import { Button } from "@/components/ui/button";
@@ -20,6 +20,10 @@ import {
     Globe,
     Timer,
     Loader2, // Added for loading states
+    RefreshCw,
+    Download,
+    FileDown,
+    FileUp,
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { formatDistanceToNow } from "date-fns";
@@ -41,6 +45,15 @@ import {
     AlertDialogHeader,
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
 
 // --- Base URL for API calls ---
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
@@ -63,6 +76,25 @@ type Agent = {
     max_duration_seconds: number;
     knowledge_documents: Array<any>;
     tools: string[];
+    drifted_fields: string[]; // Fields that differ from the ElevenLabs agent
+    drift_checked_at: string | null;
+};
+
+// An ElevenLabs agent tagged with the account's claim tag, as listed by /api/agents/import
+type ImportableAgent = {
+    agentId: string;
+    name: string;
+    createdAt?: string;
+    imported: boolean;
+};
+
+type ImportResult = {
+    agentId: string;
+    ok: boolean;
+    agent?: { name: string };
+    knowledgeDocuments?: number;
+    skippedFields?: string[];
+    error?: string;
 };
 
 export default function AgentsPage() {
@@ -74,32 +106,35 @@ export default function AgentsPage() {
     const [error, setError] = useState<string | null>(null);
     const [agentToDelete, setAgentToDelete] = useState<string | null>(null);
     const [deletingAgent, setDeletingAgent] = useState(false);
+    const [importOpen, setImportOpen] = useState(false);
+    const [importingBundle, setImportingBundle] = useState(false);
+    const bundleInputRef = useRef<HTMLInputElement>(null);
 
-    // Fetch agents when the component mounts
-    useEffect(() => {
-        const fetchAgents = async () => {
-            if (!user) return; // Don't fetch if user is not logged in yet
-
-            try {
-                setLoading(true);
-                setError(null);
-                const res = await fetch(`${API_BASE_URL}/api/getAgents`);
+    const fetchAgents = async () => {
+        if (!user) return; // Don't fetch if user is not logged in yet
 
-                if (!res.ok) {
-                    const errorData = await res.json().catch(() => ({ message: "Failed to fetch agents" }));
-                    throw new Error(errorData.message);
-                }
+        try {
+            setLoading(true);
+            setError(null);
+            const res = await fetch(`${API_BASE_URL}/api/getAgents`);
 
-                const data = await res.json();
-                setAgents(data.agents || []);
-            } catch (err: any) {
-                console.error("Error fetching agents:", err);
-                setError(err.message || "An unexpected error occurred");
-            } finally {
-                setLoading(false);
+            if (!res.ok) {
+                const errorData = await res.json().catch(() => ({ message: "Failed to fetch agents" }));
+                throw new Error(errorData.message);
             }
-        };
 
+            const data = await res.json();
+            setAgents(data.agents || []);
+        } catch (err: any) {
+            console.error("Error fetching agents:", err);
+            setError(err.message || "An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Fetch agents when the component mounts
+    useEffect(() => {
         fetchAgents();
     }, [user]); // Re-fetch if user changes
 
@@ -127,6 +162,60 @@ export default function AgentsPage() {
         }
     };
 
+    // Downloads the agent as a JSON bundle that can be imported into another account
+    const handleExportAgent = async (agent: Agent) => {
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/agents/${agent.agent_id}/export`);
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({ message: "Failed to export agent" }));
+                throw new Error(errorData.error || errorData.message);
+            }
+
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = `${agent.name.replace(/[^a-z0-9-_]+/gi, "-").toLowerCase() || "agent"}.agent.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err: any) {
+            console.error("Error exporting agent:", err);
+            alert(`Error exporting agent: ${err.message}`);
+        }
+    };
+
+    const handleImportBundle = async (file: File) => {
+        try {
+            setImportingBundle(true);
+            let bundle;
+            try {
+                bundle = JSON.parse(await file.text());
+            } catch {
+                throw new Error("The file is not valid JSON");
+            }
+
+            const response = await fetch(`${API_BASE_URL}/api/agents/import/bundle`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ bundle }),
+            });
+            const data = await response.json().catch(() => ({ message: "Failed to import agent" }));
+            if (!response.ok) {
+                throw new Error(data.error ? `${data.message}: ${data.error}` : data.message);
+            }
+
+            if (data.syncError) {
+                alert(`${data.agent.name} was imported, but some settings could not be sent to ElevenLabs. Check the agent's sync status.`);
+            }
+            await fetchAgents();
+        } catch (err: any) {
+            console.error("Error importing agent bundle:", err);
+            alert(`Error importing agent: ${err.message}`);
+        } finally {
+            setImportingBundle(false);
+            if (bundleInputRef.current) bundleInputRef.current.value = "";
+        }
+    };
+
     const getLanguageName = (code: string) => ({ en: "English", es: "Spanish", fr: "French" }[code] || code.toUpperCase());
     const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}m`;
 
@@ -149,9 +238,24 @@ export default function AgentsPage() {
                             <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Voice Agents</h1>
                             <p className="text-muted-foreground mt-1">Manage your AI voice agents for phone calls and conversations.</p>
                         </div>
-                        <Button onClick={() => router.push('/dashboard/new-agent')} className="gap-2 bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90">
-                            <Plus className="h-4 w-4" /> New Agent
-                        </Button>
+                        <div className="flex gap-2">
+                            <input
+                                ref={bundleInputRef}
+                                type="file"
+                                accept="application/json,.json"
+                                className="hidden"
+                                onChange={(e) => e.target.files?.[0] && handleImportBundle(e.target.files[0])}
+                            />
+                            <Button variant="outline" disabled={importingBundle} onClick={() => bundleInputRef.current?.click()} className="gap-2 border-[#333] bg-transparent hover:bg-[#333]">
+                                {importingBundle ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />} Import Bundle
+                            </Button>
+                            <Button variant="outline" onClick={() => setImportOpen(true)} className="gap-2 border-[#333] bg-transparent hover:bg-[#333]">
+                                <Download className="h-4 w-4" /> Import from ElevenLabs
+                            </Button>
+                            <Button onClick={() => router.push('/dashboard/new-agent')} className="gap-2 bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90">
+                                <Plus className="h-4 w-4" /> New Agent
+                            </Button>
+                        </div>
                     </div>
 
                     {loading ? (
@@ -195,6 +299,16 @@ export default function AgentsPage() {
                                                             {agent.template_name}
                                                         </Badge>
                                                     )}
+                                                    {agent.drifted_fields?.length > 0 && (
+                                                        <Badge
+                                                            variant="outline"
+                                                            className="mt-1 ml-1 text-xs cursor-pointer bg-yellow-500/10 text-yellow-400 border-yellow-500/20"
+                                                            title={`Differs from ElevenLabs: ${agent.drifted_fields.join(", ")}`}
+                                                            onClick={() => router.push(`/dashboard/agents/${agent.agent_id}/edit#sync`)}
+                                                        >
+                                                            <RefreshCw className="h-3 w-3 mr-1" /> Out of sync
+                                                        </Badge>
+                                                    )}
                                                 </div>
                                                 <DropdownMenu>
                                                     <DropdownMenuTrigger asChild>
@@ -206,6 +320,9 @@ export default function AgentsPage() {
                                                         <DropdownMenuItem onClick={() => router.push(`/dashboard/agents/${agent.agent_id}/edit`)} className="cursor-pointer">
                                                             <Pencil className="h-4 w-4 mr-2" /> Edit Agent
                                                         </DropdownMenuItem>
+                                                        <DropdownMenuItem onClick={() => handleExportAgent(agent)} className="cursor-pointer">
+                                                            <FileDown className="h-4 w-4 mr-2" /> Export Bundle
+                                                        </DropdownMenuItem>
                                                         <DropdownMenuItem onClick={() => setAgentToDelete(agent.agent_id)} className="cursor-pointer text-destructive focus:text-destructive">
                                                             <Trash2 className="h-4 w-4 mr-2" /> Delete Agent
                                                         </DropdownMenuItem>
@@ -277,7 +394,154 @@ export default function AgentsPage() {
                     </AlertDialogFooter>
                 </AlertDialogContent>
             </AlertDialog>
+
+            <ImportAgentsDialog open={importOpen} onOpenChange={setImportOpen} onImported={fetchAgents} />
         </div>
     );
 }
 
+function ImportAgentsDialog({ open, onOpenChange, onImported }: { open: boolean; onOpenChange: (open: boolean) => void; onImported: () => void }) {
+    const [remoteAgents, setRemoteAgents] = useState<ImportableAgent[]>([]);
+    const [claimTag, setClaimTag] = useState<string | null>(null);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [results, setResults] = useState<ImportResult[]>([]);
+
+    // List the ElevenLabs agents each time the dialog opens
+    useEffect(() => {
+        if (!open) return;
+        const fetchRemoteAgents = async () => {
+            try {
+                setLoading(true);
+                setError(null);
+                setSelected([]);
+                setResults([]);
+                const res = await fetch(`${API_BASE_URL}/api/agents/import`);
+                const data = await res.json().catch(() => ({}));
+                if (!res.ok) throw new Error(data.error || data.message || "Failed to list ElevenLabs agents");
+                setRemoteAgents(data.agents || []);
+                setClaimTag(data.claimTag || null);
+            } catch (err: any) {
+                setError(err.message);
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchRemoteAgents();
+    }, [open]);
+
+    const toggle = (agentId: string, checked: boolean) =>
+        setSelected((prev) => (checked ? [...prev, agentId] : prev.filter((id) => id !== agentId)));
+
+    const handleImport = async () => {
+        try {
+            setImporting(true);
+            setError(null);
+            const res = await fetch(`${API_BASE_URL}/api/agents/import`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ agentIds: selected }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || "Failed to import agents");
+
+            const importResults: ImportResult[] = data.results || [];
+            setResults(importResults);
+            setSelected([]);
+            const importedIds = new Set(importResults.filter((r) => r.ok).map((r) => r.agentId));
+            setRemoteAgents((prev) => prev.map((a) => (importedIds.has(a.agentId) ? { ...a, imported: true } : a)));
+            if (importedIds.size > 0) onImported();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const nameOf = (agentId: string) => remoteAgents.find((a) => a.agentId === agentId)?.name || agentId;
+
+    return (
+        <Dialog open={open} onOpenChange={(next) => !importing && onOpenChange(next)}>
+            <DialogContent className="bg-[#1a1a1a] border-[#333333] text-[#F3FFD4] max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Import from ElevenLabs</DialogTitle>
+                    <DialogDescription className="text-[#A7A7A7]">
+                        Bring agents you already built on ElevenLabs into your account, along with their knowledge base documents. Nothing changes on ElevenLabs.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {claimTag && (
+                    <p className="text-sm text-[#A7A7A7]">
+                        Only agents tagged <code className="rounded bg-[#333333] px-1 text-[#F3FFD4]">{claimTag}</code> are listed. Add this tag to an agent in the ElevenLabs console, then reopen this dialog.
+                    </p>
+                )}
+
+                {loading ? (
+                    <div className="flex items-center justify-center gap-2 py-8 text-[#A7A7A7]">
+                        <Loader2 className="h-5 w-5 animate-spin" /> Loading ElevenLabs agents...
+                    </div>
+                ) : remoteAgents.length === 0 && !error ? (
+                    <p className="py-6 text-center text-sm text-[#A7A7A7]">No agents carry your claim tag yet.</p>
+                ) : (
+                    <div className="max-h-72 overflow-y-auto space-y-1">
+                        {remoteAgents.map((remote) => {
+                            const disabled = remote.imported || importing;
+                            return (
+                                <label
+                                    key={remote.agentId}
+                                    className={cn(
+                                        "flex items-center gap-3 rounded-md border border-[#333333] px-3 py-2",
+                                        disabled ? "opacity-60" : "cursor-pointer hover:bg-[#333333]/50"
+                                    )}
+                                >
+                                    <Checkbox
+                                        checked={selected.includes(remote.agentId)}
+                                        disabled={disabled}
+                                        onCheckedChange={(checked) => toggle(remote.agentId, checked === true)}
+                                    />
+                                    <div className="min-w-0 flex-1">
+                                        <p className="truncate text-sm font-medium">{remote.name || remote.agentId}</p>
+                                        <p className="truncate text-xs text-[#A7A7A7]">
+                                            {remote.agentId}
+                                            {remote.createdAt && ` · created ${formatDistanceToNow(new Date(remote.createdAt), { addSuffix: true })}`}
+                                        </p>
+                                    </div>
+                                    {remote.imported && <Badge variant="outline" className="border-[#333] text-[#A7A7A7]">Imported</Badge>}
+                                </label>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+
+                {results.length > 0 && (
+                    <div className="space-y-1 rounded-md border border-[#333333] p-3 text-sm">
+                        {results.map((result) => (
+                            <p key={result.agentId} className={result.ok ? "text-[#F3FFD4]" : "text-red-500"}>
+                                {result.ok
+                                    ? `Imported ${result.agent?.name || nameOf(result.agentId)}` +
+                                      (result.knowledgeDocuments ? ` with ${result.knowledgeDocuments} knowledge document(s)` : "") +
+                                      (result.skippedFields?.length ? `; kept defaults for ${result.skippedFields.join(", ")}` : "")
+                                    : `${nameOf(result.agentId)}: ${result.error}`}
+                            </p>
+                        ))}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" disabled={importing} onClick={() => onOpenChange(false)} className="border-[#333] bg-transparent hover:bg-[#333]">
+                        Close
+                    </Button>
+                    <Button disabled={selected.length === 0 || importing} onClick={handleImport} className="gap-2 bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90">
+                        {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                        Import {selected.length > 0 ? selected.length : ""} {selected.length === 1 ? "agent" : "agents"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
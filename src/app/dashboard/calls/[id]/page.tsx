@@ -0,0 +1,440 @@
+"use client";
+
+import { useState, useEffect, useRef, KeyboardEvent } from "react";
+import { useRouter, useParams } from "next/navigation";
+import Link from "next/link";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { motion } from "framer-motion";
+import { useAuth } from "@/contexts/AuthContext";
+
+// UI Components
+import { DashboardHeader } from "@/components/dashboard/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CallTimeline } from "@/components/calls/call-timeline";
+import { CallTranscript, TranscriptTurn } from "@/components/calls/call-transcript";
+
+// Icons
+import { ArrowLeft, AlertCircle, CheckCircle, Loader2, Phone, PhoneIncoming, PhoneOutgoing, ShieldCheck, Tag, User, Briefcase, X, XCircle } from "lucide-react";
+
+// --- Base URL for API calls ---
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
+const fetcher = (url: string) => fetch(`${API_BASE_URL}${url}`).then(res => {
+    if (!res.ok) {
+        throw new Error('Failed to fetch data');
+    }
+    return res.json();
+});
+
+type CallDetail = {
+    _id: string;
+    contactName?: string;
+    phoneNumber: string;
+    direction?: "outbound" | "inbound";
+    inboundNumber?: string;
+    status: string;
+    provider?: string;
+    agentName?: string;
+    agentVersion?: number;
+    elevenLabsAgentId?: string;
+    campaignId?: string;
+    campaignVariant?: string;
+    customMessage?: string;
+    summary?: string;
+    notes?: string;
+    tags?: string[];
+    outcome?: string;
+    failureReason?: string;
+    transcription?: string;
+    transcript?: TranscriptTurn[];
+    recordingStatus?: "pending" | "archived" | "unavailable" | "failed";
+    redactedCategories?: string[];
+    scheduledFor?: string;
+    callStartTime?: string;
+    callEndTime?: string;
+    duration?: number;
+    cost?: number;
+    attemptNumber?: number;
+    maxAttempts?: number;
+    retryOfCallId?: string;
+    followUpOfCallId?: string;
+    redialOfCallId?: string;
+    createdAt: string;
+};
+
+type LinkedContact = { _id: string; name: string; phoneNumber: string; email?: string; company?: string; status?: string; tags?: string[] };
+type LinkedLead = { _id: string; name: string; status: string; priority: string; value?: number; pipelineName?: string; stageName?: string; stageColor?: string };
+
+type CallDetailResponse = { call: CallDetail; contact: LinkedContact | null; lead: LinkedLead | null };
+
+// Statuses after which nothing about the call changes any more
+const FINAL_STATUSES = ["ended", "completed", "failed", "busy", "no-answer", "canceled"];
+
+const statusStyles: Record<string, string> = {
+    ended: "bg-green-500/10 text-green-400 border-green-500/20",
+    completed: "bg-green-500/10 text-green-400 border-green-500/20",
+    failed: "bg-red-500/10 text-red-400 border-red-500/20",
+    busy: "bg-red-500/10 text-red-400 border-red-500/20",
+    "no-answer": "bg-gray-500/10 text-gray-400 border-gray-500/20",
+    canceled: "bg-gray-500/10 text-gray-400 border-gray-500/20",
+    queued: "bg-yellow-500/10 text-yellow-400 border-yellow-500/20",
+};
+
+const formatCost = (value?: number) => (value ? `₹${(value / 100).toFixed(2)}` : "-");
+const formatDuration = (seconds?: number) => (seconds ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : "-");
+const formatDate = (value?: string) => (value ? format(new Date(value), "MMM d, yyyy HH:mm:ss") : "-");
+const formatOutcome = (outcome: string) => outcome.replace(/_/g, " ");
+
+export default function CallDetailPage() {
+    const params = useParams();
+    const id = params.id as string;
+    const router = useRouter();
+    const { user } = useAuth();
+
+    // Poll until the call has finished so status, transcript and recording show up on their own
+    const { data, error: loadError, isLoading, mutate } = useSWR<CallDetailResponse>(
+        user && id ? `/api/calls/${id}?include=details` : null,
+        fetcher,
+        { refreshInterval: (latest) => (latest?.call && !FINAL_STATUSES.includes(latest.call.status) ? 5000 : 0) }
+    );
+    const call = data?.call;
+
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [audioTime, setAudioTime] = useState(0);
+    const [audioAvailable, setAudioAvailable] = useState(false);
+
+    const [notes, setNotes] = useState("");
+    const [tags, setTags] = useState<string[]>([]);
+    const [newTag, setNewTag] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [redialing, setRedialing] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    // Only seed the editors once per call, so polling does not overwrite unsaved edits
+    useEffect(() => {
+        if (call) {
+            setNotes(call.notes || "");
+            setTags(call.tags || []);
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [call?._id]);
+
+    const handleSeekToTurn = (seconds: number) => {
+        if (!audioRef.current) return;
+        audioRef.current.currentTime = seconds;
+        audioRef.current.play();
+    };
+
+    const addTag = () => {
+        const tag = newTag.trim();
+        if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+        setNewTag("");
+    };
+
+    const onTagKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            addTag();
+        }
+    };
+
+    const saveNotesAndTags = async () => {
+        setSaving(true);
+        setSaved(false);
+        setActionError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/calls/${id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ notes, tags }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || "Failed to save");
+            setTags(result.tags);
+            await mutate();
+            setSaved(true);
+        } catch (err: any) {
+            setActionError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const callAgain = async () => {
+        setRedialing(true);
+        setActionError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/calls/${id}/redial`, { method: "POST" });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || "Failed to call again");
+            router.push(`/dashboard/calls/${result.callId}`);
+        } catch (err: any) {
+            setActionError(err.message);
+        } finally {
+            setRedialing(false);
+        }
+    };
+
+    const fadeInUpVariant = { hidden: { opacity: 0, y: 20 }, visible: { opacity: 1, y: 0, transition: { duration: 0.4 } } };
+
+    if (isLoading || !user) {
+        return (
+            <div className="min-h-screen flex bg-[#111111]">
+                <main className="flex-1 overflow-y-auto h-screen">
+                    <DashboardHeader />
+                    <div className="container mx-auto px-4 sm:px-6 py-8 space-y-6">
+                        <Skeleton className="h-10 w-1/3 bg-[#333333]" />
+                        <Skeleton className="h-32 w-full bg-[#333333]" />
+                        <Skeleton className="h-64 w-full bg-[#333333]" />
+                    </div>
+                </main>
+            </div>
+        );
+    }
+
+    if (loadError || !call) {
+        return (
+            <div className="min-h-screen flex bg-[#111111]">
+                <main className="flex-1 overflow-y-auto h-screen">
+                    <DashboardHeader />
+                    <div className="container mx-auto px-4 sm:px-6 py-8 text-center">
+                        <AlertCircle className="mx-auto h-8 w-8 text-red-500 mb-2" />
+                        <p className="text-red-400">Call not found or could not be loaded.</p>
+                    </div>
+                </main>
+            </div>
+        );
+    }
+
+    const contact = data?.contact;
+    const lead = data?.lead;
+    const hasRecording = call.recordingStatus === "archived";
+    const linkedCallId = call.retryOfCallId || call.followUpOfCallId || call.redialOfCallId;
+
+    const metadata = [
+        { label: "Agent", value: call.agentName ? `${call.agentName}${call.agentVersion ? ` (v${call.agentVersion})` : ""}` : "-" },
+        { label: "Direction", value: call.direction === "inbound" ? `Inbound${call.inboundNumber ? ` on ${call.inboundNumber}` : ""}` : "Outbound" },
+        { label: "Provider", value: call.provider || "-" },
+        { label: "Created", value: formatDate(call.createdAt) },
+        { label: "Scheduled for", value: formatDate(call.scheduledFor) },
+        { label: "Started", value: formatDate(call.callStartTime) },
+        { label: "Ended", value: formatDate(call.callEndTime) },
+        { label: "Duration", value: formatDuration(call.duration) },
+        { label: "Cost", value: formatCost(call.cost) },
+        { label: "Attempt", value: call.maxAttempts ? `${call.attemptNumber || 1} of ${call.maxAttempts}` : String(call.attemptNumber || 1) },
+    ];
+
+    return (
+        <div className="min-h-screen text-foreground flex bg-[#111111]">
+            <main className="flex-1 overflow-y-auto h-screen">
+                <DashboardHeader />
+                <div className="container mx-auto px-4 sm:px-6 py-8">
+                    <div className="flex flex-wrap justify-between items-start gap-4 mb-8 text-[#F3FFD4]">
+                        <div className="flex items-start gap-3">
+                            <Button variant="ghost" size="icon" className="text-[#A7A7A7] hover:bg-[#333333]" onClick={() => router.back()}>
+                                <ArrowLeft className="h-5 w-5" />
+                            </Button>
+                            <div>
+                                <div className="flex items-center gap-3">
+                                    <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">{call.contactName || call.phoneNumber}</h1>
+                                    <Badge variant="outline" className={`capitalize ${statusStyles[call.status] || "bg-blue-500/10 text-blue-400 border-blue-500/20"}`}>{call.status}</Badge>
+                                </div>
+                                <p className="text-[#A7A7A7] mt-1 flex items-center gap-1">
+                                    {call.direction === "inbound" ? <PhoneIncoming className="h-4 w-4" /> : <PhoneOutgoing className="h-4 w-4" />} {call.phoneNumber}
+                                </p>
+                            </div>
+                        </div>
+                        {call.direction !== "inbound" && (
+                            <Button className="gap-2 bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90" disabled={redialing || !FINAL_STATUSES.includes(call.status)} onClick={callAgain}>
+                                {redialing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Phone className="h-4 w-4" />} Call Again
+                            </Button>
+                        )}
+                    </div>
+
+                    {actionError && (
+                        <div className="mb-6 text-red-400 bg-red-500/10 p-4 rounded-lg border border-red-500/20 flex items-center gap-2">
+                            <AlertCircle className="h-4 w-4" /> {actionError}
+                        </div>
+                    )}
+
+                    <motion.div initial="hidden" animate="visible" variants={fadeInUpVariant} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="lg:col-span-2 space-y-6">
+                            {call.failureReason && (
+                                <div className="text-red-400 bg-red-500/10 p-4 rounded-lg border border-red-500/20 flex items-start gap-2">
+                                    <XCircle className="h-4 w-4 mt-0.5 shrink-0" /> <span><span className="font-semibold">Failure reason:</span> {call.failureReason}</span>
+                                </div>
+                            )}
+
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="text-[#F3FFD4]">Summary</CardTitle>
+                                    {call.outcome && (
+                                        <CardDescription className="text-[#A7A7A7]">
+                                            Outcome: <Badge variant="outline" className="capitalize border-[#333333] text-[#F3FFD4] ml-1">{formatOutcome(call.outcome)}</Badge>
+                                        </CardDescription>
+                                    )}
+                                </CardHeader>
+                                <CardContent className="space-y-3">
+                                    <p className="text-sm text-[#F3FFD4] whitespace-pre-wrap">{call.summary || "No summary yet."}</p>
+                                    {call.redactedCategories && call.redactedCategories.length > 0 && (
+                                        <p className="flex items-center gap-2 text-xs text-[#A7A7A7]">
+                                            <ShieldCheck className="h-4 w-4 text-[#A7B3AC]" /> Personal data was redacted: {call.redactedCategories.join(", ")}
+                                        </p>
+                                    )}
+                                </CardContent>
+                            </Card>
+
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="text-[#F3FFD4]">Recording & Transcript</CardTitle>
+                                    {!hasRecording && (
+                                        <CardDescription className="text-[#A7A7A7]">
+                                            {call.recordingStatus === "unavailable" || call.recordingStatus === "failed" ? "No recording is available for this call." : "The recording appears here once it has been archived."}
+                                        </CardDescription>
+                                    )}
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    {hasRecording && (
+                                        <audio
+                                            ref={audioRef}
+                                            src={`${API_BASE_URL}/api/calls/${call._id}/recording`}
+                                            controls
+                                            preload="metadata"
+                                            className="w-full"
+                                            onLoadedMetadata={() => setAudioAvailable(true)}
+                                            onTimeUpdate={(e) => setAudioTime(e.currentTarget.currentTime)}
+                                        />
+                                    )}
+                                    {call.transcript && call.transcript.length > 0 ? (
+                                        <CallTranscript turns={call.transcript} currentTime={audioTime} onSeek={audioAvailable ? handleSeekToTurn : undefined} />
+                                    ) : call.transcription ? (
+                                        <p className="text-sm text-[#F3FFD4] whitespace-pre-wrap">{call.transcription}</p>
+                                    ) : (
+                                        <p className="text-sm text-[#A7A7A7]">No transcript yet.</p>
+                                    )}
+                                </CardContent>
+                            </Card>
+
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="text-[#F3FFD4]">Notes & Tags</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <Textarea placeholder="Add notes about this call" value={notes} onChange={(e) => { setNotes(e.target.value); setSaved(false); }} rows={4} className="bg-[#222222] border-[#333333] text-[#F3FFD4] placeholder:text-[#A7A7A7]/50" />
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {tags.map(tag => (
+                                            <Badge key={tag} variant="outline" className="border-[#333333] text-[#F3FFD4] gap-1">
+                                                <Tag className="h-3 w-3" /> {tag}
+                                                <button type="button" className="ml-1 text-[#A7A7A7] hover:text-red-400" onClick={() => { setTags(tags.filter(t => t !== tag)); setSaved(false); }}><X className="h-3 w-3" /></button>
+                                            </Badge>
+                                        ))}
+                                        <Input placeholder="Add tag" value={newTag} onChange={(e) => setNewTag(e.target.value)} onKeyDown={onTagKeyDown} onBlur={addTag} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 h-8 w-36" />
+                                    </div>
+                                    <div className="flex items-center justify-end gap-4">
+                                        {saved && <span className="text-sm text-green-400 flex items-center gap-1"><CheckCircle className="h-4 w-4" /> Saved</span>}
+                                        <Button className="bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90 font-bold" onClick={saveNotesAndTags} disabled={saving}>
+                                            {saving ? <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Saving...</> : "Save"}
+                                        </Button>
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        <div className="space-y-6">
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="text-[#F3FFD4]">Details</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <dl className="space-y-2 text-sm">
+                                        {metadata.map(item => (
+                                            <div key={item.label} className="flex justify-between gap-4">
+                                                <dt className="text-[#A7A7A7]">{item.label}</dt>
+                                                <dd className="text-[#F3FFD4] text-right capitalize">{item.value}</dd>
+                                            </div>
+                                        ))}
+                                        {call.campaignId && (
+                                            <div className="flex justify-between gap-4">
+                                                <dt className="text-[#A7A7A7]">Campaign</dt>
+                                                <dd><Link href={`/dashboard/campaigns/${call.campaignId}`} className="text-[#A7B3AC] hover:underline">View campaign{call.campaignVariant ? ` (variant ${call.campaignVariant})` : ""}</Link></dd>
+                                            </div>
+                                        )}
+                                        {linkedCallId && (
+                                            <div className="flex justify-between gap-4">
+                                                <dt className="text-[#A7A7A7]">{call.retryOfCallId ? "Retry of" : call.followUpOfCallId ? "Callback for" : "Called again from"}</dt>
+                                                <dd><Link href={`/dashboard/calls/${linkedCallId}`} className="text-[#A7B3AC] hover:underline">Previous call</Link></dd>
+                                            </div>
+                                        )}
+                                    </dl>
+                                    {call.customMessage && (
+                                        <div className="mt-4">
+                                            <p className="text-xs text-[#A7A7A7] mb-1">Custom message</p>
+                                            <p className="text-sm text-[#F3FFD4] whitespace-pre-wrap">{call.customMessage}</p>
+                                        </div>
+                                    )}
+                                </CardContent>
+                            </Card>
+
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><User className="h-5 w-5 text-[#A7B3AC]" /> Contact</CardTitle>
+                                </CardHeader>
+                                <CardContent className="text-sm space-y-1">
+                                    {contact ? (
+                                        <>
+                                            <Link href="/dashboard/calls/contacts" className="text-[#F3FFD4] font-medium hover:underline">{contact.name}</Link>
+                                            <p className="text-[#A7A7A7]">{contact.phoneNumber}</p>
+                                            {contact.email && <p className="text-[#A7A7A7]">{contact.email}</p>}
+                                            {contact.company && <p className="text-[#A7A7A7]">{contact.company}</p>}
+                                            {contact.status === "do-not-call" && <Badge variant="outline" className="bg-red-500/10 text-red-400 border-red-500/20">Do not call</Badge>}
+                                        </>
+                                    ) : (
+                                        <p className="text-[#A7A7A7]">This number is not saved as a contact.</p>
+                                    )}
+                                </CardContent>
+                            </Card>
+
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><Briefcase className="h-5 w-5 text-[#A7B3AC]" /> Lead</CardTitle>
+                                </CardHeader>
+                                <CardContent className="text-sm space-y-1">
+                                    {lead ? (
+                                        <>
+                                            <p className="text-[#F3FFD4] font-medium">{lead.name}</p>
+                                            {lead.pipelineName && (
+                                                <p className="text-[#A7A7A7] flex items-center gap-2">
+                                                    {lead.pipelineName} ·
+                                                    <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: lead.stageColor || "#A7B3AC" }} />
+                                                    {lead.stageName || "Unknown stage"}
+                                                </p>
+                                            )}
+                                            <p className="text-[#A7A7A7] capitalize">{lead.status.replace(/-/g, " ")} · {lead.priority} priority{lead.value ? ` · ₹${lead.value.toLocaleString()}` : ""}</p>
+                                        </>
+                                    ) : (
+                                        <p className="text-[#A7A7A7]">No lead is linked to this contact.</p>
+                                    )}
+                                </CardContent>
+                            </Card>
+
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="text-[#F3FFD4]">Timeline</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <CallTimeline callId={call._id} />
+                                </CardContent>
+                            </Card>
+                        </div>
+                    </motion.div>
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -26,6 +26,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { DateRangePicker } from "@/components/ui/date-range-picker";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
+import { CallTimeline } from "@/components/calls/call-timeline";
+import { CallTranscript, TranscriptTurn } from "@/components/calls/call-transcript";
 
 // Icons
 import {
@@ -33,7 +35,10 @@ import {
   VolumeX as VolumeMute, RotateCcw, RotateCw, Sparkles, BadgeCheck, BadgeMinus, BadgeX, TimerReset, Info, PhoneOff, Loader2, AlertCircle,
   CheckCircle,
   XCircle,
-  Clock
+  Clock,
+  PhoneIncoming,
+  ShieldCheck,
+  ExternalLink
 } from "lucide-react";
 
 // --- Base URL for API calls ---
@@ -58,8 +63,34 @@ type Call = {
     elevenLabsCallId?: string;
     conversationId?: string;
     outcome?: string;
+    scheduledFor?: string;
+    retryOfCallId?: string;
+    attemptNumber?: number;
+    maxAttempts?: number;
+    followUpOfCallId?: string;
+    direction?: 'outbound' | 'inbound';
+    recordingUrl?: string;
+    transcript?: TranscriptTurn[];
+    searchSnippets?: SearchSnippet[];
+    redactedCategories?: string[];
 };
 
+type SearchSnippet = { field: string; text: string; matches: { start: number; length: number }[] };
+
+const REDACTION_LABELS: Record<string, string> = { card: "card numbers", aadhaar: "Aadhaar numbers", pan: "PAN numbers", email: "emails", phone: "phone numbers", otp: "OTPs" };
+
+type AdvancedFilters = {
+    agentId: string;
+    campaignId: string;
+    outcome: string;
+    minDuration: string;
+    maxDuration: string;
+    minCost: string;
+    maxCost: string;
+};
+
+const EMPTY_FILTERS: AdvancedFilters = { agentId: '', campaignId: '', outcome: '', minDuration: '', maxDuration: '', minCost: '', maxCost: '' };
+
 const outcomeTypes: { [key: string]: { icon: JSX.Element; label: string; color: string } } = {
   highly_interested: { icon: <Sparkles className="h-3 w-3 mr-1" />, label: "Highly Interested", color: "bg-green-500/10 text-green-400 border-green-500/20" },
   appointment_scheduled: { icon: <BadgeCheck className="h-3 w-3 mr-1" />, label: "Appointment Set", color: "bg-green-500/10 text-green-400 border-green-500/20" },
@@ -80,6 +111,11 @@ export default function CallHistoryPage() {
     const [currentPage, setCurrentPage] = useState(1);
     const [totalPages, setTotalPages] = useState(1);
     const [searchTerm, setSearchTerm] = useState("");
+    const [searchInput, setSearchInput] = useState("");
+    const [filters, setFilters] = useState<AdvancedFilters>(EMPTY_FILTERS);
+    const [agentOptions, setAgentOptions] = useState<{ agent_id: string; name: string }[]>([]);
+    const [campaignOptions, setCampaignOptions] = useState<{ _id: string; name: string }[]>([]);
+    const [outcomeOptions, setOutcomeOptions] = useState<{ name: string; color: string }[]>([]);
     const [statusFilter, setStatusFilter] = useState<string | null>(null);
     const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
     const [selectedCall, setSelectedCall] = useState<Call | null>(null);
@@ -111,7 +147,39 @@ export default function CallHistoryPage() {
             fetchCalls();
         }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [user, currentPage, searchTerm, statusFilter, dateRange]);
+    }, [user, currentPage, searchTerm, statusFilter, dateRange, filters]);
+
+    // Search as the user types, without a request per keystroke
+    useEffect(() => {
+        const timeout = setTimeout(() => {
+            setSearchTerm(searchInput.trim());
+            setCurrentPage(1);
+        }, 400);
+        return () => clearTimeout(timeout);
+    }, [searchInput]);
+
+    useEffect(() => {
+        if (!user) return;
+        fetch(`${API_BASE_URL}/api/getAgents`).then(res => res.ok ? res.json() : null).then(data => setAgentOptions(data?.agents || [])).catch(() => {});
+        fetch(`${API_BASE_URL}/api/campaigns`).then(res => res.ok ? res.json() : null).then(data => setCampaignOptions(data?.campaigns || [])).catch(() => {});
+        fetch(`${API_BASE_URL}/api/settings/outcomes`).then(res => res.ok ? res.json() : null).then(data => setOutcomeOptions(data?.outcomes || [])).catch(() => {});
+    }, [user]);
+
+    const updateFilter = (key: keyof AdvancedFilters, value: string) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+        setCurrentPage(1);
+    };
+
+    // Query string shared by the history list and the CSV export
+    const buildFilterParams = () => {
+        const params = new URLSearchParams();
+        if (searchTerm) params.append('search', searchTerm);
+        if (statusFilter) params.append('status', statusFilter);
+        if (dateRange?.from) params.append('startDate', dateRange.from.toISOString());
+        if (dateRange?.to) params.append('endDate', dateRange.to.toISOString());
+        Object.entries(filters).forEach(([key, value]) => { if (value) params.append(key, value); });
+        return params;
+    };
 
     useEffect(() => {
         const audioElement = audioRef.current;
@@ -160,18 +228,16 @@ export default function CallHistoryPage() {
         setLoading(true);
         setError(null);
         try {
-            const params = new URLSearchParams({ page: currentPage.toString(), limit: '20' });
-            if (searchTerm) params.append('search', searchTerm);
-            if (statusFilter) params.append('status', statusFilter);
-            if (dateRange?.from) params.append('startDate', dateRange.from.toISOString());
-            if (dateRange?.to) params.append('endDate', dateRange.to.toISOString());
+            const params = buildFilterParams();
+            params.append('page', currentPage.toString());
+            params.append('limit', '20');
 
             const response = await fetch(`${API_BASE_URL}/api/calls/history?${params.toString()}`);
             if (!response.ok) throw new Error("Failed to fetch call history.");
 
             const data = await response.json();
             setCalls(data.calls);
-            setTotalPages(data.pagination.totalPages); // Assuming backend returns totalPages
+            setTotalPages(data.pagination.pages);
         } catch (err: any) {
             setError(err.message);
         } finally {
@@ -227,8 +293,11 @@ export default function CallHistoryPage() {
     
     // This effect handles loading the audio source when a call is selected
     useEffect(() => {
-        if (selectedCall?.conversationId && (selectedCall.status === 'completed' || selectedCall.status === 'in-progress' || selectedCall.status === 'ended')) {
-            const audioUrl = `${API_BASE_URL}/api/calls/audio/${selectedCall.conversationId}`;
+        if ((selectedCall?.recordingUrl || selectedCall?.conversationId) && (selectedCall.status === 'completed' || selectedCall.status === 'in-progress' || selectedCall.status === 'ended')) {
+            // The archived copy when there is one, otherwise the ElevenLabs audio
+            const audioUrl = selectedCall.recordingUrl
+                ? `${API_BASE_URL}${selectedCall.recordingUrl}`
+                : `${API_BASE_URL}/api/calls/audio/${selectedCall.conversationId}`;
             const audioElement = audioRef.current;
             
             if (audioElement && audioElement.src !== audioUrl) {
@@ -268,12 +337,7 @@ export default function CallHistoryPage() {
     const handleExportCalls = async () => {
         setIsExporting(true);
         try {
-            const params = new URLSearchParams();
-            if (searchTerm) params.append('search', searchTerm);
-            if (statusFilter) params.append('status', statusFilter);
-            if (dateRange?.from) params.append('startDate', dateRange.from.toISOString());
-            if (dateRange?.to) params.append('endDate', dateRange.to.toISOString());
-
+            const params = buildFilterParams();
             const response = await fetch(`${API_BASE_URL}/api/calls/export?${params.toString()}`);
             if (!response.ok) throw new Error("Failed to export calls.");
 
@@ -295,8 +359,10 @@ export default function CallHistoryPage() {
 
     const clearFilters = () => {
         setSearchTerm("");
+        setSearchInput("");
         setStatusFilter(null);
         setDateRange(undefined);
+        setFilters(EMPTY_FILTERS);
         setCurrentPage(1); // Reset to first page
     };
 
@@ -307,15 +373,84 @@ export default function CallHistoryPage() {
         if (config) {
             return <Badge className={cn("capitalize font-normal text-xs", config.color)}>{config.icon} {config.label}</Badge>;
         }
+        // Outcomes the account defined itself use their own colour
+        const custom = outcomeOptions.find(o => o.name === normalized);
+        if (custom) {
+            return <Badge variant="outline" className="font-normal capitalize text-xs" style={{ color: custom.color, borderColor: `${custom.color}33`, backgroundColor: `${custom.color}1a` }}>{normalized.replace(/_/g, ' ')}</Badge>;
+        }
         return <Badge variant="secondary" className="font-normal capitalize">{outcome}</Badge>;
     };
 
+    // Excerpts showing where a text search matched, with the matched words highlighted
+    const renderSnippets = (call: Call) => {
+        if (!call.searchSnippets || call.searchSnippets.length === 0) return null;
+        return (
+            <div className="mt-1 space-y-0.5 max-w-md">
+                {call.searchSnippets.slice(0, 2).map(snippet => {
+                    const parts: JSX.Element[] = [];
+                    let cursor = 0;
+                    snippet.matches.forEach((match, i) => {
+                        if (match.start > cursor) parts.push(<span key={`t${i}`}>{snippet.text.slice(cursor, match.start)}</span>);
+                        parts.push(<mark key={`m${i}`} className="bg-[#A7B3AC]/30 text-[#F3FFD4] rounded px-0.5">{snippet.text.slice(match.start, match.start + match.length)}</mark>);
+                        cursor = match.start + match.length;
+                    });
+                    parts.push(<span key="rest">{snippet.text.slice(cursor)}</span>);
+                    return (
+                        <p key={snippet.field} className="text-xs text-[#A7A7A7] line-clamp-2">
+                            <span className="uppercase tracking-wide text-[10px] mr-1">{snippet.field}</span>{parts}
+                        </p>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    // Retries are separate Call records linked to the original; show where this one sits in the sequence
+    const getAttemptLabel = (call: Call) => {
+        if (!call.maxAttempts || call.maxAttempts <= 1) return null;
+        return (
+            <div className="text-xs text-[#A7A7A7] mt-1">
+                Attempt {call.attemptNumber || 1} of {call.maxAttempts}
+                {call.status === 'queued' && call.scheduledFor && <> · {format(new Date(call.scheduledFor), "MMM d, h:mm a")}</>}
+            </div>
+        );
+    };
+
+    // Scheduled calls outside a retry sequence: callbacks asked for by the contact, or calls scheduled from the dialer
+    const getScheduleLabel = (call: Call) => {
+        if (call.maxAttempts && call.maxAttempts > 1) return null; // Already covered by the attempt label
+        if (!call.followUpOfCallId && !(call.status === 'queued' && call.scheduledFor)) return null;
+        return (
+            <div className="text-xs text-[#A7A7A7] mt-1">
+                {call.followUpOfCallId ? "Callback" : "Scheduled"}
+                {call.status === 'queued' && call.scheduledFor && <> · {format(new Date(call.scheduledFor), "MMM d, h:mm a")}</>}
+            </div>
+        );
+    };
+
+    const handleCancelCall = async (call: Call) => {
+        if (!confirm(`Cancel the scheduled call to ${call.contactName || call.phoneNumber}?`)) return;
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/calls/${call._id}/cancel`, { method: "POST" });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || "Failed to cancel call.");
+            await fetchCalls();
+        } catch (error: any) {
+            alert("Cancel failed: " + error.message);
+        }
+    };
+
     // --- Audio player controls ---
     const togglePlayPause = () => setIsPlaying(!isPlaying);
     const handleTimeChange = (value: number[]) => { if (audioRef.current) audioRef.current.currentTime = value[0]; };
     const handleVolumeChange = (value: number[]) => { if(audioRef.current) audioRef.current.volume = value[0]; setAudioVolume(value[0]);};
     const handleRewind = () => { if (audioRef.current) audioRef.current.currentTime = Math.max(0, audioRef.current.currentTime - 10); };
     const handleForward = () => { if (audioRef.current) audioRef.current.currentTime = Math.min(audioDuration, audioRef.current.currentTime + 10); };
+    const handleSeekToTurn = (seconds: number) => {
+        if (!audioRef.current) return;
+        audioRef.current.currentTime = seconds;
+        setIsPlaying(true);
+    };
     const formatTime = (seconds: number) => {
         if (isNaN(seconds) || seconds === Infinity) return '0:00';
         const mins = Math.floor(seconds / 60);
@@ -331,6 +466,65 @@ export default function CallHistoryPage() {
                 <DashboardHeader />
                 <div className="container mx-auto px-4 sm:px-6 py-8">
                     {/* ... (Header, Filters remain the same) ... */}
+                    <Card className="bg-[#1a1a1a] border-[#333333] mb-6">
+                        <CardContent className="p-4 space-y-3">
+                            <div className="flex flex-col md:flex-row gap-2">
+                                <div className="relative flex-1">
+                                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#A7A7A7]" />
+                                    <Input placeholder='Search transcripts, summaries, notes... (use "quotes" for phrases)' value={searchInput} onChange={(e) => setSearchInput(e.target.value)} className="pl-9 bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50" />
+                                </div>
+                                <Select value={statusFilter || "all"} onValueChange={(value) => { setStatusFilter(value === "all" ? null : value); setCurrentPage(1); }}>
+                                    <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4] md:w-40"><SelectValue placeholder="Status" /></SelectTrigger>
+                                    <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                                        <SelectItem value="all">All statuses</SelectItem>
+                                        {["ended", "completed", "failed", "busy", "no-answer", "canceled", "queued", "in-progress"].map(status => <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                                <DateRangePicker value={dateRange} onChange={(range) => { setDateRange(range); setCurrentPage(1); }} />
+                            </div>
+                            <div className="flex flex-col md:flex-row flex-wrap gap-2">
+                                <Select value={filters.agentId || "all"} onValueChange={(value) => updateFilter("agentId", value === "all" ? "" : value)}>
+                                    <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4] md:w-44"><SelectValue placeholder="Agent" /></SelectTrigger>
+                                    <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                                        <SelectItem value="all">All agents</SelectItem>
+                                        {agentOptions.map(a => <SelectItem key={a.agent_id} value={a.agent_id}>{a.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                                <Select value={filters.campaignId || "all"} onValueChange={(value) => updateFilter("campaignId", value === "all" ? "" : value)}>
+                                    <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4] md:w-44"><SelectValue placeholder="Campaign" /></SelectTrigger>
+                                    <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                                        <SelectItem value="all">All campaigns</SelectItem>
+                                        {campaignOptions.map(c => <SelectItem key={c._id} value={c._id}>{c.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                                <Select value={filters.outcome || "all"} onValueChange={(value) => updateFilter("outcome", value === "all" ? "" : value)}>
+                                    <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4] md:w-44"><SelectValue placeholder="Outcome" /></SelectTrigger>
+                                    <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                                        <SelectItem value="all">All outcomes</SelectItem>
+                                        {(outcomeOptions.length > 0 ? [...new Set(outcomeOptions.map(o => o.name))] : Object.keys(outcomeTypes)).map(value => (
+                                            <SelectItem key={value} value={value} className="capitalize">{outcomeTypes[value]?.label || value.replace(/_/g, ' ')}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <div className="flex items-center gap-1">
+                                    <Input type="number" min={0} placeholder="Min s" value={filters.minDuration} onChange={(e) => updateFilter("minDuration", e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 w-24" />
+                                    <span className="text-[#A7A7A7]">–</span>
+                                    <Input type="number" min={0} placeholder="Max s" value={filters.maxDuration} onChange={(e) => updateFilter("maxDuration", e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 w-24" />
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <Input type="number" min={0} placeholder="Min cost" value={filters.minCost} onChange={(e) => updateFilter("minCost", e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 w-24" />
+                                    <span className="text-[#A7A7A7]">–</span>
+                                    <Input type="number" min={0} placeholder="Max cost" value={filters.maxCost} onChange={(e) => updateFilter("maxCost", e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 w-24" />
+                                </div>
+                                <div className="flex gap-2 md:ml-auto">
+                                    <Button variant="ghost" className="text-[#A7A7A7] hover:bg-[#333333]" onClick={clearFilters}><X className="h-4 w-4 mr-1" /> Clear</Button>
+                                    <Button variant="outline" className="border-[#333] hover:bg-[#333]" onClick={handleExportCalls} disabled={isExporting}>
+                                        {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArrowDownToLine className="h-4 w-4 mr-2" />} Export
+                                    </Button>
+                                </div>
+                            </div>
+                        </CardContent>
+                    </Card>
                     {/* Table and Modal */}
                     <motion.div initial="hidden" animate="visible" variants={fadeInUpVariant}>
                         <Card className="bg-[#1a1a1a] border-[#333333]">
@@ -347,13 +541,13 @@ export default function CallHistoryPage() {
                                         <TableBody>
                                             {calls.map(call => (
                                                 <TableRow key={call._id} className="border-b-[#333333] cursor-pointer hover:bg-[#222222]" onClick={() => handleViewDetails(call)}>
-                                                    <TableCell><div className="font-medium text-[#F3FFD4]">{call.contactName}</div><div className="text-xs text-[#A7A7A7]">{call.phoneNumber}</div></TableCell>
-                                                    <TableCell>{getStatusBadge(call.status)}</TableCell>
+                                                    <TableCell><div className="font-medium text-[#F3FFD4]">{call.contactName || (call.direction === 'inbound' ? 'Unknown caller' : '')}</div><div className="text-xs text-[#A7A7A7] flex items-center gap-1">{call.direction === 'inbound' && <PhoneIncoming className="h-3 w-3" />}{call.phoneNumber}</div>{renderSnippets(call)}</TableCell>
+                                                    <TableCell>{getStatusBadge(call.status)}{getAttemptLabel(call)}{getScheduleLabel(call)}</TableCell>
                                                     <TableCell className="hidden lg:table-cell">{getOutcomeBadge(call.outcome)}</TableCell>
                                                     <TableCell className="hidden md:table-cell text-[#A7A7A7]">{call.agentName || "-"}</TableCell>
                                                     <TableCell className="hidden lg:table-cell text-[#A7A7A7]">{call.startTime ? format(new Date(call.startTime), "MMM d, h:mm a") : "-"}</TableCell>
                                                     <TableCell className="text-right">
-                                                        <DropdownMenu><DropdownMenuTrigger asChild onClick={e => e.stopPropagation()}><Button variant="ghost" size="icon" className="h-8 w-8 text-[#A7A7A7] hover:bg-[#333333]"><MoreHorizontal className="h-4 w-4" /></Button></DropdownMenuTrigger><DropdownMenuContent align="end" className="bg-[#1a1a1a] border-[#333]"><DropdownMenuItem onClick={() => handleViewDetails(call)}><Info className="h-4 w-4 mr-2" />View Details</DropdownMenuItem><DropdownMenuItem onClick={e => { e.stopPropagation(); router.push(`/dashboard/calls?phone=${call.phoneNumber}&name=${encodeURIComponent(call.contactName || 'Unknown')}&agent=${call.agentId}`); }}><Phone className="h-4 w-4 mr-2" />Call Again</DropdownMenuItem></DropdownMenuContent></DropdownMenu>
+                                                        <DropdownMenu><DropdownMenuTrigger asChild onClick={e => e.stopPropagation()}><Button variant="ghost" size="icon" className="h-8 w-8 text-[#A7A7A7] hover:bg-[#333333]"><MoreHorizontal className="h-4 w-4" /></Button></DropdownMenuTrigger><DropdownMenuContent align="end" className="bg-[#1a1a1a] border-[#333]"><DropdownMenuItem onClick={() => handleViewDetails(call)}><Info className="h-4 w-4 mr-2" />View Details</DropdownMenuItem><DropdownMenuItem onClick={e => { e.stopPropagation(); router.push(`/dashboard/calls/${call._id}`); }}><ExternalLink className="h-4 w-4 mr-2" />Open Call Page</DropdownMenuItem><DropdownMenuItem onClick={e => { e.stopPropagation(); router.push(`/dashboard/calls?phone=${call.phoneNumber}&name=${encodeURIComponent(call.contactName || 'Unknown')}&agent=${call.agentId}`); }}><Phone className="h-4 w-4 mr-2" />Call Again</DropdownMenuItem>{call.status === 'queued' && <DropdownMenuItem className="text-red-400" onClick={e => { e.stopPropagation(); handleCancelCall(call); }}><X className="h-4 w-4 mr-2" />Cancel Call</DropdownMenuItem>}</DropdownMenuContent></DropdownMenu>
                                                     </TableCell>
                                                 </TableRow>
                                             ))}
@@ -388,6 +582,46 @@ export default function CallHistoryPage() {
                         <ScrollArea className="pr-2 -mr-4">
                             <div className="space-y-6 py-2 text-[#F3FFD4] pr-4">
                                 {/* ... (Call Details content remains the same) ... */}
+                                {selectedCall.redactedCategories && selectedCall.redactedCategories.length > 0 && (
+                                    <div className="flex items-center gap-2 text-xs text-[#A7A7A7] bg-[#222222] border border-[#333333] rounded-lg px-3 py-2">
+                                        <ShieldCheck className="h-4 w-4 text-[#A7B3AC]" />
+                                        Personal data was redacted from this call: {selectedCall.redactedCategories.map(c => REDACTION_LABELS[c] || c).join(", ")}
+                                    </div>
+                                )}
+                                {(isAudioLoading || audioError || audioDuration > 0) && (
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-[#A7A7A7] mb-3">Recording</h4>
+                                        {isAudioLoading ? (
+                                            <div className="flex items-center gap-2 text-sm text-[#A7A7A7]"><Loader2 className="h-4 w-4 animate-spin" /> Loading recording...</div>
+                                        ) : audioError ? (
+                                            <p className="text-sm text-red-400">{audioError}</p>
+                                        ) : (
+                                            <div className="flex items-center gap-2">
+                                                <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-[#333333]" onClick={handleRewind}><RotateCcw className="h-4 w-4" /></Button>
+                                                <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-[#333333]" onClick={togglePlayPause}>{isPlaying ? <Pause className="h-4 w-4" /> : <PlayCircle className="h-4 w-4" />}</Button>
+                                                <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-[#333333]" onClick={handleForward}><RotateCw className="h-4 w-4" /></Button>
+                                                <span className="text-xs text-[#A7A7A7] w-10 text-right">{formatTime(audioTime)}</span>
+                                                <Slider value={[audioTime]} max={audioDuration || 1} step={0.1} onValueChange={handleTimeChange} className="flex-1" />
+                                                <span className="text-xs text-[#A7A7A7] w-10">{formatTime(audioDuration)}</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                                {selectedCall.transcript && selectedCall.transcript.length > 0 ? (
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-[#A7A7A7] mb-3">Transcript</h4>
+                                        <CallTranscript turns={selectedCall.transcript} currentTime={audioTime} onSeek={audioDuration > 0 ? handleSeekToTurn : undefined} />
+                                    </div>
+                                ) : selectedCall.transcription ? (
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-[#A7A7A7] mb-3">Transcript</h4>
+                                        <p className="text-sm text-[#F3FFD4] whitespace-pre-wrap">{selectedCall.transcription}</p>
+                                    </div>
+                                ) : null}
+                                <div>
+                                    <h4 className="text-sm font-semibold text-[#A7A7A7] mb-3">Timeline</h4>
+                                    <CallTimeline callId={selectedCall._id} />
+                                </div>
                             </div>
                         </ScrollArea>
                     )}
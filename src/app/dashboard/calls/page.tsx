@@ -54,6 +54,7 @@ const dialerSchema = z.object({
         .regex(/^[+\d\s()-]+$/, "Enter a valid phone number format"),
     contactName: z.string().min(1, "Contact name is required"),
     customMessage: z.string().optional(),
+    scheduledFor: z.string().optional(), // datetime-local value; empty means dial now
 });
 
 // Define a type for recent calls for better type safety
@@ -106,7 +107,7 @@ export default function CallsPage() {
 
     const form = useForm<z.infer<typeof dialerSchema>>({
         resolver: zodResolver(dialerSchema),
-        defaultValues: { agentId: "", contactName: "", phoneNumber: "", customMessage: "" }
+        defaultValues: { agentId: "", contactName: "", phoneNumber: "", customMessage: "", scheduledFor: "" }
     });
     
     // Set default agent if available after loading
@@ -185,13 +186,24 @@ export default function CallsPage() {
             setMakingCall(true);
             setLiveCallStatus('Initiating call...'); 
             const cleanedPhoneNumber = formData.phoneNumber.replace(/[\s()-]/g, '');
+            // datetime-local has no timezone, so convert from the browser's local time
+            const scheduledFor = formData.scheduledFor ? new Date(formData.scheduledFor).toISOString() : undefined;
 
             // UPDATED: Calls the new Exotel initiation endpoint
-            const response = await fetch(`${API_BASE_URL}/api/calls/initiate-exotel`, {
+            const requestCall = (outsideWindow?: 'defer') => fetch(`${API_BASE_URL}/api/calls/initiate-exotel`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ ...formData, phoneNumber: cleanedPhoneNumber }),
+                body: JSON.stringify({ ...formData, phoneNumber: cleanedPhoneNumber, scheduledFor, outsideWindow }),
             });
+            let response = await requestCall();
+
+            // Outside the contact's calling hours: offer to queue it for when the window opens
+            if (response.status === 409) {
+                const windowError = await response.clone().json().catch(() => ({}));
+                if (windowError.nextAllowedAt && confirm(`${windowError.message}\n\nSchedule the call for ${new Date(windowError.nextAllowedAt).toLocaleString()} instead?`)) {
+                    response = await requestCall('defer');
+                }
+            }
 
             if (!response.ok) {
                  let errorMsg = "Failed to initiate call";
@@ -206,6 +218,15 @@ export default function CallsPage() {
                 throw new Error(result.message || "Backend did not return a valid Call ID.");
             }
 
+            // Scheduled calls are dialed later by the dispatcher, so there is nothing to poll yet
+            if (result.initialStatus === 'queued') {
+                setLiveCallStatus(null);
+                form.setValue('scheduledFor', '');
+                alert(`Call scheduled for ${new Date(result.scheduledFor).toLocaleString()}`);
+                await refreshCalls();
+                return;
+            }
+
             setCurrentCallId(result.callId);
             setLiveCallStatus(result.initialStatus || 'ringing'); 
             
@@ -527,6 +548,9 @@ export default function CallsPage() {
                                                     {/* Custom Message */}
                                                     <FormField control={form.control} name="customMessage" render={({ field }) => ( <FormItem> <FormLabel className="text-[#A7A7A7]">Custom Instructions (Optional)</FormLabel> <FormControl><Textarea placeholder="Specific context or instructions for the agent on this call..." {...field} disabled={makingCall || !!pollingIntervalId || isSocketConnected} className="min-h-[80px] bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50" /></FormControl> <FormMessage /> </FormItem> )} />
 
+                                                    {/* Schedule */}
+                                                    <FormField control={form.control} name="scheduledFor" render={({ field }) => ( <FormItem> <FormLabel className="text-[#A7A7A7]">Schedule for Later (Optional)</FormLabel> <FormControl><Input type="datetime-local" {...field} disabled={makingCall || !!pollingIntervalId || isSocketConnected} className="bg-[#222222] border-[#333333] text-[#F3FFD4] w-full sm:w-auto" /></FormControl> <FormDescription className="text-[#A7A7A7]/70 text-xs">Leave empty to dial immediately.</FormDescription> <FormMessage /> </FormItem> )} />
+
                                                     {/* Form Actions */}
                                                     <div className="flex flex-col sm:flex-row gap-4 items-center pt-2">
                                                         <Button
@@ -536,6 +560,7 @@ export default function CallsPage() {
                                                         >
                                                             {makingCall ? ( <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Initiating...</> ) 
                                                             : (pollingIntervalId || isSocketConnected) ? ( <><Mic className="h-4 w-4 mr-2" /> Call Active</> ) 
+                                                            : form.watch('scheduledFor') ? ( <><Clock className="h-4 w-4 mr-2" /> Schedule Call</> )
                                                             : ( <><Phone className="h-4 w-4 mr-2" /> Start Call</> )}
                                                         </Button>
                                                         {/* "How it works" Dialog */}
@@ -642,7 +667,7 @@ export default function CallsPage() {
                                      <div><p className="text-xs text-[#A7A7A7] mb-0.5">Duration</p><p>{selectedCall.duration != null && selectedCall.duration >= 0 ? `${Math.floor(selectedCall.duration / 60)}m ${selectedCall.duration % 60}s` : "N/A"}</p></div>
                                 </div>
                                 <DialogFooter className="pt-4 flex flex-col sm:flex-row gap-2"> 
-                                    <Button variant="outline" className="border-[#333333] w-full sm:w-auto" onClick={() => { if (selectedCall.agentId) { form.reset({ agentId: selectedCall.agentId, phoneNumber: selectedCall.phoneNumber, contactName: selectedCall.contactName || "", customMessage: "" }); setDialerValue(selectedCall.phoneNumber); setCallTab("dialer"); setSelectedCall(null); } else { alert("Agent ID missing."); } }} disabled={makingCall || !!pollingIntervalId || isSocketConnected}><Phone className="h-4 w-4 mr-2" /> Call Again</Button> 
+                                    <Button variant="outline" className="border-[#333333] w-full sm:w-auto" onClick={() => { if (selectedCall.agentId) { form.reset({ agentId: selectedCall.agentId, phoneNumber: selectedCall.phoneNumber, contactName: selectedCall.contactName || "", customMessage: "", scheduledFor: "" }); setDialerValue(selectedCall.phoneNumber); setCallTab("dialer"); setSelectedCall(null); } else { alert("Agent ID missing."); } }} disabled={makingCall || !!pollingIntervalId || isSocketConnected}><Phone className="h-4 w-4 mr-2" /> Call Again</Button> 
                                     <DialogClose asChild><Button variant="default" className="w-full sm:w-auto">Close</Button></DialogClose> 
                                 </DialogFooter> 
                             </div> )}
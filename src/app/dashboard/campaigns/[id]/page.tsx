@@ -0,0 +1,479 @@
+"use client";
+
+import { useState, JSX } from "react";
+import { useRouter, useParams } from "next/navigation";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { motion } from "framer-motion";
+import { useAuth } from "@/contexts/AuthContext";
+
+// UI Components
+import { DashboardHeader } from "@/components/dashboard/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+
+// Icons
+import { ArrowLeft, PauseCircle, PlayCircle, XCircle, Loader2, AlertCircle, Users, CheckCircle, PhoneOff, PhoneCall, Clock, Bot, FlaskConical, Filter, Download } from "lucide-react";
+
+// --- Base URL for API calls ---
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
+const fetcher = (url: string) => fetch(`${API_BASE_URL}${url}`).then(res => {
+    if (!res.ok) {
+        throw new Error('Failed to fetch data');
+    }
+    return res.json();
+});
+
+type VariantReport = {
+    key: string;
+    agentName?: string;
+    weight: number;
+    contacts: number;
+    calls: number;
+    finishedCalls: number;
+    avgDuration: number;
+    totalCost: number;
+    outcomes: Record<string, { count: number; rate: number; costPerOutcome: number | null }>;
+    success?: { count: number; rate: number; costPerOutcome: number | null };
+};
+
+type FunnelStep = { stage: string; label: string; count: number; rateOfDialed: number; color?: string; countsAsSuccess?: boolean };
+
+type ContactRow = {
+    contactId?: string;
+    contactName: string;
+    phoneNumber: string;
+    variant?: string;
+    attempts: number;
+    lastStatus: string;
+    lastOutcome?: string;
+    lastCallAt?: string;
+    totalDuration: number;
+};
+
+type CampaignReport = {
+    funnel: FunnelStep[];
+    contacts: ContactRow[];
+    variants: VariantReport[];
+    significance: { outcome: string; pValue: number; significant: boolean; lowSampleSize: boolean }[];
+    significanceLevel: number;
+};
+
+type CampaignStatus = "draft" | "scheduled" | "in-progress" | "completed" | "paused" | "cancelled";
+
+type Campaign = {
+    _id: string;
+    name: string;
+    description?: string;
+    status: CampaignStatus;
+    agentId?: { _id: string; name: string; agentId: string };
+    variants?: { key: string; weight: number; customMessage?: string; agentId?: { _id: string; name: string; agentId: string } }[];
+    scheduledStartTime?: string;
+    scheduledEndTime?: string;
+    dailyStartTime?: string;
+    dailyEndTime?: string;
+    maxConcurrentCalls?: number;
+    callsBetweenPause?: number;
+    pauseDuration?: number;
+    retryPolicy?: { maxAttempts: number; backoffMinutes: number; retryOn: string[] };
+    startedAt?: string;
+    completedAt?: string;
+    totalContacts: number;
+    completedCalls: number;
+    successfulCalls: number;
+    failedCalls: number;
+};
+
+const campaignStatusStyles: { [key in CampaignStatus]: { label: string; color: string; icon: JSX.Element } } = {
+    draft: { label: "Draft", color: "bg-gray-500/10 text-gray-400 border-gray-500/20", icon: <Clock className="h-3 w-3 mr-1" /> },
+    scheduled: { label: "Scheduled", color: "bg-blue-500/10 text-blue-400 border-blue-500/20", icon: <Clock className="h-3 w-3 mr-1" /> },
+    "in-progress": { label: "Running", color: "bg-green-500/10 text-green-400 border-green-500/20", icon: <PlayCircle className="h-3 w-3 mr-1 animate-pulse" /> },
+    paused: { label: "Paused", color: "bg-yellow-500/10 text-yellow-400 border-yellow-500/20", icon: <PauseCircle className="h-3 w-3 mr-1" /> },
+    completed: { label: "Completed", color: "bg-green-500/10 text-green-400 border-green-500/20", icon: <CheckCircle className="h-3 w-3 mr-1" /> },
+    cancelled: { label: "Cancelled", color: "bg-red-500/10 text-red-400 border-red-500/20", icon: <XCircle className="h-3 w-3 mr-1" /> },
+};
+
+export default function CampaignDetailPage() {
+    const params = useParams();
+    const id = params.id as string;
+    const router = useRouter();
+    const { user } = useAuth();
+
+    // Poll while the campaign is live so counters and call statuses stay current
+    const { data, error: loadError, isLoading, mutate } = useSWR<{ campaign: Campaign; callStatusCounts: Record<string, number> }>(
+        user && id ? `/api/campaigns/${id}` : null,
+        fetcher,
+        { refreshInterval: (latest) => (latest?.campaign && ["scheduled", "in-progress", "paused"].includes(latest.campaign.status) ? 5000 : 0) }
+    );
+    const campaign = data?.campaign;
+    const callStatusCounts = data?.callStatusCounts || {};
+    const isAbTest = !!campaign?.variants && campaign.variants.length > 0;
+
+    const { data: report } = useSWR<CampaignReport>(
+        campaign ? `/api/campaigns/${id}/report` : null,
+        fetcher,
+        { refreshInterval: campaign && ["in-progress"].includes(campaign.status) ? 15000 : 0 }
+    );
+    const [exporting, setExporting] = useState<"csv" | "xlsx" | null>(null);
+
+    const [actionLoading, setActionLoading] = useState<"pause" | "resume" | "cancel" | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+
+    const runAction = async (action: "pause" | "resume" | "cancel") => {
+        setActionLoading(action);
+        setActionError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/campaigns/${id}/${action}`, { method: "POST" });
+            const result = await response.json().catch(() => ({}));
+            if (!response.ok) {
+                throw new Error(result.message || `Failed to ${action} campaign`);
+            }
+            await mutate();
+        } catch (err: any) {
+            setActionError(err.message);
+            console.error(`Campaign ${action} error:`, err);
+        } finally {
+            setActionLoading(null);
+            setCancelDialogOpen(false);
+        }
+    };
+
+    const handleExport = async (exportFormat: "csv" | "xlsx") => {
+        setExporting(exportFormat);
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/campaigns/${id}/report?format=${exportFormat}`);
+            if (!response.ok) throw new Error("Failed to export report.");
+
+            const blob = await response.blob();
+            const url = window.URL.createObjectURL(blob);
+            const a = document.createElement("a");
+            a.href = url;
+            a.download = `campaign_report_${format(new Date(), "yyyy-MM-dd")}.${exportFormat}`;
+            document.body.appendChild(a);
+            a.click();
+            a.remove();
+            window.URL.revokeObjectURL(url);
+        } catch (err: any) {
+            alert("Export failed: " + err.message);
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const fadeInUpVariant = { hidden: { opacity: 0, y: 20 }, visible: { opacity: 1, y: 0, transition: { duration: 0.4 } } };
+    const formatDate = (value?: string) => (value ? format(new Date(value), "MMM d, yyyy h:mm a") : "-");
+    const formatOutcome = (outcome: string) => outcome.replace(/_/g, " ");
+    // Costs are stored in the smallest currency unit (paise)
+    const formatCost = (value: number | null) => (value === null ? "-" : `₹${(value / 100).toFixed(2)}`);
+
+    if (isLoading || !user) {
+        return (
+            <div className="min-h-screen flex bg-[#111111]">
+                <main className="flex-1 overflow-y-auto h-screen">
+                    <DashboardHeader />
+                    <div className="container mx-auto px-4 sm:px-6 py-8 space-y-6">
+                        <Skeleton className="h-10 w-1/3 bg-[#333333]" />
+                        <Skeleton className="h-32 w-full bg-[#333333]" />
+                        <Skeleton className="h-64 w-full bg-[#333333]" />
+                    </div>
+                </main>
+            </div>
+        );
+    }
+
+    if (loadError || !campaign) {
+        return (
+            <div className="min-h-screen flex bg-[#111111]">
+                <main className="flex-1 overflow-y-auto h-screen">
+                    <DashboardHeader />
+                    <div className="container mx-auto px-4 sm:px-6 py-8 text-center">
+                        <AlertCircle className="mx-auto h-8 w-8 text-red-500 mb-2" />
+                        <p className="text-red-400">Campaign not found or could not be loaded.</p>
+                    </div>
+                </main>
+            </div>
+        );
+    }
+
+    const statusStyle = campaignStatusStyles[campaign.status];
+    const progress = campaign.totalContacts > 0 ? Math.round((campaign.completedCalls / campaign.totalContacts) * 100) : 0;
+    const liveCalls = ["initiating", "ringing", "answered", "in-progress", "connected"].reduce((sum, s) => sum + (callStatusCounts[s] || 0), 0);
+    const canPause = campaign.status === "scheduled" || campaign.status === "in-progress";
+    const canResume = campaign.status === "paused";
+    const canCancel = !["completed", "cancelled"].includes(campaign.status);
+
+    const stats = [
+        { label: "Contacts", value: campaign.totalContacts, icon: <Users className="h-5 w-5 text-[#A7B3AC]" /> },
+        { label: "Completed", value: campaign.completedCalls, icon: <CheckCircle className="h-5 w-5 text-[#A7B3AC]" /> },
+        { label: "Successful", value: campaign.successfulCalls, icon: <PhoneCall className="h-5 w-5 text-green-400" /> },
+        { label: "Failed", value: campaign.failedCalls, icon: <PhoneOff className="h-5 w-5 text-red-400" /> },
+    ];
+
+    return (
+        <div className="min-h-screen text-foreground flex bg-[#111111]">
+            <main className="flex-1 overflow-y-auto h-screen">
+                <DashboardHeader />
+                <div className="container mx-auto px-4 sm:px-6 py-8">
+                    <div className="flex flex-wrap justify-between items-start gap-4 mb-8 text-[#F3FFD4]">
+                        <div className="flex items-start gap-3">
+                            <Button variant="ghost" size="icon" className="text-[#A7A7A7] hover:bg-[#333333]" onClick={() => router.back()}>
+                                <ArrowLeft className="h-5 w-5" />
+                            </Button>
+                            <div>
+                                <div className="flex items-center gap-3">
+                                    <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">{campaign.name}</h1>
+                                    <Badge variant="outline" className={statusStyle.color}>{statusStyle.icon} {statusStyle.label}</Badge>
+                                </div>
+                                {campaign.description && <p className="text-[#A7A7A7] mt-1">{campaign.description}</p>}
+                            </div>
+                        </div>
+                        <div className="flex gap-2">
+                            {canPause && (
+                                <Button variant="outline" className="gap-2 border-[#333] hover:bg-[#333]" disabled={!!actionLoading} onClick={() => runAction("pause")}>
+                                    {actionLoading === "pause" ? <Loader2 className="h-4 w-4 animate-spin" /> : <PauseCircle className="h-4 w-4" />} Pause
+                                </Button>
+                            )}
+                            {canResume && (
+                                <Button className="gap-2 bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90" disabled={!!actionLoading} onClick={() => runAction("resume")}>
+                                    {actionLoading === "resume" ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlayCircle className="h-4 w-4" />} Resume
+                                </Button>
+                            )}
+                            {canCancel && (
+                                <Button variant="destructive" className="gap-2" disabled={!!actionLoading} onClick={() => setCancelDialogOpen(true)}>
+                                    <XCircle className="h-4 w-4" /> Cancel Campaign
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+
+                    {actionError && (
+                        <div className="mb-6 text-red-400 bg-red-500/10 p-4 rounded-lg border border-red-500/20 flex items-center gap-2">
+                            <AlertCircle className="h-4 w-4" /> {actionError}
+                        </div>
+                    )}
+
+                    <motion.div initial="hidden" animate="visible" variants={fadeInUpVariant} className="space-y-6">
+                        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                            {stats.map((stat) => (
+                                <Card key={stat.label} className="bg-[#1a1a1a] border-[#333333]">
+                                    <CardContent className="p-5 flex items-center gap-4">
+                                        <div className="h-10 w-10 rounded-full bg-[#A7B3AC]/10 flex items-center justify-center">{stat.icon}</div>
+                                        <div>
+                                            <p className="text-sm text-[#A7A7A7]">{stat.label}</p>
+                                            <p className="text-2xl font-semibold text-[#F3FFD4]">{stat.value}</p>
+                                        </div>
+                                    </CardContent>
+                                </Card>
+                            ))}
+                        </div>
+
+                        <Card className="bg-[#1a1a1a] border-[#333333]">
+                            <CardHeader>
+                                <CardTitle className="text-[#F3FFD4]">Progress</CardTitle>
+                                <CardDescription className="text-[#A7A7A7]">
+                                    {campaign.completedCalls} of {campaign.totalContacts} contacts reached · {liveCalls} live call(s) · {callStatusCounts.queued || 0} queued
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <Progress value={progress} />
+                                <div className="flex flex-wrap gap-2">
+                                    {Object.entries(callStatusCounts).map(([status, count]) => (
+                                        <Badge key={status} variant="outline" className="capitalize border-[#333333] text-[#A7A7A7]">{status}: {count}</Badge>
+                                    ))}
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        <Card className="bg-[#1a1a1a] border-[#333333]">
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><Filter className="h-5 w-5 text-[#A7B3AC]" /> Funnel</CardTitle>
+                                <CardDescription className="text-[#A7A7A7]">Every attempt counts, so retries appear as additional dials.</CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-3">
+                                {!report ? (
+                                    <Skeleton className="h-32 w-full bg-[#333333]" />
+                                ) : report.funnel[0]?.count === 0 ? (
+                                    <p className="text-sm text-[#A7A7A7]">No calls have been dialed yet.</p>
+                                ) : (
+                                    report.funnel.map(step => (
+                                        <div key={step.stage} className="grid grid-cols-[8rem_1fr_5rem] sm:grid-cols-[10rem_1fr_6rem] items-center gap-3 text-sm">
+                                            <span className={`capitalize ${step.stage.startsWith("outcome:") ? "text-[#A7A7A7] pl-3" : "text-[#F3FFD4]"}`}>{step.label}</span>
+                                            <div className="h-3 rounded bg-[#222222] overflow-hidden">
+                                                <div
+                                                    className={`h-full rounded ${step.stage === "success" ? "bg-green-400" : step.stage.startsWith("outcome:") ? "bg-[#A7B3AC]/50" : "bg-[#A7B3AC]"}`}
+                                                    style={{ width: `${Math.max(step.rateOfDialed * 100, step.count > 0 ? 1 : 0)}%`, backgroundColor: step.color }}
+                                                />
+                                            </div>
+                                            <span className="text-right text-[#F3FFD4]">{step.count} <span className="text-xs text-[#A7A7A7]">({(step.rateOfDialed * 100).toFixed(0)}%)</span></span>
+                                        </div>
+                                    ))
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card className="bg-[#1a1a1a] border-[#333333]">
+                            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                                <div>
+                                    <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><Users className="h-5 w-5 text-[#A7B3AC]" /> Contacts</CardTitle>
+                                    <CardDescription className="text-[#A7A7A7]">Attempts and latest status per contact.</CardDescription>
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button variant="outline" size="sm" className="gap-2 border-[#333] hover:bg-[#333]" disabled={!!exporting} onClick={() => handleExport("csv")}>
+                                        {exporting === "csv" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />} CSV
+                                    </Button>
+                                    <Button variant="outline" size="sm" className="gap-2 border-[#333] hover:bg-[#333]" disabled={!!exporting} onClick={() => handleExport("xlsx")}>
+                                        {exporting === "xlsx" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />} XLSX
+                                    </Button>
+                                </div>
+                            </CardHeader>
+                            <CardContent>
+                                {!report ? (
+                                    <Skeleton className="h-48 w-full bg-[#333333]" />
+                                ) : (
+                                    <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow className="border-b-[#333333] hover:bg-transparent">
+                                                    <TableHead className="text-[#A7A7A7]">Contact</TableHead>
+                                                    {isAbTest && <TableHead className="text-[#A7A7A7]">Variant</TableHead>}
+                                                    <TableHead className="text-[#A7A7A7]">Attempts</TableHead>
+                                                    <TableHead className="text-[#A7A7A7]">Last Status</TableHead>
+                                                    <TableHead className="text-[#A7A7A7] hidden md:table-cell">Outcome</TableHead>
+                                                    <TableHead className="text-[#A7A7A7] hidden md:table-cell">Last Call</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {report.contacts.map(row => (
+                                                    <TableRow key={row.contactId || row.phoneNumber} className="border-b-[#333333]">
+                                                        <TableCell><div className="font-medium text-[#F3FFD4]">{row.contactName || "-"}</div><div className="text-xs text-[#A7A7A7]">{row.phoneNumber}</div></TableCell>
+                                                        {isAbTest && <TableCell className="text-[#F3FFD4]">{row.variant || "-"}</TableCell>}
+                                                        <TableCell className="text-[#F3FFD4]">{row.attempts}</TableCell>
+                                                        <TableCell><Badge variant="outline" className="capitalize border-[#333333] text-[#A7A7A7]">{row.lastStatus}</Badge></TableCell>
+                                                        <TableCell className="hidden md:table-cell text-[#A7A7A7] capitalize">{row.lastOutcome ? formatOutcome(row.lastOutcome) : "-"}</TableCell>
+                                                        <TableCell className="hidden md:table-cell text-[#A7A7A7]">{formatDate(row.lastCallAt)}</TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        {isAbTest && (
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><FlaskConical className="h-5 w-5 text-[#A7B3AC]" /> A/B Test</CardTitle>
+                                    <CardDescription className="text-[#A7A7A7]">Contacts are split between variants by weight. Outcome rates are per contact.</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-6">
+                                    {!report ? (
+                                        <Skeleton className="h-32 w-full bg-[#333333]" />
+                                    ) : (
+                                        <>
+                                            <div className="overflow-x-auto">
+                                                <Table>
+                                                    <TableHeader>
+                                                        <TableRow className="border-b-[#333333] hover:bg-transparent">
+                                                            <TableHead className="text-[#A7A7A7]">Variant</TableHead>
+                                                            <TableHead className="text-[#A7A7A7]">Contacts</TableHead>
+                                                            <TableHead className="text-[#A7A7A7]">Avg Duration</TableHead>
+                                                            <TableHead className="text-[#A7A7A7]">Cost</TableHead>
+                                                            <TableHead className="text-[#A7A7A7]">Success</TableHead>
+                                                            {report.significance.map(s => (
+                                                                <TableHead key={s.outcome} className="text-[#A7A7A7] capitalize">{formatOutcome(s.outcome)}</TableHead>
+                                                            ))}
+                                                        </TableRow>
+                                                    </TableHeader>
+                                                    <TableBody>
+                                                        {report.variants.map(v => (
+                                                            <TableRow key={v.key} className="border-b-[#333333]">
+                                                                <TableCell className="text-[#F3FFD4]">
+                                                                    <div className="font-medium">{v.key}</div>
+                                                                    <div className="text-xs text-[#A7A7A7]">{v.agentName || "-"} · weight {v.weight}</div>
+                                                                </TableCell>
+                                                                <TableCell className="text-[#F3FFD4]">{v.contacts}</TableCell>
+                                                                <TableCell className="text-[#F3FFD4]">{Math.round(v.avgDuration)}s</TableCell>
+                                                                <TableCell className="text-[#F3FFD4]">{formatCost(v.totalCost)}</TableCell>
+                                                                <TableCell className="text-green-400">
+                                                                    <div>{v.success ? `${(v.success.rate * 100).toFixed(1)}%` : "-"} <span className="text-xs text-[#A7A7A7]">({v.success?.count || 0})</span></div>
+                                                                    <div className="text-xs text-[#A7A7A7]">{formatCost(v.success?.costPerOutcome ?? null)} each</div>
+                                                                </TableCell>
+                                                                {report.significance.map(s => {
+                                                                    const stats = v.outcomes[s.outcome];
+                                                                    return (
+                                                                        <TableCell key={s.outcome} className="text-[#F3FFD4]">
+                                                                            <div>{stats ? `${(stats.rate * 100).toFixed(1)}%` : "0%"} <span className="text-xs text-[#A7A7A7]">({stats?.count || 0})</span></div>
+                                                                            <div className="text-xs text-[#A7A7A7]">{formatCost(stats?.costPerOutcome ?? null)} each</div>
+                                                                        </TableCell>
+                                                                    );
+                                                                })}
+                                                            </TableRow>
+                                                        ))}
+                                                    </TableBody>
+                                                </Table>
+                                            </div>
+                                            <div className="flex flex-wrap gap-2">
+                                                {report.significance.length === 0 && <p className="text-sm text-[#A7A7A7]">No outcomes recorded yet.</p>}
+                                                {report.significance.map(s => (
+                                                    <Badge
+                                                        key={s.outcome}
+                                                        variant="outline"
+                                                        className={s.significant ? "bg-green-500/10 text-green-400 border-green-500/20" : "border-[#333333] text-[#A7A7A7]"}
+                                                    >
+                                                        <span className="capitalize mr-1">{formatOutcome(s.outcome)}:</span>
+                                                        {s.lowSampleSize ? "not enough data" : s.significant ? `significant (p=${s.pValue.toFixed(3)})` : `no significant difference (p=${s.pValue.toFixed(3)})`}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        </>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        <Card className="bg-[#1a1a1a] border-[#333333]">
+                            <CardHeader>
+                                <CardTitle className="text-[#F3FFD4]">Settings</CardTitle>
+                            </CardHeader>
+                            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                <div className="flex justify-between"><span className="text-[#A7A7A7] flex items-center gap-2"><Bot className="h-4 w-4" />{isAbTest ? "Agents" : "Agent"}</span><span className="text-[#F3FFD4]">{isAbTest ? campaign.variants!.map(v => `${v.key}: ${v.agentId?.name || "?"} (${v.weight})`).join(", ") : campaign.agentId?.name || "-"}</span></div>
+                                <div className="flex justify-between"><span className="text-[#A7A7A7]">Max concurrent calls</span><span className="text-[#F3FFD4]">{campaign.maxConcurrentCalls ?? 1}</span></div>
+                                <div className="flex justify-between"><span className="text-[#A7A7A7]">Scheduled start</span><span className="text-[#F3FFD4]">{formatDate(campaign.scheduledStartTime)}</span></div>
+                                <div className="flex justify-between"><span className="text-[#A7A7A7]">Scheduled end</span><span className="text-[#F3FFD4]">{formatDate(campaign.scheduledEndTime)}</span></div>
+                                <div className="flex justify-between"><span className="text-[#A7A7A7]">Daily window</span><span className="text-[#F3FFD4]">{campaign.dailyStartTime || campaign.dailyEndTime ? `${campaign.dailyStartTime || "00:00"} - ${campaign.dailyEndTime || "23:59"}` : "Any time"}</span></div>
+                                <div className="flex justify-between"><span className="text-[#A7A7A7]">Pause</span><span className="text-[#F3FFD4]">{campaign.callsBetweenPause ? `${campaign.pauseDuration || 0} min every ${campaign.callsBetweenPause} calls` : "None"}</span></div>
+                                <div className="flex justify-between"><span className="text-[#A7A7A7]">Retries</span><span className="text-[#F3FFD4]">{campaign.retryPolicy && campaign.retryPolicy.maxAttempts > 1 ? `Up to ${campaign.retryPolicy.maxAttempts} attempts, ${campaign.retryPolicy.backoffMinutes} min apart (${campaign.retryPolicy.retryOn.join(", ")})` : "Agent default"}</span></div>
+                                <div className="flex justify-between"><span className="text-[#A7A7A7]">Started</span><span className="text-[#F3FFD4]">{formatDate(campaign.startedAt)}</span></div>
+                                <div className="flex justify-between"><span className="text-[#A7A7A7]">Finished</span><span className="text-[#F3FFD4]">{formatDate(campaign.completedAt)}</span></div>
+                            </CardContent>
+                        </Card>
+                    </motion.div>
+                </div>
+            </main>
+
+            <AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+                <AlertDialogContent className="bg-[#1a1a1a] border-[#333333]">
+                    <AlertDialogHeader>
+                        <AlertDialogTitle className="text-[#F3FFD4]">Cancel this campaign?</AlertDialogTitle>
+                        <AlertDialogDescription className="text-[#A7A7A7]">
+                            No further contacts will be dialed and every queued call will be marked as canceled. Calls that are live right now will finish normally. This cannot be undone.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={actionLoading === "cancel"} className="bg-transparent text-[#A7A7A7] border-[#333333] hover:bg-[#333333]">Keep Running</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => runAction("cancel")} className="bg-destructive hover:bg-destructive/90" disabled={actionLoading === "cancel"}>
+                            {actionLoading === "cancel" ? <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Cancelling...</> : "Cancel Campaign"}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
@@ -0,0 +1,701 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { motion } from "framer-motion";
+import { useAuth } from "@/contexts/AuthContext";
+
+// UI Components
+import { DashboardHeader } from "@/components/dashboard/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+
+// Icons
+import { Clock, CalendarOff, Phone, PhoneIncoming, PhoneOff, Plus, Trash2, Upload, Loader2, AlertCircle, CheckCircle, ShieldCheck, Target } from "lucide-react";
+
+// --- Base URL for API calls ---
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
+const fetcher = (url: string) => fetch(`${API_BASE_URL}${url}`).then(res => {
+    if (!res.ok) {
+        throw new Error('Failed to fetch data');
+    }
+    return res.json();
+});
+
+type BlackoutDate = { date: string; label?: string };
+type InboundNumber = {
+    _id: string;
+    phoneNumber: string;
+    label?: string;
+    enabled: boolean;
+    agentId: { _id: string; name: string; agentId: string } | null;
+};
+type AgentOption = { agent_id: string; name: string };
+type DncEntry = { _id: string; phoneNumber: string; source: "contact" | "outcome" | "ndnc" | "upload" | "manual"; reason?: string; createdAt: string };
+type BlockedDial = { _id: string; phoneNumber: string; path: string; reason: string; createdAt: string };
+
+const DNC_SOURCE_LABELS: Record<DncEntry["source"], string> = {
+    contact: "Contact",
+    outcome: "Call outcome",
+    ndnc: "TRAI NDNC",
+    upload: "Scrub list",
+    manual: "Manual",
+};
+
+type RedactionCategory = "card" | "aadhaar" | "pan" | "email" | "phone" | "otp";
+type RedactionSettings = { enabled: boolean; categories: RedactionCategory[]; originals: "encrypt" | "discard" };
+
+const REDACTION_CATEGORY_LABELS: Record<RedactionCategory, string> = {
+    card: "Card numbers",
+    aadhaar: "Aadhaar numbers",
+    pan: "PAN numbers",
+    email: "Email addresses",
+    phone: "Phone numbers",
+    otp: "OTPs and PINs",
+};
+
+type OutcomeDefinition = {
+    _id: string;
+    name: string;
+    description: string;
+    color: string;
+    countsAsSuccess: boolean;
+    agentId: { _id: string; name: string; agentId: string } | null;
+};
+
+type CallingSettings = {
+    callingWindow: { startTime?: string; endTime?: string };
+    blackoutDates: BlackoutDate[];
+    telephonyProvider: "exotel" | "twilio";
+};
+
+export default function SettingsPage() {
+    const { user } = useAuth();
+    const { data, isLoading, mutate } = useSWR<CallingSettings>(user ? "/api/settings/calling" : null, fetcher);
+
+    const [startTime, setStartTime] = useState("");
+    const [endTime, setEndTime] = useState("");
+    const [blackoutDates, setBlackoutDates] = useState<BlackoutDate[]>([]);
+    const [telephonyProvider, setTelephonyProvider] = useState<CallingSettings["telephonyProvider"]>("exotel");
+    const [newDate, setNewDate] = useState("");
+    const [newLabel, setNewLabel] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        if (data) {
+            setStartTime(data.callingWindow?.startTime || "");
+            setEndTime(data.callingWindow?.endTime || "");
+            setBlackoutDates(data.blackoutDates || []);
+            setTelephonyProvider(data.telephonyProvider || "exotel");
+        }
+    }, [data]);
+
+    const addBlackoutDate = () => {
+        if (!newDate || blackoutDates.some(b => b.date === newDate)) return;
+        setBlackoutDates([...blackoutDates, { date: newDate, label: newLabel.trim() || undefined }].sort((a, b) => a.date.localeCompare(b.date)));
+        setNewDate("");
+        setNewLabel("");
+    };
+
+    const onSave = async () => {
+        setSaving(true);
+        setError(null);
+        setSaved(false);
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/settings/calling`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ callingWindow: { startTime, endTime }, blackoutDates, telephonyProvider }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || "Failed to save settings");
+            await mutate(result, false);
+            setSaved(true);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const fadeInUpVariant = { hidden: { opacity: 0, y: 20 }, visible: { opacity: 1, y: 0, transition: { duration: 0.4 } } };
+
+    return (
+        <div className="min-h-screen text-foreground flex bg-[#111111]">
+            <main className="flex-1 overflow-y-auto h-screen">
+                <DashboardHeader />
+                <div className="container mx-auto px-4 sm:px-6 py-8 max-w-3xl">
+                    <div className="mb-8 text-[#F3FFD4]">
+                        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Settings</h1>
+                        <p className="text-[#A7A7A7] mt-1">Account-wide rules for outbound calling, and the agents that answer your numbers.</p>
+                    </div>
+
+                    {isLoading || !user ? (
+                        <div className="space-y-6">
+                            <Skeleton className="h-40 w-full bg-[#333333]" />
+                            <Skeleton className="h-64 w-full bg-[#333333]" />
+                        </div>
+                    ) : (
+                        <motion.div initial="hidden" animate="visible" variants={fadeInUpVariant} className="space-y-6">
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><Clock className="h-5 w-5 text-[#A7B3AC]" /> Calling Hours</CardTitle>
+                                    <CardDescription className="text-[#A7A7A7]">
+                                        Calls are only placed between these times in the contact&apos;s local timezone (taken from the contact, or inferred from the phone number&apos;s country code).
+                                        Campaigns with their own daily hours use those instead. Leave both empty to allow any time.
+                                    </CardDescription>
+                                </CardHeader>
+                                <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label className="text-[#A7A7A7]">From</Label>
+                                        <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className="bg-[#222222] border-[#333333] text-[#F3FFD4]" />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label className="text-[#A7A7A7]">Until</Label>
+                                        <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className="bg-[#222222] border-[#333333] text-[#F3FFD4]" />
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><CalendarOff className="h-5 w-5 text-[#A7B3AC]" /> Blackout Dates</CardTitle>
+                                    <CardDescription className="text-[#A7A7A7]">No outbound calls on these days (e.g. public holidays). Scheduled and campaign calls are moved to the next allowed day.</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="flex flex-col sm:flex-row gap-2">
+                                        <Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} className="bg-[#222222] border-[#333333] text-[#F3FFD4] sm:w-48" />
+                                        <Input placeholder="Label (optional), e.g. Diwali" value={newLabel} onChange={(e) => setNewLabel(e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50" />
+                                        <Button type="button" variant="outline" className="border-[#333] hover:bg-[#333] gap-2" onClick={addBlackoutDate} disabled={!newDate}>
+                                            <Plus className="h-4 w-4" /> Add
+                                        </Button>
+                                    </div>
+                                    {blackoutDates.length === 0 ? (
+                                        <p className="text-sm text-[#A7A7A7]">No blackout dates.</p>
+                                    ) : (
+                                        <div className="divide-y divide-[#333333] border border-[#333333] rounded-lg">
+                                            {blackoutDates.map((b) => (
+                                                <div key={b.date} className="flex items-center justify-between px-4 py-2">
+                                                    <div>
+                                                        <span className="text-[#F3FFD4]">{format(new Date(`${b.date}T00:00:00`), "EEE, MMM d, yyyy")}</span>
+                                                        {b.label && <span className="text-sm text-[#A7A7A7] ml-2">{b.label}</span>}
+                                                    </div>
+                                                    <Button variant="ghost" size="icon" className="h-8 w-8 text-[#A7A7A7] hover:bg-[#333333] hover:text-red-400" onClick={() => setBlackoutDates(blackoutDates.filter(d => d.date !== b.date))}>
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </CardContent>
+                            </Card>
+
+                            <Card className="bg-[#1a1a1a] border-[#333333]">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><Phone className="h-5 w-5 text-[#A7B3AC]" /> Telephony Provider</CardTitle>
+                                    <CardDescription className="text-[#A7A7A7]">Outbound calls are placed through this provider unless an agent picks its own in its settings.</CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <Select value={telephonyProvider} onValueChange={(value) => setTelephonyProvider(value as CallingSettings["telephonyProvider"])}>
+                                        <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4] sm:w-64"><SelectValue /></SelectTrigger>
+                                        <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                                            <SelectItem value="exotel">Exotel</SelectItem>
+                                            <SelectItem value="twilio">Twilio</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </CardContent>
+                            </Card>
+
+                            {error && (
+                                <div className="text-red-400 bg-red-500/10 p-4 rounded-lg border border-red-500/20 flex items-center gap-2">
+                                    <AlertCircle className="h-4 w-4" /> {error}
+                                </div>
+                            )}
+
+                            <div className="flex items-center justify-end gap-4">
+                                {saved && <span className="text-sm text-green-400 flex items-center gap-1"><CheckCircle className="h-4 w-4" /> Saved</span>}
+                                <Button className="bg-[#A7B3AC] text-[#111] hover:bg-[#A7B3AC]/90 font-bold" onClick={onSave} disabled={saving}>
+                                    {saving ? <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Saving...</> : "Save Settings"}
+                                </Button>
+                            </div>
+
+                            <InboundNumbersCard />
+                            <DoNotCallCard />
+                            <RedactionCard />
+                            <OutcomesCard />
+                        </motion.div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
+
+/**
+ * Assigns Exotel numbers to agents. Changes apply immediately, independent of "Save Settings".
+ */
+function InboundNumbersCard() {
+    const { data, mutate } = useSWR<{ phoneNumbers: InboundNumber[] }>("/api/settings/phone-numbers", fetcher);
+    const { data: agentsData } = useSWR<{ agents: AgentOption[] }>("/api/getAgents", fetcher);
+    const agents = agentsData?.agents || [];
+
+    const [phoneNumber, setPhoneNumber] = useState("");
+    const [agentId, setAgentId] = useState("");
+    const [label, setLabel] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const request = async (url: string, init: RequestInit) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}${url}`, { headers: { "Content-Type": "application/json" }, ...init });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || "Request failed");
+            await mutate();
+            return true;
+        } catch (err: any) {
+            setError(err.message);
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const addNumber = async () => {
+        const ok = await request("/api/settings/phone-numbers", { method: "POST", body: JSON.stringify({ phoneNumber, agentId, label: label.trim() || undefined }) });
+        if (ok) {
+            setPhoneNumber("");
+            setLabel("");
+        }
+    };
+
+    const phoneNumbers = data?.phoneNumbers || [];
+
+    return (
+        <Card className="bg-[#1a1a1a] border-[#333333]">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><PhoneIncoming className="h-5 w-5 text-[#A7B3AC]" /> Inbound Numbers</CardTitle>
+                <CardDescription className="text-[#A7A7A7]">
+                    Calls to these Exotel numbers are answered by the assigned agent. Point the number&apos;s call flow at <code className="text-[#F3FFD4]">/api/exotel/inbound</code>.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <Input placeholder="Exotel number" value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 sm:w-44" />
+                    <Select value={agentId} onValueChange={setAgentId}>
+                        <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4] sm:w-48"><SelectValue placeholder="Select agent" /></SelectTrigger>
+                        <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                            {agents.map(a => <SelectItem key={a.agent_id} value={a.agent_id}>{a.name}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                    <Input placeholder="Label (optional)" value={label} onChange={(e) => setLabel(e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50" />
+                    <Button type="button" variant="outline" className="border-[#333] hover:bg-[#333] gap-2" onClick={addNumber} disabled={!phoneNumber || !agentId || busy}>
+                        <Plus className="h-4 w-4" /> Add
+                    </Button>
+                </div>
+
+                {phoneNumbers.length === 0 ? (
+                    <p className="text-sm text-[#A7A7A7]">No inbound numbers yet.</p>
+                ) : (
+                    <div className="divide-y divide-[#333333] border border-[#333333] rounded-lg">
+                        {phoneNumbers.map((n) => (
+                            <div key={n._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-4 py-2">
+                                <div>
+                                    <span className="text-[#F3FFD4]">{n.phoneNumber}</span>
+                                    {n.label && <span className="text-sm text-[#A7A7A7] ml-2">{n.label}</span>}
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <Select value={n.agentId?.agentId || ""} onValueChange={(value) => request(`/api/settings/phone-numbers/${n._id}`, { method: "PUT", body: JSON.stringify({ agentId: value }) })}>
+                                        <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4] w-44 h-8"><SelectValue placeholder="Agent missing" /></SelectTrigger>
+                                        <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                                            {agents.map(a => <SelectItem key={a.agent_id} value={a.agent_id}>{a.name}</SelectItem>)}
+                                        </SelectContent>
+                                    </Select>
+                                    <Switch checked={n.enabled} disabled={busy} onCheckedChange={(checked) => request(`/api/settings/phone-numbers/${n._id}`, { method: "PUT", body: JSON.stringify({ enabled: checked }) })} />
+                                    <Button variant="ghost" size="icon" className="h-8 w-8 text-[#A7A7A7] hover:bg-[#333333] hover:text-red-400" disabled={busy} onClick={() => request(`/api/settings/phone-numbers/${n._id}`, { method: "DELETE" })}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {error && (
+                    <div className="text-red-400 bg-red-500/10 p-3 rounded-lg border border-red-500/20 flex items-center gap-2 text-sm">
+                        <AlertCircle className="h-4 w-4" /> {error}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+/**
+ * The account's do-not-call registry: numbers added by hand, from uploaded scrub lists,
+ * from contacts, call outcomes and NDNC rejections, plus the dial attempts it stopped.
+ */
+function DoNotCallCard() {
+    const [search, setSearch] = useState("");
+    const { data, mutate } = useSWR<{ entries: DncEntry[]; total: number }>(`/api/settings/dnc?search=${encodeURIComponent(search)}`, fetcher);
+    const { data: blockedData } = useSWR<{ blockedDials: BlockedDial[] }>("/api/settings/dnc/blocked?limit=10", fetcher);
+
+    const [phoneNumber, setPhoneNumber] = useState("");
+    const [reason, setReason] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const request = async (url: string, init: RequestInit) => {
+        setBusy(true);
+        setError(null);
+        setNotice(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}${url}`, init);
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || "Request failed");
+            await mutate();
+            return result;
+        } catch (err: any) {
+            setError(err.message);
+            return null;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const addNumber = async () => {
+        const result = await request("/api/settings/dnc", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ phoneNumber, reason: reason.trim() || undefined }),
+        });
+        if (result) {
+            setPhoneNumber("");
+            setReason("");
+        }
+    };
+
+    const uploadList = async (file: File) => {
+        const formData = new FormData();
+        formData.append("file", file);
+        const result = await request("/api/settings/dnc/upload", { method: "POST", body: formData });
+        if (result) {
+            const { alreadyListed, invalid } = result.results;
+            setNotice(`${result.message}${alreadyListed ? ` ${alreadyListed} already listed.` : ""}${invalid ? ` ${invalid} invalid row(s) skipped.` : ""}`);
+        }
+    };
+
+    const entries = data?.entries || [];
+    const blockedDials = blockedData?.blockedDials || [];
+
+    return (
+        <Card className="bg-[#1a1a1a] border-[#333333]">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><PhoneOff className="h-5 w-5 text-[#A7B3AC]" /> Do Not Call</CardTitle>
+                <CardDescription className="text-[#A7A7A7]">
+                    Numbers on this list are never dialed, whether from a single call, a batch, a campaign or a scheduled call. Upload a CSV or a plain list of numbers to scrub against a registry.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <Input placeholder="Phone number" value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 sm:w-44" />
+                    <Input placeholder="Reason (optional)" value={reason} onChange={(e) => setReason(e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50" />
+                    <Button type="button" variant="outline" className="border-[#333] hover:bg-[#333] gap-2" onClick={addNumber} disabled={!phoneNumber || busy}>
+                        <Plus className="h-4 w-4" /> Add
+                    </Button>
+                    <Button type="button" variant="outline" className="border-[#333] hover:bg-[#333] gap-2" disabled={busy} asChild>
+                        <label className="cursor-pointer">
+                            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />} Upload list
+                            <input type="file" accept=".csv,.txt" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ""; if (file) uploadList(file); }} />
+                        </label>
+                    </Button>
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                    <Input placeholder="Search numbers" value={search} onChange={(e) => setSearch(e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 sm:w-64" />
+                    <span className="text-sm text-[#A7A7A7]">{data?.total ?? 0} number(s)</span>
+                </div>
+
+                {entries.length === 0 ? (
+                    <p className="text-sm text-[#A7A7A7]">No numbers on the list.</p>
+                ) : (
+                    <div className="divide-y divide-[#333333] border border-[#333333] rounded-lg max-h-80 overflow-y-auto">
+                        {entries.map((entry) => (
+                            <div key={entry._id} className="flex items-center justify-between gap-2 px-4 py-2">
+                                <div>
+                                    <span className="text-[#F3FFD4]">{entry.phoneNumber}</span>
+                                    <span className="text-xs text-[#A7A7A7] ml-2 border border-[#333333] rounded px-1.5 py-0.5">{DNC_SOURCE_LABELS[entry.source]}</span>
+                                    {entry.reason && <span className="text-sm text-[#A7A7A7] ml-2">{entry.reason}</span>}
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <span className="text-xs text-[#A7A7A7]">{format(new Date(entry.createdAt), "dd MMM yyyy")}</span>
+                                    <Button variant="ghost" size="icon" className="h-8 w-8 text-[#A7A7A7] hover:bg-[#333333] hover:text-red-400" disabled={busy} onClick={() => request(`/api/settings/dnc/${entry._id}`, { method: "DELETE" })}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {blockedDials.length > 0 && (
+                    <div className="space-y-2">
+                        <Label className="text-[#A7A7A7]">Recently blocked calls</Label>
+                        <div className="divide-y divide-[#333333] border border-[#333333] rounded-lg text-sm">
+                            {blockedDials.map((b) => (
+                                <div key={b._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 px-4 py-2">
+                                    <span className="text-[#F3FFD4]">{b.phoneNumber} <span className="text-[#A7A7A7]">({b.path})</span></span>
+                                    <span className="text-[#A7A7A7]">{b.reason} · {format(new Date(b.createdAt), "dd MMM, HH:mm")}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {notice && (
+                    <div className="text-green-400 bg-green-500/10 p-3 rounded-lg border border-green-500/20 flex items-center gap-2 text-sm">
+                        <CheckCircle className="h-4 w-4" /> {notice}
+                    </div>
+                )}
+                {error && (
+                    <div className="text-red-400 bg-red-500/10 p-3 rounded-lg border border-red-500/20 flex items-center gap-2 text-sm">
+                        <AlertCircle className="h-4 w-4" /> {error}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+/**
+ * What personal data is masked in stored transcripts, summaries and exports, and
+ * whether the unredacted text is kept encrypted. Changes apply immediately.
+ */
+function RedactionCard() {
+    const { data, mutate } = useSWR<{ redaction: RedactionSettings }>("/api/settings/redaction", fetcher);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const redaction = data?.redaction;
+
+    const update = async (changes: Partial<RedactionSettings>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/settings/redaction`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(changes),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || "Failed to save redaction settings");
+            await mutate({ redaction: result.redaction }, false);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const toggleCategory = (category: RedactionCategory, checked: boolean) => {
+        if (!redaction) return;
+        const categories = checked ? [...redaction.categories, category] : redaction.categories.filter(c => c !== category);
+        update({ categories });
+    };
+
+    return (
+        <Card className="bg-[#1a1a1a] border-[#333333]">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><ShieldCheck className="h-5 w-5 text-[#A7B3AC]" /> PII Redaction</CardTitle>
+                <CardDescription className="text-[#A7A7A7]">
+                    Masks personal data in call transcripts and summaries before they are saved. Call history and exports only ever show the redacted text.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {!redaction ? (
+                    <Skeleton className="h-24 w-full bg-[#333333]" />
+                ) : (
+                    <>
+                        <div className="flex items-center justify-between">
+                            <Label className="text-[#F3FFD4]">Redact personal data</Label>
+                            <Switch checked={redaction.enabled} disabled={busy} onCheckedChange={(checked) => update({ enabled: checked })} />
+                        </div>
+
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            {(Object.keys(REDACTION_CATEGORY_LABELS) as RedactionCategory[]).map(category => (
+                                <label key={category} className="flex items-center gap-2 text-sm text-[#A7A7A7]">
+                                    <Checkbox
+                                        checked={redaction.categories.includes(category)}
+                                        disabled={busy || !redaction.enabled || (redaction.categories.length === 1 && redaction.categories.includes(category))}
+                                        onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                                    />
+                                    {REDACTION_CATEGORY_LABELS[category]}
+                                </label>
+                            ))}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label className="text-[#A7A7A7]">Unredacted originals</Label>
+                            <Select value={redaction.originals} disabled={busy || !redaction.enabled} onValueChange={(value) => update({ originals: value as RedactionSettings["originals"] })}>
+                                <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4] sm:w-80"><SelectValue /></SelectTrigger>
+                                <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                                    <SelectItem value="discard">Discard (keep only the redacted copy)</SelectItem>
+                                    <SelectItem value="encrypt">Keep encrypted, viewable by admins only</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </>
+                )}
+
+                {error && (
+                    <div className="text-red-400 bg-red-500/10 p-3 rounded-lg border border-red-500/20 flex items-center gap-2 text-sm">
+                        <AlertCircle className="h-4 w-4" /> {error}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+/**
+ * The outcomes calls are classified into. Account-wide outcomes apply to every agent;
+ * an agent's own outcome replaces the account-wide one of the same name for that agent.
+ */
+function OutcomesCard() {
+    const { data, mutate } = useSWR<{ outcomes: OutcomeDefinition[] }>("/api/settings/outcomes", fetcher);
+    const { data: agentsData } = useSWR<{ agents: AgentOption[] }>("/api/getAgents", fetcher);
+    const agents = agentsData?.agents || [];
+
+    const [name, setName] = useState("");
+    const [description, setDescription] = useState("");
+    const [color, setColor] = useState("#6b7280");
+    const [agentId, setAgentId] = useState("all");
+    const [countsAsSuccess, setCountsAsSuccess] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const request = async (url: string, init: RequestInit) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}${url}`, { headers: { "Content-Type": "application/json" }, ...init });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.message || "Request failed");
+            await mutate();
+            return true;
+        } catch (err: any) {
+            setError(err.message);
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const addOutcome = async () => {
+        const ok = await request("/api/settings/outcomes", {
+            method: "POST",
+            body: JSON.stringify({ name, description, color, countsAsSuccess, agentId: agentId === "all" ? undefined : agentId }),
+        });
+        if (ok) {
+            setName("");
+            setDescription("");
+            setCountsAsSuccess(false);
+        }
+    };
+
+    const updateOutcome = (id: string, fields: Partial<OutcomeDefinition>) =>
+        request(`/api/settings/outcomes/${id}`, { method: "PUT", body: JSON.stringify(fields) });
+
+    const outcomes = data?.outcomes || [];
+
+    return (
+        <Card className="bg-[#1a1a1a] border-[#333333]">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-[#F3FFD4]"><Target className="h-5 w-5 text-[#A7B3AC]" /> Call Outcomes</CardTitle>
+                <CardDescription className="text-[#A7A7A7]">
+                    Each finished call is classified into one of these outcomes from its summary, so describe when each applies. Outcomes marked as a success count towards campaign success rates.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <Input placeholder="Name, e.g. payment_promised" value={name} onChange={(e) => setName(e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50" />
+                    <Select value={agentId} onValueChange={setAgentId}>
+                        <SelectTrigger className="bg-[#222222] border-[#333333] text-[#F3FFD4]"><SelectValue /></SelectTrigger>
+                        <SelectContent className="bg-[#1a1a1a] border-[#333333]">
+                            <SelectItem value="all">All agents</SelectItem>
+                            {agents.map(a => <SelectItem key={a.agent_id} value={a.agent_id}>{a.name}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                    <Input placeholder="When does this outcome apply?" value={description} onChange={(e) => setDescription(e.target.value)} className="bg-[#222222] border-[#333333] placeholder:text-[#A7A7A7]/50 sm:col-span-2" />
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-[#A7A7A7]">
+                        <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="h-8 w-10 rounded border border-[#333333] bg-transparent" />
+                        Colour
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-[#A7A7A7]">
+                        <Switch checked={countsAsSuccess} onCheckedChange={setCountsAsSuccess} />
+                        Counts as success
+                    </label>
+                    <Button type="button" variant="outline" className="border-[#333] hover:bg-[#333] gap-2 ml-auto" onClick={addOutcome} disabled={!name.trim() || !description.trim() || busy}>
+                        <Plus className="h-4 w-4" /> Add Outcome
+                    </Button>
+                </div>
+
+                {outcomes.length === 0 ? (
+                    <p className="text-sm text-[#A7A7A7]">No outcomes yet.</p>
+                ) : (
+                    <div className="divide-y divide-[#333333] border border-[#333333] rounded-lg">
+                        {outcomes.map((o) => (
+                            <div key={o._id} className="flex flex-col sm:flex-row sm:items-center gap-3 px-4 py-2">
+                                <input
+                                    type="color"
+                                    defaultValue={o.color}
+                                    disabled={busy}
+                                    onBlur={(e) => e.target.value !== o.color && updateOutcome(o._id, { color: e.target.value })}
+                                    className="h-6 w-8 shrink-0 rounded border border-[#333333] bg-transparent"
+                                />
+                                <div className="flex-1 min-w-0 space-y-1">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-[#F3FFD4] font-medium">{o.name.replace(/_/g, " ")}</span>
+                                        <span className="text-xs text-[#A7A7A7] border border-[#333333] rounded px-1.5">{o.agentId ? o.agentId.name : "All agents"}</span>
+                                    </div>
+                                    <Input
+                                        defaultValue={o.description}
+                                        disabled={busy}
+                                        onBlur={(e) => e.target.value.trim() && e.target.value !== o.description && updateOutcome(o._id, { description: e.target.value })}
+                                        className="bg-[#222222] border-[#333333] h-8 text-sm"
+                                    />
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-[#A7A7A7] shrink-0">
+                                    <Switch checked={o.countsAsSuccess} disabled={busy} onCheckedChange={(checked) => updateOutcome(o._id, { countsAsSuccess: checked })} />
+                                    Success
+                                </label>
+                                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-[#A7A7A7] hover:bg-[#333333] hover:text-red-400" disabled={busy} onClick={() => request(`/api/settings/outcomes/${o._id}`, { method: "DELETE" })}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {error && (
+                    <div className="text-red-400 bg-red-500/10 p-3 rounded-lg border border-red-500/20 flex items-center gap-2 text-sm">
+                        <AlertCircle className="h-4 w-4" /> {error}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
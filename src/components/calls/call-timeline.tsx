@@ -0,0 +1,66 @@
+"use client";
+
+import useSWR from "swr";
+import { format } from "date-fns";
+import { Loader2, CircleDot, Ban } from "lucide-react";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
+const fetcher = (url: string) => fetch(`${API_BASE_URL}${url}`).then(res => {
+    if (!res.ok) {
+        throw new Error('Failed to fetch call events');
+    }
+    return res.json();
+});
+
+type CallEvent = {
+    _id: string;
+    type: 'transition' | 'rejected';
+    from: string;
+    to: string;
+    source: string;
+    reason?: string;
+    createdAt: string;
+};
+
+type CallEventsResponse = { createdAt: string; events: CallEvent[] };
+
+const formatSource = (source: string) => source.replace(/-/g, ' ');
+
+/**
+ * The call's status history: every transition with when and why it happened,
+ * plus transitions the call lifecycle refused (e.g. late provider callbacks).
+ */
+export function CallTimeline({ callId }: { callId: string }) {
+    const { data, error, isLoading } = useSWR<CallEventsResponse>(`/api/calls/${callId}/events`, fetcher);
+
+    if (isLoading) {
+        return <div className="flex items-center gap-2 text-sm text-[#A7A7A7]"><Loader2 className="h-4 w-4 animate-spin" /> Loading timeline...</div>;
+    }
+    if (error || !data) {
+        return <p className="text-sm text-red-400">Could not load the call timeline.</p>;
+    }
+
+    return (
+        <ol className="relative border-l border-[#333333] ml-2 space-y-4">
+            <li className="relative ml-4">
+                <CircleDot className="absolute -left-6 top-0.5 h-4 w-4 text-[#A7B3AC] bg-[#1a1a1a]" />
+                <p className="text-sm text-[#F3FFD4]">Call created</p>
+                <p className="text-xs text-[#A7A7A7]">{format(new Date(data.createdAt), "MMM d, yyyy HH:mm:ss")}</p>
+            </li>
+            {data.events.map(event => (
+                <li key={event._id} className="relative ml-4">
+                    {event.type === 'rejected'
+                        ? <Ban className="absolute -left-6 top-0.5 h-4 w-4 text-red-400 bg-[#1a1a1a]" />
+                        : <CircleDot className="absolute -left-6 top-0.5 h-4 w-4 text-[#A7B3AC] bg-[#1a1a1a]" />}
+                    <p className={`text-sm ${event.type === 'rejected' ? 'text-red-400' : 'text-[#F3FFD4]'}`}>
+                        {event.type === 'rejected' ? `Ignored ${event.from} → ${event.to}` : `${event.from} → ${event.to}`}
+                    </p>
+                    <p className="text-xs text-[#A7A7A7]">
+                        {format(new Date(event.createdAt), "MMM d, yyyy HH:mm:ss")} · {formatSource(event.source)}
+                    </p>
+                    {event.reason && <p className="text-xs text-[#A7A7A7] mt-0.5">{event.reason}</p>}
+                </li>
+            ))}
+        </ol>
+    );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Bot, User, Wrench, Scissors } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export type TranscriptTurn = {
+    role: 'agent' | 'user';
+    text: string;
+    startOffset: number;
+    toolCalls: { name: string; params?: string; result?: string; isError?: boolean }[];
+    interrupted: boolean;
+};
+
+const formatOffset = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+};
+
+// The turn being spoken at `time`: the last one that started at or before it
+function activeTurnIndex(turns: TranscriptTurn[], time: number) {
+    let active = -1;
+    turns.forEach((turn, i) => {
+        if (turn.startOffset <= time) active = i;
+    });
+    return active;
+}
+
+/**
+ * The conversation as a chat, highlighted along with the recording. Clicking a
+ * turn seeks playback to where it starts.
+ */
+export function CallTranscript({ turns, currentTime, onSeek }: { turns: TranscriptTurn[]; currentTime?: number; onSeek?: (seconds: number) => void }) {
+    const active = currentTime !== undefined && currentTime > 0 ? activeTurnIndex(turns, currentTime) : -1;
+    const activeRef = useRef<HTMLDivElement | null>(null);
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    }, [active]);
+
+    return (
+        <div className="space-y-3">
+            {turns.map((turn, i) => {
+                const isAgent = turn.role === 'agent';
+                return (
+                    <div key={i} ref={i === active ? activeRef : undefined} className={cn("flex gap-2", isAgent ? "justify-start" : "justify-end")}>
+                        {isAgent && <Bot className="h-5 w-5 mt-1 shrink-0 text-[#A7B3AC]" />}
+                        <button
+                            type="button"
+                            onClick={() => onSeek?.(turn.startOffset)}
+                            disabled={!onSeek}
+                            className={cn(
+                                "max-w-[80%] text-left rounded-lg px-3 py-2 border transition-colors",
+                                isAgent ? "bg-[#222222] border-[#333333]" : "bg-[#A7B3AC]/10 border-[#A7B3AC]/20",
+                                i === active && "ring-1 ring-[#A7B3AC]",
+                                onSeek && "hover:border-[#A7B3AC]/60 cursor-pointer"
+                            )}
+                        >
+                            {turn.text && <p className="text-sm text-[#F3FFD4] whitespace-pre-wrap">{turn.text}</p>}
+                            {turn.toolCalls.map((tool, j) => (
+                                <div key={j} className={cn("mt-1 flex items-center gap-1 text-xs", tool.isError ? "text-red-400" : "text-[#A7A7A7]")} title={[tool.params, tool.result].filter(Boolean).join("\n→ ")}>
+                                    <Wrench className="h-3 w-3" /> {tool.name}{tool.isError ? " (failed)" : ""}
+                                </div>
+                            ))}
+                            <div className="mt-1 flex items-center gap-2 text-[10px] text-[#A7A7A7]">
+                                <span>{formatOffset(turn.startOffset)}</span>
+                                {turn.interrupted && <span className="flex items-center gap-0.5 text-yellow-400"><Scissors className="h-3 w-3" /> Interrupted</span>}
+                            </div>
+                        </button>
+                        {!isAgent && <User className="h-5 w-5 mt-1 shrink-0 text-[#A7A7A7]" />}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,313 @@
+import Agent, { IAgent } from '@/models/agentModel';
+import KnowledgeDocument from '@/models/knowledgeModel';
+import { createAgent } from '@/lib/elevenLabs/agents/createAgent';
+import { syncAgentToElevenLabs } from '@/lib/agentSync';
+import { VERSIONED_AGENT_FIELDS } from '@/lib/agentVersions';
+
+const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY!;
+const ELEVENLABS_CONVAI_URL = 'https://api.elevenlabs.io/v1/convai';
+
+export const AGENT_BUNDLE_FORMAT = 'agent-bundle';
+
+// Bump when the bundle shape changes; older bundles must keep importing
+export const AGENT_BUNDLE_VERSION = 1;
+
+// Ids that only mean something in the exporting ElevenLabs workspace (tools and
+// knowledge are bundled separately and recreated), plus customLlm, which can hold
+// API keys and must never leave the account.
+const NON_PORTABLE_FIELDS = [
+  'toolIds', 'mcpServerIds', 'nativeMcpServerIds', 'knowledgeDocuments', 'pronunciationDictionaryLocators', 'customLlm',
+];
+
+export const BUNDLED_AGENT_FIELDS = [
+  ...VERSIONED_AGENT_FIELDS.filter(field => !NON_PORTABLE_FIELDS.includes(field)),
+  'systemTools', 'templateId', 'templateName',
+];
+
+const KNOWLEDGE_TYPES = ['file', 'url', 'text'];
+
+// Parts of a webhook tool's api_schema that carry credentials (or references to the
+// workspace's secrets); they are left out and have to be set up again after import
+const TOOL_CREDENTIAL_FIELDS = ['request_headers', 'auth_connection'];
+
+export interface BundleTool {
+  id: string; // ElevenLabs tool id in the exporting workspace
+  config: Record<string, any>; // ElevenLabs tool_config, without credentials
+  removedFields?: string[]; // Credential fields left out of config
+}
+
+export interface BundleKnowledgeDocument {
+  name: string;
+  type: 'file' | 'url' | 'text';
+  url?: string;
+  content?: string; // Text, or the text extracted from a file
+  fileName?: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+}
+
+export interface AgentBundle {
+  format: typeof AGENT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  agent: Record<string, any>;
+  tools: BundleTool[];
+  knowledgeDocuments: BundleKnowledgeDocument[];
+}
+
+export interface BundleImportResult {
+  agent: { _id: any; agentId: string; name: string };
+  tools: number;
+  knowledgeDocuments: number;
+  syncError?: string; // Created, but ElevenLabs could not be patched with every setting
+}
+
+async function convaiRequest(path: string, init: RequestInit = {}) {
+  const res = await fetch(`${ELEVENLABS_CONVAI_URL}${path}`, {
+    ...init,
+    headers: { 'xi-api-key': ELEVENLABS_API_KEY, ...init.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`ElevenLabs ${init.method || 'GET'} ${path} failed (${res.status}): ${await res.text()}`);
+  }
+  return res;
+}
+
+/**
+ * The tool's config without its credentials: the api_schema's headers and auth
+ * connection, plus anything else keyed as a secret.
+ */
+function exportToolConfig(config: Record<string, any>): { config: Record<string, any>; removedFields: string[] } {
+  const removedFields: string[] = [];
+  const strip = (value: any, path: string): any => {
+    if (Array.isArray(value)) return value.map((item, i) => strip(item, `${path}[${i}]`));
+    if (!value || typeof value !== 'object') return value;
+    const copy: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if ((path === 'api_schema' && TOOL_CREDENTIAL_FIELDS.includes(key)) || /secret/i.test(key)) {
+        removedFields.push(childPath);
+        continue;
+      }
+      copy[key] = strip(child, childPath);
+    }
+    return copy;
+  };
+  return { config: strip(config, ''), removedFields };
+}
+
+async function exportKnowledgeDocument(agent: IAgent, entry: any): Promise<BundleKnowledgeDocument> {
+  const local = await KnowledgeDocument.findOne({ userId: agent.userId, elevenLabsDocumentId: entry.document_id }).lean<any>();
+  const type = local?.type || entry.type;
+  const document: BundleKnowledgeDocument = {
+    name: local?.name || entry.name || entry.document_id,
+    type,
+    fileName: local?.fileName,
+    description: local?.description,
+    category: local?.category,
+    tags: local?.tags?.length ? local.tags : undefined,
+  };
+
+  if (type === 'url' && (local?.url || entry.url)) {
+    document.url = local?.url || entry.url;
+  } else if (type === 'text' && (local?.content || entry.content)) {
+    document.content = local?.content || entry.content;
+  } else {
+    // Files (and text we never stored) only live on ElevenLabs
+    const res = await convaiRequest(`/knowledge-base/${encodeURIComponent(entry.document_id)}/content`);
+    document.content = await res.text();
+  }
+  return document;
+}
+
+/**
+ * Builds a portable bundle of the agent: its configuration, the definitions of its
+ * ElevenLabs tools (without credentials) and its knowledge documents with their content. Throws when any of
+ * them cannot be read from ElevenLabs, rather than exporting an incomplete bundle.
+ */
+export async function exportAgentBundle(agent: IAgent): Promise<AgentBundle> {
+  const plain = agent.toObject();
+  const config: Record<string, any> = {};
+  for (const field of BUNDLED_AGENT_FIELDS) {
+    if (plain[field] !== undefined) config[field] = plain[field];
+  }
+
+  const tools: BundleTool[] = [];
+  for (const id of agent.toolIds || []) {
+    const tool = await (await convaiRequest(`/tools/${encodeURIComponent(id)}`)).json();
+    const { config, removedFields } = exportToolConfig(tool.tool_config || {});
+    tools.push({ id, config, ...(removedFields.length > 0 && { removedFields }) });
+  }
+
+  const knowledgeDocuments: BundleKnowledgeDocument[] = [];
+  for (const entry of agent.knowledgeDocuments || []) {
+    if (!entry?.document_id || !KNOWLEDGE_TYPES.includes(entry.type)) continue;
+    knowledgeDocuments.push(await exportKnowledgeDocument(agent, entry));
+  }
+
+  return {
+    format: AGENT_BUNDLE_FORMAT,
+    version: AGENT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    agent: config,
+    tools,
+    knowledgeDocuments,
+  };
+}
+
+/**
+ * Validates a bundle from a request body. Unknown agent fields are dropped, so a bundle
+ * can't set ownership, usage or sync state.
+ */
+export function parseAgentBundle(body: any): { bundle?: AgentBundle; error?: string } {
+  if (body?.format !== AGENT_BUNDLE_FORMAT) return { error: 'Not an agent bundle' };
+  if (!Number.isInteger(body.version) || body.version < 1) return { error: 'The bundle has no valid version' };
+  if (body.version > AGENT_BUNDLE_VERSION) {
+    return { error: `The bundle is version ${body.version}; this workspace reads up to version ${AGENT_BUNDLE_VERSION}` };
+  }
+  if (!body.agent || typeof body.agent !== 'object') return { error: 'The bundle has no agent configuration' };
+
+  const agent: Record<string, any> = {};
+  for (const field of BUNDLED_AGENT_FIELDS) {
+    if (body.agent[field] !== undefined) agent[field] = body.agent[field];
+  }
+
+  const tools = body.tools ?? [];
+  if (!Array.isArray(tools) || tools.some((t: any) => !t?.config || typeof t.config !== 'object')) {
+    return { error: 'Every bundled tool needs its config' };
+  }
+
+  const knowledgeDocuments = body.knowledgeDocuments ?? [];
+  if (!Array.isArray(knowledgeDocuments)) return { error: 'knowledgeDocuments must be a list' };
+  for (const doc of knowledgeDocuments) {
+    if (!doc?.name || !KNOWLEDGE_TYPES.includes(doc.type)) {
+      return { error: 'Every knowledge document needs a name and a type of file, url or text' };
+    }
+    if (doc.type === 'url' ? !doc.url : typeof doc.content !== 'string') {
+      return { error: `Knowledge document ${doc.name} has no ${doc.type === 'url' ? 'url' : 'content'}` };
+    }
+  }
+
+  return {
+    bundle: { format: AGENT_BUNDLE_FORMAT, version: body.version, exportedAt: body.exportedAt, agent, tools, knowledgeDocuments },
+  };
+}
+
+async function uploadKnowledgeDocument(doc: BundleKnowledgeDocument): Promise<string> {
+  const formData = new FormData();
+  if (doc.type === 'url') {
+    formData.append('url', doc.url!);
+  } else {
+    // File content was exported as extracted text, so it goes back up as a text file
+    const fileName = doc.type === 'file' ? `${(doc.fileName || doc.name).replace(/\.[^.]+$/, '')}.txt` : 'content.txt';
+    formData.append('file', new File([doc.content!], fileName, { type: 'text/plain' }));
+  }
+  formData.append('name', doc.name);
+
+  const data = await (await convaiRequest('/knowledge-base', { method: 'POST', body: formData })).json();
+  return data.id || data.document_id;
+}
+
+// Best effort: a resource we can't delete is logged rather than hiding the import error
+async function deleteCreatedResources(documentIds: string[], toolIds: string[]) {
+  const paths = [
+    ...documentIds.map(id => `/knowledge-base/${encodeURIComponent(id)}`),
+    ...toolIds.map(id => `/tools/${encodeURIComponent(id)}`),
+  ];
+  for (const path of paths) {
+    try {
+      await convaiRequest(path, { method: 'DELETE' });
+    } catch (error) {
+      console.error(`Bundle import: failed to clean up ${path}:`, error);
+    }
+  }
+}
+
+/**
+ * Recreates a bundled agent in the account: uploads its knowledge documents and tools
+ * to the account's ElevenLabs workspace, creates the agent through the createAgent
+ * service and then patches ElevenLabs with the settings createAgent doesn't send.
+ * If the agent can't be created, the documents and tools uploaded for it are deleted.
+ */
+export async function importAgentBundle(userId: any, bundle: AgentBundle, name?: string): Promise<BundleImportResult> {
+  const fields: Record<string, any> = { ...bundle.agent, name: name?.trim() || bundle.agent.name };
+
+  // Fail on a bad configuration before anything is created on ElevenLabs
+  await new Agent({ ...fields, userId, agentId: 'bundle-import' }).validate();
+
+  const knowledge: { doc: BundleKnowledgeDocument; documentId: string }[] = [];
+  const toolIds: string[] = [];
+  let agent_id: string;
+  try {
+    for (const doc of bundle.knowledgeDocuments) {
+      knowledge.push({ doc, documentId: await uploadKnowledgeDocument(doc) });
+    }
+    const knowledgeDocuments = knowledge.map(({ doc, documentId }) => ({
+      document_id: documentId,
+      name: doc.name,
+      type: doc.type,
+      content: doc.type === 'text' ? doc.content : undefined,
+      url: doc.url,
+      created_at: new Date(),
+    }));
+
+    for (const tool of bundle.tools) {
+      const created = await (await convaiRequest('/tools', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tool_config: tool.config }),
+      })).json();
+      toolIds.push(created.id);
+    }
+
+    ({ agent_id } = await createAgent({
+      ...fields,
+      userId,
+      toolIds,
+      knowledgeDocuments,
+      // createAgent builds the ElevenLabs payload from these names
+      first_message: fields.firstMessage,
+      system_prompt: fields.systemPrompt,
+      llm_model: fields.llmModel,
+      max_duration_seconds: fields.maxDurationSeconds,
+      knowledge_documents: knowledgeDocuments,
+    }));
+  } catch (error) {
+    await deleteCreatedResources(knowledge.map(k => k.documentId), toolIds);
+    throw error;
+  }
+  const agent = await Agent.findOne({ agentId: agent_id });
+
+  await KnowledgeDocument.insertMany(knowledge.map(({ doc, documentId }) => ({
+    userId,
+    name: doc.name,
+    type: doc.type,
+    content: doc.content,
+    url: doc.url,
+    fileName: doc.fileName,
+    description: doc.description,
+    category: doc.category,
+    tags: doc.tags || [],
+    elevenLabsDocumentId: documentId,
+    agentIds: [agent._id],
+  })));
+
+  const result: BundleImportResult = {
+    agent: { _id: agent._id, agentId: agent.agentId, name: agent.name },
+    tools: toolIds.length,
+    knowledgeDocuments: knowledge.length,
+  };
+
+  // createAgent only sends part of the configuration; the drift check will flag the
+  // rest if this fails
+  try {
+    const sync = await syncAgentToElevenLabs(agent);
+    agent.lastSyncedAt = sync.syncedAt;
+    await agent.save();
+  } catch (error: any) {
+    console.error(`Bundle import: failed to sync agent ${agent.agentId}:`, error);
+    result.syncError = error.message;
+  }
+  return result;
+}
@@ -0,0 +1,134 @@
+import connectDB from '@/lib/db';
+import Agent, { IAgent } from '@/models/agentModel';
+import { withJobLock } from '@/lib/jobLock';
+import { ensureBaselineVersion, recordAgentVersion } from '@/lib/agentVersions';
+import {
+  AGENT_FIELD_MAPPINGS,
+  AgentFieldChange,
+  applyRemoteFields,
+  diffAgentConfig,
+  fetchRemoteAgent,
+  pushAgentFields,
+} from '@/lib/agentSync';
+
+// How often each agent is compared with ElevenLabs by the reconciliation job
+const DRIFT_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const MAX_AGENTS_PER_RUN = 25;
+
+const DRIFT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+export type DriftAction = 'pull' | 'push';
+
+export interface DriftResolution {
+  field: string;
+  action: DriftAction; // pull = take the ElevenLabs value, push = send ours
+}
+
+export interface ReconcileResult {
+  checked: number;
+  drifted: number; // Agents with at least one differing field
+  failed: number; // ElevenLabs could not be read
+  skipped?: boolean; // Another instance was already reconciling
+}
+
+/**
+ * Compares the agent with its ElevenLabs copy and records the result on the agent.
+ */
+export async function checkAgentDrift(agent: IAgent): Promise<AgentFieldChange[]> {
+  try {
+    const changes = diffAgentConfig(agent, await fetchRemoteAgent(agent.agentId));
+    agent.driftedFields = changes.map(c => c.field);
+    agent.driftError = undefined;
+    return changes;
+  } catch (error: any) {
+    agent.driftError = error.message;
+    throw error;
+  } finally {
+    agent.driftCheckedAt = new Date();
+    await agent.save();
+  }
+}
+
+/**
+ * Validates per-field drift resolutions from a request body.
+ */
+export function parseDriftResolutions(body: any): { resolutions: DriftResolution[]; error?: string } {
+  if (!Array.isArray(body?.resolutions) || body.resolutions.length === 0) {
+    return { resolutions: [], error: 'resolutions must be a non-empty list of { field, action }' };
+  }
+  const synced = new Set(AGENT_FIELD_MAPPINGS.map(m => m.field as string));
+  const resolutions: DriftResolution[] = [];
+  for (const entry of body.resolutions) {
+    if (!synced.has(entry?.field)) return { resolutions, error: `Not a synced agent field: ${entry?.field}` };
+    if (entry.action !== 'pull' && entry.action !== 'push') {
+      return { resolutions, error: `action for ${entry.field} must be 'pull' or 'push'` };
+    }
+    resolutions.push({ field: entry.field, action: entry.action });
+  }
+  return { resolutions };
+}
+
+/**
+ * Settles drifted fields one by one: "pull" copies the ElevenLabs value onto our agent,
+ * "push" patches ours onto ElevenLabs. Returns the fields that still differ afterwards.
+ * Pulled values are recorded as a new agent version.
+ */
+export async function resolveAgentDrift(agent: IAgent, resolutions: DriftResolution[], authorId?: any): Promise<AgentFieldChange[]> {
+  const remote = await fetchRemoteAgent(agent.agentId);
+
+  const pull = resolutions.filter(r => r.action === 'pull').map(r => r.field);
+  const push = resolutions.filter(r => r.action === 'push').map(r => r.field);
+
+  if (pull.length > 0) await ensureBaselineVersion(agent);
+  applyRemoteFields(agent, remote, pull);
+  await agent.validate();
+  await pushAgentFields(agent, push);
+  if (push.length > 0) agent.lastSyncedAt = new Date();
+
+  // What we pushed now matches; everything else is compared against the fetched copy
+  const remaining = diffAgentConfig(agent, remote).filter(c => !push.includes(c.field));
+  agent.driftedFields = remaining.map(c => c.field);
+  agent.driftCheckedAt = new Date();
+  agent.driftError = undefined;
+  await agent.save();
+
+  if (pull.length > 0) {
+    await recordAgentVersion(agent, { authorId, source: 'pull', note: `Pulled from ElevenLabs: ${pull.join(', ')}` });
+  }
+  return remaining;
+}
+
+/**
+ * Compares agents with their ElevenLabs copies, oldest check first, and flags the
+ * ones that drifted. Meant to run from a cron job; runs under a Mongo lease so only
+ * one instance reconciles at a time. Nothing is changed on either side.
+ */
+export async function reconcileAgentDrift(now = new Date()): Promise<ReconcileResult> {
+  await connectDB();
+
+  const result: ReconcileResult = { checked: 0, drifted: 0, failed: 0 };
+
+  const ran = await withJobLock('agent-drift', DRIFT_LOCK_TTL_MS, async () => {
+    const agents = await Agent.find({
+      $or: [{ driftCheckedAt: null }, { driftCheckedAt: { $lte: new Date(now.getTime() - DRIFT_CHECK_INTERVAL_MS) } }],
+    })
+      .sort({ driftCheckedAt: 1 })
+      .limit(MAX_AGENTS_PER_RUN);
+
+    for (const agent of agents) {
+      try {
+        const changes = await checkAgentDrift(agent);
+        result.checked++;
+        if (changes.length > 0) result.drifted++;
+      } catch (error: any) {
+        console.error(`Agent drift: failed to check agent ${agent.agentId}:`, error);
+        result.failed++;
+      }
+    }
+    return true;
+  });
+
+  if (!ran) result.skipped = true;
+  return result;
+}
@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import Agent, { IAgent } from '@/models/agentModel';
+import User from '@/models/userModel';
+import KnowledgeDocument from '@/models/knowledgeModel';
+import { getDefaultSystemTools } from '@/lib/systemTools';
+import { agentFieldsFromRemote, fetchRemoteAgent, listRemoteAgents } from '@/lib/agentSync';
+import { recordAgentVersion } from '@/lib/agentVersions';
+
+const KNOWLEDGE_TYPES = ['file', 'url', 'text'];
+
+export interface ImportableAgent {
+  agentId: string; // ElevenLabs agent id
+  name: string;
+  createdAt?: Date;
+  imported: boolean; // Already an agent of this account
+}
+
+export interface AgentImportResult {
+  agentId: string;
+  ok: boolean;
+  agent?: { _id: any; agentId: string; name: string };
+  knowledgeDocuments?: number;
+  skippedFields?: string[]; // ElevenLabs values we don't support; our defaults were used
+  error?: string;
+}
+
+/**
+ * The account's claim tag, created on first use. Every account shares the platform's
+ * ElevenLabs key, so an agent only counts as the account's once it carries this tag.
+ */
+export async function getAgentClaimTag(userId: any): Promise<string> {
+  const user = await User.findById(userId).select('agentClaimTag');
+  if (user?.agentClaimTag) return user.agentClaimTag;
+
+  const tag = `claim-${crypto.randomBytes(8).toString('hex')}`;
+  await User.updateOne({ _id: userId, agentClaimTag: null }, { $set: { agentClaimTag: tag } });
+  // Another request may have set it first
+  const saved = await User.findById(userId).select('agentClaimTag');
+  return saved.agentClaimTag;
+}
+
+const hasTag = (remote: any, tag: string) => Array.isArray(remote?.tags) && remote.tags.includes(tag);
+
+/**
+ * The ElevenLabs agents the account may import (tagged with its claim tag) plus the
+ * ones it already imported. Agents of other accounts are never listed.
+ */
+export async function listImportableAgents(userId: any): Promise<{ agents: ImportableAgent[]; claimTag: string }> {
+  const claimTag = await getAgentClaimTag(userId);
+  const remote = await listRemoteAgents();
+  const existing = await Agent.find({ agentId: { $in: remote.map(a => a.agent_id) } }).select('agentId userId').lean<any[]>();
+  const owners = new Map(existing.map(a => [a.agentId, String(a.userId)]));
+
+  const agents = remote
+    .filter(a => (owners.has(a.agent_id) ? owners.get(a.agent_id) === String(userId) : hasTag(a, claimTag)))
+    .map(a => ({
+      agentId: a.agent_id,
+      name: a.name,
+      createdAt: a.created_at_unix_secs ? new Date(a.created_at_unix_secs * 1000) : undefined,
+      imported: owners.has(a.agent_id),
+    }));
+  return { agents, claimTag };
+}
+
+/**
+ * Links the agent's ElevenLabs knowledge base entries to KnowledgeDocument records,
+ * creating records for documents the account doesn't have yet.
+ */
+async function linkKnowledgeDocuments(agent: IAgent, entries: any[] = []) {
+  let linked = 0;
+  for (const entry of entries) {
+    if (!entry?.id || !KNOWLEDGE_TYPES.includes(entry.type)) continue;
+    await KnowledgeDocument.findOneAndUpdate(
+      { userId: agent.userId, elevenLabsDocumentId: entry.id },
+      {
+        $setOnInsert: { userId: agent.userId, elevenLabsDocumentId: entry.id, name: entry.name || entry.id, type: entry.type },
+        $addToSet: { agentIds: agent._id },
+      },
+      { upsert: true }
+    );
+    linked++;
+  }
+  return linked;
+}
+
+/**
+ * Creates an agent of the account from an existing ElevenLabs agent that carries the
+ * account's claim tag: maps its conversation_config onto IAgent fields, links its
+ * knowledge base and records the imported configuration as version 1. Nothing changes
+ * on ElevenLabs.
+ */
+export async function importElevenLabsAgent(userId: any, elevenLabsAgentId: string): Promise<AgentImportResult> {
+  // Deliberately the same answer for agents of other accounts, so ids can't be probed
+  const notClaimed = { agentId: elevenLabsAgentId, ok: false, error: 'Add your claim tag to the agent in the ElevenLabs console first' };
+
+  const existing = await Agent.findOne({ agentId: elevenLabsAgentId }).select('userId');
+  if (existing) {
+    return String(existing.userId) === String(userId) ? { agentId: elevenLabsAgentId, ok: false, error: 'Already imported' } : notClaimed;
+  }
+
+  const remote = await fetchRemoteAgent(elevenLabsAgentId);
+  if (!hasTag(remote, await getAgentClaimTag(userId))) return notClaimed;
+  const fields = agentFieldsFromRemote(remote);
+
+  // Required here but optional on ElevenLabs
+  const missing = [
+    !fields.voiceId && 'a voice',
+    !fields.firstMessage && 'a first message',
+    !fields.systemPrompt && 'a system prompt',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { agentId: elevenLabsAgentId, ok: false, error: `Set ${missing.join(', ')} on the ElevenLabs agent first` };
+  }
+
+  const now = new Date();
+  const agent = new Agent({
+    ...fields,
+    userId,
+    agentId: elevenLabsAgentId,
+    name: fields.name || remote.name || 'Imported agent',
+    systemTools: getDefaultSystemTools(),
+    lastSyncedAt: now,
+    driftedFields: [],
+    driftCheckedAt: now,
+  });
+
+  // Values outside what we support (e.g. an audio format we don't offer) fall back to
+  // our defaults; the drift check will then show them as differing
+  const skippedFields: string[] = [];
+  try {
+    await agent.validate();
+  } catch (error: any) {
+    if (error.name !== 'ValidationError') throw error;
+    for (const path of Object.keys(error.errors)) {
+      agent.set(path, undefined);
+      skippedFields.push(path);
+    }
+    agent.driftedFields = skippedFields;
+  }
+  await agent.save();
+
+  const knowledgeDocuments = await linkKnowledgeDocuments(agent, remote.conversation_config?.agent?.prompt?.knowledge_base);
+  await recordAgentVersion(agent, { authorId: userId, source: 'import', note: 'Imported from ElevenLabs' });
+
+  return {
+    agentId: elevenLabsAgentId,
+    ok: true,
+    agent: { _id: agent._id, agentId: agent.agentId, name: agent.name },
+    knowledgeDocuments,
+    skippedFields,
+  };
+}
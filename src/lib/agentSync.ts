@@ -0,0 +1,292 @@
+import { IAgent } from '@/models/agentModel';
+
+const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY!;
+const ELEVENLABS_AGENTS_URL = 'https://api.elevenlabs.io/v1/convai/agents';
+
+type AnyObj = Record<string, any>;
+
+/**
+ * How one IAgent field is stored on the ElevenLabs agent. `path` is a dot path into
+ * the agent's GET/PATCH payload; `toRemote`/`fromRemote` convert between our shape
+ * and theirs when they differ.
+ */
+export interface AgentFieldMapping {
+  field: keyof IAgent & string;
+  path: string;
+  toRemote?: (value: any) => any;
+  fromRemote?: (value: any) => any;
+}
+
+// Fields that only exist on our side: ownership, call handling and usage. ElevenLabs
+// also picks the ASR model and language itself, so asrModel/asrLanguage stay local.
+export const LOCAL_ONLY_AGENT_FIELDS = [
+  'userId', 'agentId', 'description', 'disabled', 'voiceName', 'templateId', 'templateName',
+  'tools', 'systemTools', 'asrModel', 'asrLanguage', 'retryPolicy', 'callbackDelayMinutes',
+  'telephonyProvider', 'usageMinutes', 'lastCalledAt', 'lastSyncedAt', 'driftedFields', 'driftCheckedAt',
+  'driftError', 'currentVersion', 'createdAt', 'updatedAt',
+] as const;
+
+const BUILT_IN_TOOLS: { field: keyof IAgent & string; tool: string }[] = [
+  { field: 'enableEndCall', tool: 'end_call' },
+  { field: 'enableLanguageDetection', tool: 'language_detection' },
+  { field: 'enableTransferToAgent', tool: 'transfer_to_agent' },
+  { field: 'enableTransferToNumber', tool: 'transfer_to_number' },
+  { field: 'enableSkipTurn', tool: 'skip_turn' },
+  { field: 'enableKeypadTouchTone', tool: 'play_keypad_touch_tone' },
+  { field: 'enableVoicemailDetection', tool: 'voicemail_detection' },
+];
+
+const PROMPT = 'conversation_config.agent.prompt';
+const RAG = `${PROMPT}.rag`;
+const TTS = 'conversation_config.tts';
+
+// -1 means "ElevenLabs default" for these, which the API expects as null
+const optionalNumber = (value: any) => (typeof value === 'number' && value > 0 ? value : null);
+const orNull = (value: any) => (value === undefined || value === '' ? null : value);
+
+export const AGENT_FIELD_MAPPINGS: AgentFieldMapping[] = [
+  { field: 'name', path: 'name' },
+
+  // Voice
+  { field: 'voiceId', path: `${TTS}.voice_id` },
+  { field: 'voiceStability', path: `${TTS}.stability` },
+  { field: 'voiceSimilarityBoost', path: `${TTS}.similarity_boost` },
+  { field: 'voiceSpeed', path: `${TTS}.speed` },
+  { field: 'outputAudioFormat', path: `${TTS}.agent_output_audio_format` },
+  { field: 'optimizeStreamingLatency', path: `${TTS}.optimize_streaming_latency`, fromRemote: Number },
+  {
+    field: 'supportedVoices',
+    path: `${TTS}.supported_voices`,
+    toRemote: (ids: string[] = []) => ids.map(voiceId => ({ label: voiceId, voice_id: voiceId })),
+    fromRemote: (voices: AnyObj[] = []) => voices.map(v => v.voice_id),
+  },
+  { field: 'pronunciationDictionaryLocators', path: `${TTS}.pronunciation_dictionary_locators`, toRemote: (v = []) => v },
+
+  // Conversation start and prompt
+  { field: 'firstMessage', path: 'conversation_config.agent.first_message' },
+  { field: 'disableFirstMessageInterruptions', path: 'conversation_config.agent.disable_first_message_interruptions' },
+  { field: 'language', path: 'conversation_config.agent.language' },
+  {
+    field: 'dynamicVariables',
+    path: 'conversation_config.agent.dynamic_variables.dynamic_variable_placeholders',
+    toRemote: (v = {}) => v,
+  },
+  { field: 'systemPrompt', path: `${PROMPT}.prompt` },
+  { field: 'ignoreDefaultPersonality', path: `${PROMPT}.ignore_default_personality` },
+  { field: 'timezone', path: `${PROMPT}.timezone`, toRemote: orNull },
+
+  // LLM
+  { field: 'llmModel', path: `${PROMPT}.llm` },
+  { field: 'temperature', path: `${PROMPT}.temperature` },
+  { field: 'maxTokens', path: `${PROMPT}.max_tokens`, toRemote: (v: any) => optionalNumber(v) ?? -1 },
+  { field: 'reasoningEffort', path: `${PROMPT}.reasoning_effort`, toRemote: orNull },
+  { field: 'customLlm', path: `${PROMPT}.custom_llm`, toRemote: orNull },
+
+  // Tools and knowledge
+  { field: 'toolIds', path: `${PROMPT}.tool_ids`, toRemote: (v = []) => v },
+  { field: 'mcpServerIds', path: `${PROMPT}.mcp_server_ids`, toRemote: (v = []) => v },
+  { field: 'nativeMcpServerIds', path: `${PROMPT}.native_mcp_server_ids`, toRemote: (v = []) => v },
+  {
+    field: 'knowledgeDocuments',
+    path: `${PROMPT}.knowledge_base`,
+    toRemote: (docs: AnyObj[] = []) =>
+      docs
+        .filter(d => d?.document_id || d?.id)
+        .map(d => ({ id: d.document_id ?? d.id, name: d.name, type: d.type, usage_mode: d.usage_mode ?? 'auto' })),
+    fromRemote: (docs: AnyObj[] = []) => docs.map(d => ({ document_id: d.id, name: d.name, type: d.type, usage_mode: d.usage_mode })),
+  },
+  ...BUILT_IN_TOOLS.map(({ field, tool }) => ({
+    field,
+    path: `${PROMPT}.built_in_tools.${tool}`,
+    toRemote: (enabled: any) => (enabled ? { type: 'system', name: tool, params: { system_tool_type: tool } } : null),
+    fromRemote: (value: any) => !!value,
+  })),
+
+  // RAG
+  { field: 'ragEnabled', path: `${RAG}.enabled` },
+  { field: 'embeddingModel', path: `${RAG}.embedding_model` },
+  { field: 'maxVectorDistance', path: `${RAG}.max_vector_distance` },
+  { field: 'maxDocumentsLength', path: `${RAG}.max_documents_length` },
+  { field: 'maxRetrievedRagChunksCount', path: `${RAG}.max_retrieved_rag_chunks_count` },
+
+  // ASR
+  { field: 'asrQuality', path: 'conversation_config.asr.quality' },
+  { field: 'asrProvider', path: 'conversation_config.asr.provider' },
+  { field: 'inputAudioFormat', path: 'conversation_config.asr.user_input_audio_format' },
+  { field: 'asrKeywords', path: 'conversation_config.asr.keywords', toRemote: (v = []) => v },
+
+  // Turn taking and call limits
+  { field: 'turnMode', path: 'conversation_config.turn.mode' },
+  { field: 'turnTimeout', path: 'conversation_config.turn.turn_timeout' },
+  { field: 'silenceEndCallTimeout', path: 'conversation_config.turn.silence_end_call_timeout' },
+  { field: 'backgroundVoiceDetection', path: 'conversation_config.vad.background_voice_detection' },
+  { field: 'maxDurationSeconds', path: 'conversation_config.conversation.max_duration_seconds' },
+  { field: 'textOnly', path: 'conversation_config.conversation.text_only' },
+  { field: 'clientEvents', path: 'conversation_config.conversation.client_events', toRemote: (v = []) => v },
+  { field: 'languagePresets', path: 'conversation_config.language_presets', toRemote: (v = {}) => v },
+];
+
+export interface AgentFieldChange {
+  field: string; // IAgent field
+  path: string; // Where it lives on the ElevenLabs agent
+  remote: any; // ElevenLabs value (before a sync), in our shape
+  local: any; // Our value
+}
+
+export interface AgentSyncResult {
+  changes: AgentFieldChange[]; // Pushed to ElevenLabs
+  drifted: string[]; // Differ from ElevenLabs but were left alone
+  syncedAt: Date;
+}
+
+function getPath(obj: AnyObj, path: string) {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), obj);
+}
+
+function setPath(obj: AnyObj, path: string, value: any) {
+  const keys = path.split('.');
+  let target = obj;
+  for (const key of keys.slice(0, -1)) {
+    target[key] = target[key] ?? {};
+    target = target[key];
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+// Key order and unset-vs-null differences are not changes
+export function stableStringify(value: any): string {
+  if (value === undefined || value === null) return 'null';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined && value[key] !== null)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+const plain = (value: any) => (value && typeof value.toObject === 'function' ? value.toObject() : value);
+const toRemoteValue = (mapping: AgentFieldMapping, value: any) => (mapping.toRemote ? mapping.toRemote(plain(value)) : plain(value) ?? null);
+const fromRemoteValue = (mapping: AgentFieldMapping, value: any) => (mapping.fromRemote ? mapping.fromRemote(value ?? undefined) : value);
+
+/**
+ * Compares our agent with the ElevenLabs one, field by field. Both sides go through
+ * the same conversion before comparing, so shape-only differences don't count.
+ */
+export function diffAgentConfig(agent: Partial<IAgent>, remote: AnyObj): AgentFieldChange[] {
+  const changes: AgentFieldChange[] = [];
+  for (const mapping of AGENT_FIELD_MAPPINGS) {
+    const local = plain((agent as AnyObj)[mapping.field]);
+    const remoteValue = fromRemoteValue(mapping, getPath(remote, mapping.path));
+    if (stableStringify(toRemoteValue(mapping, local)) === stableStringify(toRemoteValue(mapping, remoteValue))) continue;
+    changes.push({ field: mapping.field, path: mapping.path, remote: remoteValue ?? null, local: local ?? null });
+  }
+  return changes;
+}
+
+/**
+ * The PATCH body that sets the given fields on the ElevenLabs agent. Without
+ * `fields`, every synced field is included.
+ */
+export function buildAgentPatch(agent: Partial<IAgent>, fields?: string[]): AnyObj {
+  const patch: AnyObj = {};
+  for (const mapping of AGENT_FIELD_MAPPINGS) {
+    if (fields && !fields.includes(mapping.field)) continue;
+    setPath(patch, mapping.path, toRemoteValue(mapping, (agent as AnyObj)[mapping.field]));
+  }
+  return patch;
+}
+
+/**
+ * Copies the given fields from the ElevenLabs agent onto ours (not saved).
+ */
+export function applyRemoteFields(agent: IAgent, remote: AnyObj, fields: string[]) {
+  for (const mapping of AGENT_FIELD_MAPPINGS) {
+    if (!fields.includes(mapping.field)) continue;
+    const value = fromRemoteValue(mapping, getPath(remote, mapping.path));
+    agent.set(mapping.field, value ?? undefined);
+  }
+}
+
+/**
+ * Every synced field of an ElevenLabs agent, converted to our shape. Fields the
+ * ElevenLabs agent doesn't set are left out, so our defaults apply.
+ */
+export function agentFieldsFromRemote(remote: AnyObj): Partial<Record<keyof IAgent, any>> {
+  const fields: Partial<Record<keyof IAgent, any>> = {};
+  for (const mapping of AGENT_FIELD_MAPPINGS) {
+    const raw = getPath(remote, mapping.path);
+    if (raw === undefined || raw === null) continue;
+    fields[mapping.field] = fromRemoteValue(mapping, raw);
+  }
+  return fields;
+}
+
+/**
+ * Whether an update touches anything stored on ElevenLabs.
+ */
+export function isSyncedUpdate(updates: AnyObj) {
+  return AGENT_FIELD_MAPPINGS.some(mapping => updates[mapping.field] !== undefined);
+}
+
+async function elevenLabsRequest(path: string, init: RequestInit = {}) {
+  const res = await fetch(`${ELEVENLABS_AGENTS_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'xi-api-key': ELEVENLABS_API_KEY, ...init.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`ElevenLabs agent request failed – ${res.status} ${await res.text()}`);
+  }
+  return res.json();
+}
+
+export async function fetchRemoteAgent(elevenLabsAgentId: string): Promise<AnyObj> {
+  return elevenLabsRequest(`/${encodeURIComponent(elevenLabsAgentId)}`);
+}
+
+/**
+ * Lists every agent on the ElevenLabs API key, following pagination.
+ */
+export async function listRemoteAgents(): Promise<AnyObj[]> {
+  const agents: AnyObj[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await elevenLabsRequest(`?page_size=100${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`);
+    agents.push(...(page.agents || []));
+    cursor = page.has_more ? page.next_cursor : undefined;
+  } while (cursor);
+  return agents;
+}
+
+/**
+ * Sets the given fields of the ElevenLabs agent to our values.
+ */
+export async function pushAgentFields(agent: IAgent, fields: string[]) {
+  if (fields.length === 0) return;
+  await elevenLabsRequest(`/${encodeURIComponent(agent.agentId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(buildAgentPatch(agent, fields)),
+  });
+}
+
+/**
+ * Patches the ElevenLabs agent to match ours and returns what changed remotely.
+ * Only fields that differ are sent, and with `fields` only those among them; other
+ * differences (e.g. edits made in the ElevenLabs console) are reported as drifted.
+ * Throws when ElevenLabs cannot be read or rejects the patch, so callers can keep
+ * the two sides from drifting apart.
+ */
+export async function syncAgentToElevenLabs(agent: IAgent, fields?: string[]): Promise<AgentSyncResult> {
+  const remote = await fetchRemoteAgent(agent.agentId);
+  const differences = diffAgentConfig(agent, remote);
+  const changes = fields ? differences.filter(c => fields.includes(c.field)) : differences;
+
+  await pushAgentFields(agent, changes.map(c => c.field));
+  return {
+    changes,
+    drifted: differences.filter(c => !changes.includes(c)).map(c => c.field),
+    syncedAt: new Date(),
+  };
+}
@@ -0,0 +1,110 @@
+import Agent, { IAgent } from '@/models/agentModel';
+import AgentVersion, { IAgentVersion } from '@/models/agentVersionModel';
+import { AGENT_FIELD_MAPPINGS, stableStringify, syncAgentToElevenLabs } from '@/lib/agentSync';
+
+// Local settings that belong to the agent's configuration and are versioned along
+// with everything synced to ElevenLabs. `disabled` is on/off state, not config.
+const LOCAL_VERSIONED_FIELDS = [
+  'description', 'voiceName', 'asrModel', 'asrLanguage', 'tools', 'retryPolicy', 'callbackDelayMinutes', 'telephonyProvider',
+];
+
+export const VERSIONED_AGENT_FIELDS = [...AGENT_FIELD_MAPPINGS.map(m => m.field as string), ...LOCAL_VERSIONED_FIELDS];
+
+export interface AgentVersionChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+interface VersionDetails {
+  authorId?: any;
+  note?: string;
+  source?: IAgentVersion['source'];
+  restoredFromVersion?: number;
+}
+
+/**
+ * The agent's configuration as a plain object, as stored in AgentVersion.config.
+ */
+export function snapshotAgentConfig(agent: IAgent): Record<string, any> {
+  const plain = agent.toObject();
+  const config: Record<string, any> = {};
+  for (const field of VERSIONED_AGENT_FIELDS) {
+    if (plain[field] !== undefined) config[field] = plain[field];
+  }
+  return config;
+}
+
+/**
+ * Field-by-field differences between two config snapshots.
+ */
+export function diffAgentConfigs(from: Record<string, any>, to: Record<string, any>): AgentVersionChange[] {
+  return VERSIONED_AGENT_FIELDS
+    .filter(field => stableStringify(from[field]) !== stableStringify(to[field]))
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+/**
+ * Saves the agent's current configuration as its next version. Does nothing when the
+ * configuration is the same as the latest version, so saves without changes don't
+ * clutter the history.
+ */
+export async function recordAgentVersion(agent: IAgent, details: VersionDetails = {}): Promise<IAgentVersion | null> {
+  const config = snapshotAgentConfig(agent);
+  const latest = await AgentVersion.findOne({ agentId: agent._id }).sort({ version: -1 });
+  const changedFields = latest ? diffAgentConfigs(latest.config, config).map(c => c.field) : VERSIONED_AGENT_FIELDS.filter(f => f in config);
+  if (latest && changedFields.length === 0) return null;
+
+  // The counter on the agent hands out version numbers, so concurrent saves don't collide
+  const counter = await Agent.findOneAndUpdate({ _id: agent._id }, { $inc: { currentVersion: 1 } }, { new: true }).select('currentVersion');
+  const version = await AgentVersion.create({
+    agentId: agent._id,
+    userId: agent.userId,
+    version: counter.currentVersion,
+    config,
+    changedFields,
+    authorId: details.authorId,
+    note: details.note?.trim() || undefined,
+    source: details.source || 'edit',
+    restoredFromVersion: details.restoredFromVersion,
+  });
+  agent.currentVersion = counter.currentVersion;
+  return version;
+}
+
+/**
+ * Agents created before version history have no versions; snapshot them before their
+ * first tracked change so that change can be rolled back too.
+ */
+export async function ensureBaselineVersion(agent: IAgent) {
+  if (agent.currentVersion > 0) return;
+  await recordAgentVersion(agent, { source: 'baseline', note: 'Configuration before version history' });
+}
+
+/**
+ * Restores the agent to a saved version, patches ElevenLabs to match and records the
+ * result as a new version. Throws (and saves nothing) when ElevenLabs rejects it.
+ */
+export async function rollbackAgentToVersion(agent: IAgent, target: IAgentVersion, authorId?: any) {
+  await ensureBaselineVersion(agent);
+
+  for (const field of VERSIONED_AGENT_FIELDS) {
+    agent.set(field, target.config[field]);
+  }
+  await agent.validate();
+
+  const sync = await syncAgentToElevenLabs(agent);
+  agent.lastSyncedAt = sync.syncedAt;
+  // The push just compared both sides, so it counts as a drift check
+  agent.driftedFields = sync.drifted;
+  agent.driftCheckedAt = sync.syncedAt;
+  await agent.save();
+
+  const version = await recordAgentVersion(agent, {
+    authorId,
+    source: 'rollback',
+    note: `Rolled back to version ${target.version}`,
+    restoredFromVersion: target.version,
+  });
+  return { agent, sync, version };
+}
@@ -0,0 +1,142 @@
+import connectDB from '@/lib/db';
+import Call from '@/models/callModel';
+import Agent from '@/models/agentModel';
+import { resolveCallProvider } from '@/lib/telephony';
+import { finalizeCallAttempt } from '@/lib/callRetry';
+import { withJobLock } from '@/lib/jobLock';
+import { checkOutboundCallWindow, deferCallForWindow } from '@/lib/callingWindow';
+import { guardOutboundDial } from '@/lib/dnc';
+import { recordTransition, transitionCall } from '@/lib/callLifecycle';
+
+// Upper bound on calls dialed per dispatcher run, so one run stays short
+const MAX_CALLS_PER_RUN = 20;
+
+// How long one dispatcher run may hold the lease before another instance can take over
+const DISPATCH_LOCK_TTL_MS = 2 * 60 * 1000;
+
+// A claimed call that never got a provider CallSid within this time was lost mid-dial
+// (e.g. the instance crashed); it is failed rather than dialed again, since the provider may have placed it.
+const STALE_INITIATING_MS = 10 * 60 * 1000;
+
+export interface DispatchResult {
+  dialed: number;
+  failed: number;
+  deferred: number; // Due calls pushed back because the contact is outside calling hours
+  blocked: number; // Due calls canceled because the number is on the do-not-call list
+  recovered: number; // Stale 'initiating' calls marked failed
+  skipped?: boolean; // Another instance was already dispatching
+}
+
+/**
+ * Fails calls stuck in 'initiating' with no provider CallSid, so campaigns and
+ * retries are not blocked by them forever.
+ */
+async function failStaleInitiatingCalls(now: Date): Promise<number> {
+  const cutoff = new Date(now.getTime() - STALE_INITIATING_MS);
+  let recovered = 0;
+
+  for (;;) {
+    const reason = 'Dialing was interrupted before the provider accepted the call';
+    const call = await Call.findOneAndUpdate(
+      { status: 'initiating', exotelCallSid: null, twilioCallSid: null, callStartTime: { $lte: cutoff } },
+      { $set: { status: 'failed', failureReason: reason } },
+      { new: true }
+    );
+    if (!call) break;
+    await recordTransition(call._id, 'initiating', 'failed', { source: 'dispatcher', reason });
+
+    await finalizeCallAttempt(call, 'initiating');
+    recovered++;
+  }
+
+  return recovered;
+}
+
+async function dialDueCalls(now: Date, result: DispatchResult) {
+  for (let i = 0; i < MAX_CALLS_PER_RUN; i++) {
+    // The queued -> initiating claim is atomic, so even without the job lock a call is dialed at most once
+    const call = await Call.findOneAndUpdate(
+      { status: 'queued', campaignId: null, scheduledFor: { $lte: now } },
+      { $set: { status: 'initiating', callStartTime: new Date() } },
+      { sort: { scheduledFor: 1 }, new: true }
+    );
+    if (!call) break;
+    await recordTransition(call._id, 'queued', 'initiating', { source: 'dispatcher' });
+
+    const dnc = await guardOutboundDial({ userId: call.userId, phoneNumber: call.phoneNumber, path: 'scheduled', callId: call._id });
+    if (dnc.blocked) {
+      await transitionCall(call, 'canceled', { source: 'dnc', reason: `Do-not-call: ${dnc.reason}` });
+      await call.save();
+      result.blocked++;
+      continue;
+    }
+
+    const agent = await Agent.findById(call.agentId);
+    if (!agent || agent.disabled) {
+      await transitionCall(call, 'failed', { source: 'dispatcher', reason: agent ? 'Agent is disabled' : 'Agent not found' });
+      await call.save();
+      await finalizeCallAttempt(call, 'initiating');
+      result.failed++;
+      continue;
+    }
+
+    const provider = await resolveCallProvider(call, agent);
+    if (provider.isOwnNumber(call.phoneNumber)) {
+      await transitionCall(call, 'failed', { source: 'dispatcher', reason: "Cannot call the system's own caller ID." });
+      await call.save();
+      await finalizeCallAttempt(call, 'initiating');
+      result.failed++;
+      continue;
+    }
+
+    const windowCheck = await checkOutboundCallWindow({
+      userId: call.userId,
+      phoneNumber: call.phoneNumber,
+      contactId: call.contactId,
+      agentTimezone: agent.timezone,
+    });
+    if (!windowCheck.allowed) {
+      await deferCallForWindow(call, windowCheck);
+      result.deferred++;
+      continue;
+    }
+
+    try {
+      // Queued calls run with the agent's configuration at dial time
+      call.agentVersion = agent.currentVersion;
+      const dial = await provider.dial(call, agent.agentId);
+      if (dial.ok) {
+        result.dialed++;
+      } else {
+        await finalizeCallAttempt(call, 'initiating');
+        result.failed++;
+      }
+    } catch (error: any) {
+      console.error(`Dispatcher: failed to dial call ${call._id}:`, error);
+      await transitionCall(call, 'failed', { source: 'dispatcher', reason: `Dispatch error: ${error.message}` });
+      await call.save();
+      await finalizeCallAttempt(call, 'initiating');
+      result.failed++;
+    }
+  }
+}
+
+/**
+ * Dials queued calls outside of campaigns whose `scheduledFor` time has passed
+ * (scheduled calls and retries). Campaign calls are left to the campaign runner.
+ * Runs under a Mongo lease so only one instance dispatches at a time.
+ */
+export async function dispatchDueCalls(now = new Date()): Promise<DispatchResult> {
+  await connectDB();
+
+  const result: DispatchResult = { dialed: 0, failed: 0, deferred: 0, blocked: 0, recovered: 0 };
+
+  const ran = await withJobLock('call-dispatcher', DISPATCH_LOCK_TTL_MS, async () => {
+    result.recovered = await failStaleInitiatingCalls(now);
+    await dialDueCalls(now, result);
+    return true;
+  });
+
+  if (!ran) result.skipped = true;
+  return result;
+}
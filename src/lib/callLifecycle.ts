@@ -0,0 +1,115 @@
+import Call, { ICall } from '@/models/callModel';
+import CallEvent from '@/models/callEventModel';
+
+export type CallStatus = ICall['status'];
+
+/**
+ * The call state machine: the statuses a call may move to from each status.
+ * Final statuses have no way out, so late or duplicated provider callbacks
+ * cannot revive or overwrite a finished call.
+ */
+const ALLOWED_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  queued: ['initiating', 'canceled', 'failed'],
+  // Back to 'queued' when the calling window defers a claimed call
+  initiating: ['queued', 'ringing', 'answered', 'in-progress', 'connected', 'ended', 'failed', 'busy', 'no-answer', 'canceled'],
+  ringing: ['answered', 'in-progress', 'connected', 'ended', 'completed', 'failed', 'busy', 'no-answer', 'canceled'],
+  answered: ['in-progress', 'connected', 'ended', 'completed', 'failed'],
+  'in-progress': ['connected', 'ended', 'completed', 'failed'],
+  connected: ['in-progress', 'ended', 'completed', 'failed'],
+  ended: [],
+  completed: [],
+  failed: [],
+  busy: [],
+  'no-answer': [],
+  canceled: [],
+};
+
+export const CALL_STATUSES = Object.keys(ALLOWED_TRANSITIONS) as CallStatus[];
+
+export function isCallStatus(value: any): value is CallStatus {
+  return CALL_STATUSES.includes(value);
+}
+
+export function canTransition(from: CallStatus, to: CallStatus) {
+  return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+interface TransitionOptions {
+  source: string; // Who is changing the status, shown in the call's timeline
+  reason?: string; // Stored as the call's failureReason when moving to 'failed'
+}
+
+/**
+ * Records a status change that was already applied, e.g. by an atomic
+ * findOneAndUpdate claim that bypassed `transitionCall`.
+ */
+export async function recordTransition(callId: any, from: CallStatus, to: CallStatus, options: TransitionOptions) {
+  await CallEvent.create({ callId, type: 'transition', from, to, source: options.source, reason: options.reason });
+}
+
+/**
+ * Moves a call to a new status if the state machine allows it, and records the
+ * change in the call's event history. Illegal transitions are logged and recorded
+ * as rejected, and leave the call untouched. The caller saves the call.
+ * Returns true if the status changed.
+ */
+export async function transitionCall(call: ICall, to: CallStatus, options: TransitionOptions): Promise<boolean> {
+  const from = call.status;
+  if (from === to) return false;
+
+  if (!canTransition(from, to)) {
+    console.warn(`Call ${call._id}: rejected transition ${from} -> ${to} from ${options.source}`);
+    await CallEvent.create({ callId: call._id, type: 'rejected', from, to, source: options.source, reason: options.reason });
+    return false;
+  }
+
+  call.status = to;
+  if (to === 'failed' && options.reason) {
+    call.failureReason = options.reason;
+  }
+  await recordTransition(call._id, from, to, options);
+  return true;
+}
+
+/**
+ * Moves every call matching the filter from `from` to `to` (e.g. cancelling a
+ * campaign's queued calls) and records each change. Returns how many moved.
+ */
+export async function transitionMany(filter: Record<string, any>, from: CallStatus, to: CallStatus, options: TransitionOptions & { set?: Record<string, any> }) {
+  if (!canTransition(from, to)) {
+    throw new Error(`Illegal call transition ${from} -> ${to}`);
+  }
+
+  const calls = await Call.find({ ...filter, status: from }).select('_id');
+  if (calls.length === 0) return 0;
+
+  const ids = calls.map(c => c._id);
+  const set: Record<string, any> = { status: to, ...options.set };
+  if (to === 'failed' || to === 'canceled') set.failureReason = options.reason;
+  await Call.updateMany({ _id: { $in: ids }, status: from }, { $set: set });
+
+  // Only record the calls that actually moved (another process may have claimed some meanwhile)
+  const moved = await Call.find({ _id: { $in: ids }, status: to }).select('_id');
+  await CallEvent.insertMany(moved.map(c => ({ callId: c._id, type: 'transition', from, to, source: options.source, reason: options.reason })));
+  return moved.length;
+}
+
+/**
+ * The ElevenLabs conversation status reported at the end of a call, as a call status.
+ */
+export function mapElevenLabsStatus(status: string | undefined): CallStatus {
+  switch (status) {
+    case 'failed':
+      return 'failed';
+    default:
+      // 'done' and anything else reported by a "call ended" event
+      return 'ended';
+  }
+}
+
+/**
+ * A call's timeline, oldest first.
+ */
+export async function getCallEvents(callId: any) {
+  return CallEvent.find({ callId }).sort({ createdAt: 1 }).lean();
+}
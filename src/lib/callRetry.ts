@@ -0,0 +1,87 @@
+import Call, { ICall } from '@/models/callModel';
+import Agent from '@/models/agentModel';
+import Campaign from '@/models/campaignModel';
+import { IRetryPolicy, RetryableCallStatus } from '@/models/retryPolicy';
+import { recordCampaignCallResult, TERMINAL_CALL_STATUSES } from '@/lib/campaignRunner';
+
+/**
+ * Returns the retry policy that applies to a call: the campaign's policy if the
+ * call belongs to a campaign that defines one, otherwise the agent's.
+ */
+export async function resolveRetryPolicy(call: ICall): Promise<IRetryPolicy | null> {
+  if (call.campaignId) {
+    const campaign = await Campaign.findById(call.campaignId).select('retryPolicy status');
+    // No new attempts for campaigns that were stopped
+    if (!campaign || ['cancelled', 'completed'].includes(campaign.status)) return null;
+    if (campaign.retryPolicy) return campaign.retryPolicy;
+  }
+
+  if (call.agentId) {
+    const agent = await Agent.findById(call.agentId).select('retryPolicy');
+    if (agent?.retryPolicy) return agent.retryPolicy;
+  }
+
+  return null;
+}
+
+/**
+ * Queues the next attempt for a call that just ended as busy / no-answer / failed,
+ * if its retry policy allows it. The new call is scheduled through `scheduledFor`
+ * and linked to the original call via `retryOfCallId`.
+ * Returns the queued retry, or null if none was scheduled.
+ */
+export async function scheduleCallRetry(call: ICall, previousStatus: ICall['status']): Promise<ICall | null> {
+  // Only act on the first transition into a final status
+  if (TERMINAL_CALL_STATUSES.includes(previousStatus)) return null;
+  // A failed inbound call is not redialed; the contact called us
+  if (call.direction === 'inbound') return null;
+  if (!['busy', 'no-answer', 'failed'].includes(call.status)) return null;
+
+  const policy = await resolveRetryPolicy(call);
+  if (!policy || !policy.retryOn.includes(call.status as RetryableCallStatus)) return null;
+
+  const attemptNumber = call.attemptNumber || 1;
+  if (attemptNumber >= policy.maxAttempts) return null;
+
+  const originalCallId = call.retryOfCallId || call._id;
+  const existing = await Call.findOne({ retryOfCallId: originalCallId, attemptNumber: attemptNumber + 1 });
+  if (existing) return null;
+
+  const retry = await Call.create({
+    userId: call.userId,
+    agentId: call.agentId,
+    elevenLabsAgentId: call.elevenLabsAgentId,
+    agentName: call.agentName,
+    contactId: call.contactId,
+    campaignId: call.campaignId,
+    campaignVariant: call.campaignVariant,
+    phoneNumber: call.phoneNumber,
+    contactName: call.contactName,
+    customMessage: call.customMessage,
+    notes: call.notes,
+    status: 'queued',
+    scheduledFor: new Date(Date.now() + policy.backoffMinutes * 60 * 1000),
+    retryOfCallId: originalCallId,
+    attemptNumber: attemptNumber + 1,
+    maxAttempts: policy.maxAttempts,
+  });
+
+  // Keep the attempt count visible on the attempt that just finished as well
+  if (!call.maxAttempts) {
+    await Call.updateOne({ _id: call._id }, { $set: { maxAttempts: policy.maxAttempts } });
+  }
+
+  console.log(`Scheduled retry ${retry._id} (attempt ${retry.attemptNumber} of ${policy.maxAttempts}) for call ${call._id} at ${retry.scheduledFor?.toISOString()}`);
+  return retry;
+}
+
+/**
+ * Runs the follow-up work for a call whose status just changed: schedules a retry
+ * when the policy allows one, and otherwise records the final result on its campaign.
+ */
+export async function finalizeCallAttempt(call: ICall, previousStatus: ICall['status']) {
+  const retry = await scheduleCallRetry(call, previousStatus);
+  if (!retry) {
+    await recordCampaignCallResult(call, previousStatus);
+  }
+}
@@ -0,0 +1,164 @@
+import mongoose from 'mongoose';
+import Call from '@/models/callModel';
+
+// Fields snippets are taken from, in order; the Call text index also covers contactName
+export const CALL_TEXT_FIELDS = ['summary', 'transcription', 'notes', 'outcome'] as const;
+type CallTextField = (typeof CALL_TEXT_FIELDS)[number];
+
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+// Searches made only of digits and phone punctuation look for a number, not text
+const PHONE_SEARCH = /^[\d\s+()\-]+$/;
+
+export interface SearchSnippet {
+  field: CallTextField;
+  text: string;
+  matches: { start: number; length: number }[]; // Offsets into `text` to highlight
+}
+
+export interface CallSearch {
+  query: any;
+  textSearch: boolean; // Results should be sorted by relevance and carry snippets
+  terms: string[];
+  nameQuery?: any; // The same filters with a contact-name match in place of $text
+  error?: string;
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The words and quoted phrases of a search, as MongoDB's $text reads them.
+ * Negated terms ("-refund") are left out since they never appear in results.
+ */
+export function parseSearchTerms(search: string): string[] {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(search))) {
+    const negated = match[1] || match[3];
+    const term = (match[2] ?? match[4]).trim();
+    if (!negated && term.length > 1) terms.push(term);
+  }
+  return terms;
+}
+
+function parseRange(min: string | null, max: string | null, label: string): { range?: any; error?: string } {
+  const range: any = {};
+  for (const [key, value] of [['$gte', min], ['$lte', max]] as const) {
+    if (value === null || value === '') continue;
+    const number = Number(value);
+    if (isNaN(number) || number < 0) return { error: `Invalid ${label} filter: ${value}` };
+    range[key] = number;
+  }
+  return { range: Object.keys(range).length > 0 ? range : undefined };
+}
+
+/**
+ * Turns the call history query string into a Mongo filter: free-text search over
+ * summaries, transcripts, notes and outcomes (or a phone number), plus filters for
+ * status, agent, campaign, outcome, direction, dates, duration (seconds) and cost.
+ */
+export function buildCallSearch(userId: any, params: URLSearchParams): CallSearch {
+  const query: any = { userId };
+  let textSearch = false;
+  let terms: string[] = [];
+  let contactName: any;
+
+  const search = params.get('search')?.trim();
+  if (search) {
+    if (PHONE_SEARCH.test(search)) {
+      query.phoneNumber = { $regex: escapeRegex(search.replace(/[\s()\-]/g, '')) };
+    } else {
+      query.$text = { $search: search };
+      terms = parseSearchTerms(search);
+      textSearch = true;
+      contactName = { $regex: escapeRegex(search), $options: 'i' };
+    }
+  }
+
+  const status = params.get('status');
+  if (status) query.status = status;
+
+  const outcome = params.get('outcome');
+  if (outcome) query.outcome = outcome;
+
+  const direction = params.get('direction');
+  if (direction) query.direction = direction;
+
+  // Agents are identified by their ElevenLabs id in the API; our own _id also works
+  const agentId = params.get('agentId');
+  if (agentId) {
+    query[mongoose.Types.ObjectId.isValid(agentId) ? 'agentId' : 'elevenLabsAgentId'] = agentId;
+  }
+
+  const campaignId = params.get('campaignId');
+  if (campaignId) {
+    if (!mongoose.Types.ObjectId.isValid(campaignId)) {
+      return { query, textSearch, terms, error: 'Invalid campaignId' };
+    }
+    query.campaignId = campaignId;
+  }
+
+  const startDate = params.get('startDate');
+  const endDate = params.get('endDate');
+  if (startDate) query.createdAt = { ...query.createdAt, $gte: new Date(startDate) };
+  if (endDate) query.createdAt = { ...query.createdAt, $lte: new Date(endDate) };
+
+  const duration = parseRange(params.get('minDuration'), params.get('maxDuration'), 'duration');
+  if (duration.error) return { query, textSearch, terms, error: duration.error };
+  if (duration.range) query.duration = duration.range;
+
+  const cost = parseRange(params.get('minCost'), params.get('maxCost'), 'cost');
+  if (cost.error) return { query, textSearch, terms, error: cost.error };
+  if (cost.range) query.cost = cost.range;
+
+  if (!contactName) return { query, textSearch, terms };
+  const { $text, ...filters } = query;
+  return { query, textSearch, terms, nameQuery: { ...filters, contactName } };
+}
+
+/**
+ * $text only matches whole words (and their stems), so partial names such as "jo" for
+ * "John" find nothing. When the text search has no results, the search falls back to
+ * a case-insensitive match on the contact name.
+ */
+export async function withContactNameFallback(search: CallSearch): Promise<CallSearch> {
+  if (!search.nameQuery || (await Call.exists(search.query))) return search;
+  return { query: search.nameQuery, textSearch: false, terms: [] };
+}
+
+/**
+ * Short excerpts around the search terms in each text field that mentions them,
+ * so results show why a call matched without opening it.
+ */
+export function buildSearchSnippets(call: any, terms: string[]): SearchSnippet[] {
+  if (terms.length === 0) return [];
+  // $text matches word stems, so "complaints" should also highlight "complaint"
+  const stems = terms.map(term => escapeRegex(term.length > 4 ? term.replace(/(es|s|ed|ing)$/i, '') : term));
+  const pattern = new RegExp(`\\b(${stems.join('|')})\\w*`, 'gi');
+
+  const snippets: SearchSnippet[] = [];
+  for (const field of CALL_TEXT_FIELDS) {
+    const value: string | undefined = call[field];
+    if (!value) continue;
+
+    pattern.lastIndex = 0;
+    const first = pattern.exec(value);
+    if (!first) continue;
+
+    const start = Math.max(0, first.index - SNIPPET_CONTEXT);
+    const end = Math.min(value.length, first.index + first[0].length + SNIPPET_CONTEXT);
+    const prefix = start > 0 ? '…' : '';
+    const text = `${prefix}${value.slice(start, end).replace(/\s+/g, ' ')}${end < value.length ? '…' : ''}`;
+
+    const matches: SearchSnippet['matches'] = [];
+    const inSnippet = new RegExp(pattern.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = inSnippet.exec(text))) {
+      matches.push({ start: match.index, length: match[0].length });
+    }
+    snippets.push({ field, text, matches });
+  }
+  return snippets;
+}
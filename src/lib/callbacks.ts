@@ -0,0 +1,108 @@
+import { OpenAI } from 'openai';
+import Call, { ICall } from '@/models/callModel';
+import Agent from '@/models/agentModel';
+import { ITranscriptTurn } from '@/models/transcriptTurn';
+import { resolveContactTimezone } from '@/lib/callingWindow';
+import { transcriptToText } from '@/lib/transcript';
+
+const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+// Outcomes that mean the contact should be called again
+export const CALLBACK_OUTCOMES = ['call_back_later', 'needs_follow_up'];
+
+// Requested times further out than this are treated as unusable and fall back to the default delay
+const MAX_CALLBACK_DAYS = 90;
+
+const DEFAULT_CALLBACK_DELAY_MINUTES = 24 * 60;
+
+/**
+ * Asks the model for the callback time the contact requested, if any.
+ * Returns null when no usable time is found (none given, unparseable, in the past or too far out).
+ */
+export async function extractCallbackTime(text: string, now = new Date(), timezone?: string): Promise<Date | null> {
+  if (!text?.trim()) return null;
+  const zone = timezone || 'UTC';
+
+  try {
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-3.5-turbo',
+      temperature: 0,
+      messages: [
+        {
+          role: 'system',
+          content:
+            `You read call summaries and transcripts. The current time is ${now.toISOString()} and the contact's timezone is ${zone}. ` +
+            'If the contact asked to be called back at a specific time or day, respond with that moment as an ISO 8601 timestamp including the UTC offset. ' +
+            'Resolve relative phrases like "tomorrow evening" against the current time; use 10:00 local time if only a day is given. ' +
+            'If no callback time was requested, respond with NONE. Respond with only the timestamp or NONE.',
+        },
+        { role: 'user', content: text },
+      ],
+    });
+
+    const answer = completion.choices[0]?.message?.content?.trim() || 'NONE';
+    if (answer.toUpperCase() === 'NONE') return null;
+
+    const requested = new Date(answer);
+    if (isNaN(requested.getTime())) return null;
+    if (requested.getTime() <= now.getTime()) return null;
+    if (requested.getTime() > now.getTime() + MAX_CALLBACK_DAYS * 24 * 60 * 60 * 1000) return null;
+
+    return requested;
+  } catch (err) {
+    console.error('OpenAI callback time extraction failed:', err);
+    return null;
+  }
+}
+
+/**
+ * Queues a follow-up call with the same agent and contact when a call's outcome
+ * asks for a callback. The time comes from the summary/transcript when the contact
+ * named one, read in the contact's timezone, otherwise from the agent's
+ * `callbackDelayMinutes`. Pass the conversation before redaction, which can mask
+ * the very dates and times asked for.
+ * Returns the queued follow-up, or null if none was needed.
+ */
+export async function scheduleCallback(
+  call: ICall,
+  conversation: { summary?: string; turns?: ITranscriptTurn[] } = {}
+): Promise<ICall | null> {
+  if (!call.outcome || !CALLBACK_OUTCOMES.includes(call.outcome)) return null;
+
+  // Webhooks can be delivered more than once
+  const existing = await Call.findOne({ followUpOfCallId: call._id });
+  if (existing) return null;
+
+  const agent = call.agentId ? await Agent.findById(call.agentId).select('timezone callbackDelayMinutes disabled') : null;
+  if (!agent || agent.disabled) return null;
+
+  const now = new Date();
+  const transcript = conversation.turns?.length ? transcriptToText(conversation.turns) : undefined;
+  const text = [conversation.summary, transcript].filter(Boolean).join('\n\nTranscript:\n');
+  const timezone = await resolveContactTimezone({
+    userId: call.userId,
+    phoneNumber: call.phoneNumber,
+    contactId: call.contactId,
+    agentTimezone: agent.timezone,
+  });
+  const requestedTime = await extractCallbackTime(text, now, timezone);
+  const delayMinutes = agent.callbackDelayMinutes || DEFAULT_CALLBACK_DELAY_MINUTES;
+
+  const followUp = await Call.create({
+    userId: call.userId,
+    agentId: call.agentId,
+    elevenLabsAgentId: call.elevenLabsAgentId,
+    agentName: call.agentName,
+    contactId: call.contactId,
+    phoneNumber: call.phoneNumber,
+    contactName: call.contactName,
+    customMessage: call.customMessage,
+    notes: requestedTime ? 'Callback at the time the contact requested' : `Callback after the default ${delayMinutes} minute delay`,
+    status: 'queued',
+    scheduledFor: requestedTime || new Date(now.getTime() + delayMinutes * 60 * 1000),
+    followUpOfCallId: call._id,
+  });
+
+  console.log(`Scheduled callback ${followUp._id} for call ${call._id} at ${followUp.scheduledFor?.toISOString()}`);
+  return followUp;
+}
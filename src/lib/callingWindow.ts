@@ -0,0 +1,287 @@
+import User from '@/models/userModel';
+import Contact from '@/models/contactModel';
+import { ICall } from '@/models/callModel';
+import { transitionCall } from '@/lib/callLifecycle';
+
+export interface CallingWindow {
+  startTime?: string; // "HH:MM"
+  endTime?: string; // "HH:MM"; may be earlier than startTime for overnight windows
+}
+
+export interface BlackoutDate {
+  date: string; // "YYYY-MM-DD" in the contact's local calendar
+  label?: string;
+}
+
+export interface CallingRules {
+  window: CallingWindow;
+  blackoutDates: BlackoutDate[];
+}
+
+export type CallingWindowCheck =
+  | { allowed: true; timezone: string }
+  | { allowed: false; timezone: string; reason: string; nextAllowedAt: Date | null };
+
+// Used when neither the contact, the phone number nor the agent tells us where the contact is
+const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Asia/Kolkata';
+
+// Applied to accounts that never saved their own calling hours
+const DEFAULT_CALLING_WINDOW: CallingWindow = { startTime: '09:00', endTime: '21:00' };
+
+// How far ahead we look for the next allowed moment before giving up
+const MAX_LOOKAHEAD_DAYS = 14;
+
+// Country calling code -> the country's main timezone. Countries spanning several
+// zones map to their most populous one; set Contact.timezone when that is wrong.
+const COUNTRY_CODE_TIMEZONES: Record<string, string> = {
+  '1': 'America/New_York',
+  '7': 'Europe/Moscow',
+  '20': 'Africa/Cairo',
+  '27': 'Africa/Johannesburg',
+  '31': 'Europe/Amsterdam',
+  '33': 'Europe/Paris',
+  '34': 'Europe/Madrid',
+  '39': 'Europe/Rome',
+  '41': 'Europe/Zurich',
+  '44': 'Europe/London',
+  '49': 'Europe/Berlin',
+  '52': 'America/Mexico_City',
+  '55': 'America/Sao_Paulo',
+  '60': 'Asia/Kuala_Lumpur',
+  '61': 'Australia/Sydney',
+  '62': 'Asia/Jakarta',
+  '63': 'Asia/Manila',
+  '64': 'Pacific/Auckland',
+  '65': 'Asia/Singapore',
+  '66': 'Asia/Bangkok',
+  '81': 'Asia/Tokyo',
+  '82': 'Asia/Seoul',
+  '84': 'Asia/Ho_Chi_Minh',
+  '86': 'Asia/Shanghai',
+  '90': 'Europe/Istanbul',
+  '91': 'Asia/Kolkata',
+  '92': 'Asia/Karachi',
+  '94': 'Asia/Colombo',
+  '234': 'Africa/Lagos',
+  '254': 'Africa/Nairobi',
+  '880': 'Asia/Dhaka',
+  '852': 'Asia/Hong_Kong',
+  '966': 'Asia/Riyadh',
+  '971': 'Asia/Dubai',
+  '973': 'Asia/Bahrain',
+  '974': 'Asia/Qatar',
+  '977': 'Asia/Kathmandu',
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Guesses the contact's timezone from an international number ("+44...", "0044...").
+ * Numbers without a country code return null.
+ */
+export function inferTimezoneFromPhone(phoneNumber: string): string | null {
+  const cleaned = (phoneNumber || '').replace(/[\s\-()]/g, '');
+  let digits: string;
+  if (cleaned.startsWith('+')) digits = cleaned.slice(1);
+  else if (cleaned.startsWith('00')) digits = cleaned.slice(2);
+  else return null;
+
+  // Calling codes are prefix-free, so the first match of length 1-3 is the right one
+  for (let length = 1; length <= 3; length++) {
+    const timezone = COUNTRY_CODE_TIMEZONES[digits.slice(0, length)];
+    if (timezone) return timezone;
+  }
+  return null;
+}
+
+/**
+ * Picks the timezone to judge a call by: the contact's own setting, then the
+ * phone number's country, then the agent's timezone, then the server default.
+ */
+export function resolveCallTimezone(phoneNumber: string, contactTimezone?: string | null, fallbackTimezone?: string | null) {
+  if (contactTimezone && isValidTimezone(contactTimezone)) return contactTimezone;
+  const inferred = inferTimezoneFromPhone(phoneNumber);
+  if (inferred) return inferred;
+  if (fallbackTimezone && isValidTimezone(fallbackTimezone)) return fallbackTimezone;
+  return DEFAULT_TIMEZONE;
+}
+
+// Wall-clock date ("YYYY-MM-DD") and time ("HH:MM") of `now` in the given timezone
+function localDateTime(now: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}` };
+}
+
+/**
+ * Checks a "HH:MM" wall-clock time against a window. An empty window allows everything.
+ */
+export function isTimeInWindow(window: CallingWindow, time: string) {
+  if (!window.startTime && !window.endTime) return true;
+
+  const start = window.startTime || '00:00';
+  const end = window.endTime || '23:59';
+  if (start <= end) {
+    return time >= start && time < end;
+  }
+  // Overnight window, e.g. 22:00 - 06:00
+  return time >= start || time < end;
+}
+
+function whyNotAllowed(rules: CallingRules, timezone: string, at: Date): string | null {
+  const { date, time } = localDateTime(at, timezone);
+  const blackout = rules.blackoutDates.find(b => b.date === date);
+  if (blackout) {
+    return `${date} is a blackout date${blackout.label ? ` (${blackout.label})` : ''}`;
+  }
+  if (!isTimeInWindow(rules.window, time)) {
+    return `It is ${time} in ${timezone}, outside calling hours ${rules.window.startTime || '00:00'}-${rules.window.endTime || '23:59'}`;
+  }
+  return null;
+}
+
+/**
+ * Checks whether a call may be placed now in the contact's timezone, and if not,
+ * when the next allowed moment is (null if none within the lookahead).
+ */
+export function checkCallingWindow(rules: CallingRules, timezone: string, now = new Date()): CallingWindowCheck {
+  const reason = whyNotAllowed(rules, timezone, now);
+  if (!reason) return { allowed: true, timezone };
+
+  // Walk forward in 15 minute steps, then back up minute by minute to the exact opening
+  const step = 15 * 60 * 1000;
+  const minute = 60 * 1000;
+  const limit = now.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+  for (let t = now.getTime() + step; t <= limit; t += step) {
+    if (whyNotAllowed(rules, timezone, new Date(t))) continue;
+
+    let opening = t;
+    while (opening - minute > now.getTime() && !whyNotAllowed(rules, timezone, new Date(opening - minute))) {
+      opening -= minute;
+    }
+    return { allowed: false, timezone, reason, nextAllowedAt: new Date(opening) };
+  }
+
+  return { allowed: false, timezone, reason, nextAllowedAt: null };
+}
+
+/**
+ * Loads the account's calling hours and blackout dates.
+ */
+export async function getAccountCallingRules(userId: any): Promise<CallingRules> {
+  const user = await User.findById(userId).select('callingWindow blackoutDates').lean<any>();
+  return {
+    window: user?.callingWindow ? { startTime: user.callingWindow.startTime, endTime: user.callingWindow.endTime } : DEFAULT_CALLING_WINDOW,
+    blackoutDates: user?.blackoutDates || [],
+  };
+}
+
+interface OutboundCallTarget {
+  userId: any;
+  phoneNumber: string;
+  contactId?: any; // Used to look up the contact's timezone when `contactTimezone` is not given
+  contactTimezone?: string | null;
+  agentTimezone?: string | null;
+  window?: CallingWindow; // Overrides the account's calling hours (e.g. a campaign's daily window)
+}
+
+/**
+ * The timezone a call's contact is in (see resolveCallTimezone), looking the
+ * contact up by id or else by the account and phone number.
+ */
+export async function resolveContactTimezone(target: OutboundCallTarget): Promise<string> {
+  let contactTimezone = target.contactTimezone;
+  if (!contactTimezone) {
+    const contact = target.contactId
+      ? await Contact.findById(target.contactId).select('timezone').lean<any>()
+      : await Contact.findOne({ userId: target.userId, phoneNumber: target.phoneNumber }).select('timezone').lean<any>();
+    contactTimezone = contact?.timezone;
+  }
+  return resolveCallTimezone(target.phoneNumber, contactTimezone, target.agentTimezone);
+}
+
+/**
+ * The calling-window guard shared by every outbound path (single calls, batches,
+ * campaigns and the scheduled call dispatcher).
+ */
+export async function checkOutboundCallWindow(target: OutboundCallTarget, now = new Date()): Promise<CallingWindowCheck> {
+  const timezone = await resolveContactTimezone(target);
+
+  const rules = await getAccountCallingRules(target.userId);
+  if (target.window && (target.window.startTime || target.window.endTime)) {
+    rules.window = target.window;
+  }
+
+  return checkCallingWindow(rules, timezone, now);
+}
+
+/**
+ * Puts a claimed call back in the queue until the window opens again. When no
+ * opening was found within the lookahead, it is re-checked a day later.
+ */
+export async function deferCallForWindow(call: ICall, check: Extract<CallingWindowCheck, { allowed: false }>) {
+  await transitionCall(call, 'queued', { source: 'calling-window', reason: check.reason });
+  call.scheduledFor = check.nextAllowedAt || new Date(Date.now() + 24 * 60 * 60 * 1000);
+  call.callStartTime = undefined;
+  await call.save();
+  console.log(`Deferred call ${call._id} to ${call.scheduledFor.toISOString()}: ${check.reason}`);
+}
+
+/**
+ * Validates calling-rule settings from a request body. Returns an error message
+ * instead of the fields when something is malformed.
+ */
+export function parseCallingRules(body: any): { fields: Partial<CallingRules>; error?: string } {
+  const fields: Partial<CallingRules> = {};
+
+  if (body.callingWindow !== undefined) {
+    const { startTime, endTime } = body.callingWindow || {};
+    for (const value of [startTime, endTime]) {
+      if (value && !TIME_OF_DAY.test(value)) {
+        return { fields, error: 'Calling hours must use HH:MM (24-hour) format' };
+      }
+    }
+    if (startTime && endTime && startTime === endTime) {
+      return { fields, error: 'Calling hours start and end cannot be the same' };
+    }
+    fields.window = { startTime: startTime || '', endTime: endTime || '' };
+  }
+
+  if (body.blackoutDates !== undefined) {
+    if (!Array.isArray(body.blackoutDates)) {
+      return { fields, error: 'blackoutDates must be an array' };
+    }
+    const seen = new Set<string>();
+    const dates: BlackoutDate[] = [];
+    for (const entry of body.blackoutDates) {
+      const date = typeof entry === 'string' ? entry : entry?.date;
+      if (!date || !CALENDAR_DATE.test(date) || isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+        return { fields, error: `Invalid blackout date: ${date}` };
+      }
+      if (seen.has(date)) continue;
+      seen.add(date);
+      dates.push({ date, label: typeof entry === 'object' && entry.label ? String(entry.label) : undefined });
+    }
+    fields.blackoutDates = dates.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return { fields };
+}
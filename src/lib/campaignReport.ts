@@ -0,0 +1,212 @@
+import * as XLSX from 'xlsx';
+import Call, { ICall } from '@/models/callModel';
+import Contact from '@/models/contactModel';
+import { ICampaign } from '@/models/campaignModel';
+import { OutcomeTaxonomy } from '@/lib/outcomes';
+
+// Funnel stages in order; each call is counted in every stage up to the furthest one it reached
+export const FUNNEL_STAGES = ['dialed', 'ringing', 'answered', 'connected'] as const;
+type FunnelStage = (typeof FUNNEL_STAGES)[number];
+
+export interface FunnelStep {
+  stage: string; // A funnel stage, "success", or "outcome:<name>"
+  label: string;
+  count: number;
+  rateOfDialed: number; // count / dialed
+  color?: string; // Outcome steps: the outcome's colour
+  countsAsSuccess?: boolean; // Outcome steps: whether the outcome counts as a success
+}
+
+export interface ContactReportRow {
+  contactId?: string;
+  contactName: string;
+  phoneNumber: string;
+  variant?: string;
+  attempts: number;
+  lastStatus: string; // "not started" when the contact has no calls yet
+  lastOutcome?: string;
+  lastCallAt?: Date;
+  totalDuration: number; // Seconds across all attempts
+  totalCost: number;
+}
+
+/**
+ * The furthest funnel stage a call reached, inferred from its final status and the
+ * ids it collected on the way (provider CallSid, ElevenLabs conversation). Null for
+ * calls that were never handed to the provider (queued / canceled).
+ */
+function furthestStage(call: Pick<ICall, 'status' | 'exotelCallSid' | 'twilioCallSid' | 'conversationId' | 'elevenLabsSignedUrl' | 'duration'>): FunnelStage | null {
+  const reachedAgent = !!call.conversationId || !!call.elevenLabsSignedUrl || (call.duration || 0) > 0;
+
+  switch (call.status) {
+    case 'queued':
+    case 'canceled':
+      return null;
+    case 'initiating':
+    case 'busy':
+      return 'dialed';
+    case 'failed':
+      if (reachedAgent) return 'connected';
+      return call.exotelCallSid || call.twilioCallSid ? 'ringing' : 'dialed';
+    case 'ringing':
+    case 'no-answer':
+      return 'ringing';
+    case 'answered':
+    case 'in-progress':
+      return reachedAgent ? 'connected' : 'answered';
+    case 'connected':
+      return 'connected';
+    case 'ended':
+    case 'completed':
+      return reachedAgent ? 'connected' : 'answered';
+    default:
+      return 'dialed';
+  }
+}
+
+/**
+ * Aggregates a campaign's calls into dialed -> ringing -> answered -> connected -> successful
+ * -> each outcome. Every attempt counts, so retries show up as additional dials. Success
+ * follows the account's outcome definitions, so it is only reported when they are given.
+ */
+export function buildCampaignFunnel(calls: any[], taxonomy?: OutcomeTaxonomy): FunnelStep[] {
+  const stageCounts: Record<FunnelStage, number> = { dialed: 0, ringing: 0, answered: 0, connected: 0 };
+  const outcomeCounts = new Map<string, number>();
+  const agentByOutcome = new Map<string, any>();
+  let successes = 0;
+
+  for (const call of calls) {
+    const stage = furthestStage(call);
+    if (!stage) continue;
+    const reached = FUNNEL_STAGES.indexOf(stage);
+    FUNNEL_STAGES.forEach((s, i) => {
+      if (i <= reached) stageCounts[s]++;
+    });
+    if (call.outcome) {
+      outcomeCounts.set(call.outcome, (outcomeCounts.get(call.outcome) || 0) + 1);
+      if (!agentByOutcome.has(call.outcome)) agentByOutcome.set(call.outcome, call.agentId);
+      if (taxonomy?.isSuccess(call.outcome, call.agentId)) successes++;
+    }
+  }
+
+  const dialed = stageCounts.dialed;
+  const rate = (count: number) => (dialed > 0 ? count / dialed : 0);
+
+  const steps: FunnelStep[] = FUNNEL_STAGES.map(stage => ({
+    stage,
+    label: stage.charAt(0).toUpperCase() + stage.slice(1),
+    count: stageCounts[stage],
+    rateOfDialed: rate(stageCounts[stage]),
+  }));
+
+  if (taxonomy) {
+    steps.push({ stage: 'success', label: 'Successful', count: successes, rateOfDialed: rate(successes) });
+  }
+
+  [...outcomeCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([outcome, count]) => {
+      const definition = taxonomy?.find(outcome, agentByOutcome.get(outcome));
+      steps.push({
+        stage: `outcome:${outcome}`,
+        label: outcome.replace(/_/g, ' '),
+        count,
+        rateOfDialed: rate(count),
+        color: definition?.color,
+        countsAsSuccess: definition?.countsAsSuccess,
+      });
+    });
+
+  return steps;
+}
+
+/**
+ * One row per campaign contact with its number of attempts and the status of the latest one.
+ * Contacts the runner has not reached yet are included as "not started".
+ */
+export async function buildContactRows(campaign: ICampaign, calls: any[]): Promise<ContactReportRow[]> {
+  const byContact = new Map<string, any[]>();
+  for (const call of calls) {
+    const key = String(call.contactId ?? call.phoneNumber);
+    if (!byContact.has(key)) byContact.set(key, []);
+    byContact.get(key)!.push(call);
+  }
+
+  const rows: ContactReportRow[] = [];
+  for (const [key, contactCalls] of byContact) {
+    contactCalls.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    const last = contactCalls[contactCalls.length - 1];
+    const dialedCalls = contactCalls.filter(c => furthestStage(c) !== null);
+    rows.push({
+      contactId: last.contactId ? key : undefined,
+      contactName: last.contactName || '',
+      phoneNumber: last.phoneNumber,
+      variant: last.campaignVariant,
+      attempts: dialedCalls.length,
+      lastStatus: last.status,
+      lastOutcome: [...contactCalls].reverse().find(c => c.outcome)?.outcome,
+      lastCallAt: last.callStartTime || last.updatedAt,
+      totalDuration: contactCalls.reduce((sum, c) => sum + (c.duration || 0), 0),
+      totalCost: contactCalls.reduce((sum, c) => sum + (c.cost || 0), 0),
+    });
+  }
+
+  const missing = campaign.contacts.filter(id => !byContact.has(id.toString()));
+  if (missing.length > 0) {
+    const contacts = await Contact.find({ _id: { $in: missing } }).select('name phoneNumber').lean<any[]>();
+    for (const contact of contacts) {
+      rows.push({
+        contactId: contact._id.toString(),
+        contactName: contact.name || '',
+        phoneNumber: contact.phoneNumber,
+        attempts: 0,
+        lastStatus: 'not started',
+        totalDuration: 0,
+        totalCost: 0,
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.contactName.localeCompare(b.contactName));
+}
+
+export async function loadCampaignCalls(campaign: ICampaign) {
+  return Call.find({ campaignId: campaign._id })
+    .select('contactId contactName phoneNumber agentId campaignVariant status outcome duration cost exotelCallSid twilioCallSid conversationId elevenLabsSignedUrl callStartTime createdAt updatedAt')
+    .lean<any[]>();
+}
+
+const EXPORT_HEADERS = ['Contact Name', 'Phone Number', 'Variant', 'Attempts', 'Last Status', 'Last Outcome', 'Last Call', 'Total Duration (s)', 'Total Cost'];
+
+function toExportRow(row: ContactReportRow) {
+  return [
+    row.contactName,
+    row.phoneNumber,
+    row.variant || '',
+    row.attempts,
+    row.lastStatus,
+    row.lastOutcome || '',
+    row.lastCallAt ? new Date(row.lastCallAt).toISOString() : '',
+    row.totalDuration,
+    row.totalCost,
+  ];
+}
+
+export function contactRowsToCSV(rows: ContactReportRow[]) {
+  const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+  return [EXPORT_HEADERS.map(escape).join(','), ...rows.map(row => toExportRow(row).map(escape).join(','))].join('\n');
+}
+
+/**
+ * Builds an .xlsx workbook with a "Contacts" sheet and a "Funnel" sheet.
+ */
+export function campaignReportToXLSX(rows: ContactReportRow[], funnel: FunnelStep[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([EXPORT_HEADERS, ...rows.map(toExportRow)]), 'Contacts');
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([['Stage', 'Calls', '% of Dialed'], ...funnel.map(step => [step.label, step.count, Math.round(step.rateOfDialed * 1000) / 10])]),
+    'Funnel'
+  );
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -0,0 +1,396 @@
+import connectDB from '@/lib/db';
+import Campaign, { ICampaign } from '@/models/campaignModel';
+import Call, { ICall } from '@/models/callModel';
+import Agent from '@/models/agentModel';
+import Contact from '@/models/contactModel';
+import { parseRetryPolicy } from '@/models/retryPolicy';
+import { resolveCallProvider } from '@/lib/telephony';
+import { withJobLock } from '@/lib/jobLock';
+import { checkOutboundCallWindow, deferCallForWindow } from '@/lib/callingWindow';
+import { guardOutboundDial } from '@/lib/dnc';
+import { assignVariant } from '@/lib/campaignVariants';
+import { recordTransition, transitionCall, transitionMany } from '@/lib/callLifecycle';
+import { finalizeCallAttempt } from '@/lib/callRetry';
+
+type CallStatus = ICall['status'];
+
+// Statuses in which a call is still occupying a line
+export const ACTIVE_CALL_STATUSES: CallStatus[] = ['initiating', 'ringing', 'answered', 'in-progress', 'connected'];
+
+// Statuses after which a call will not be dialed or progress any further
+export const TERMINAL_CALL_STATUSES: CallStatus[] = ['ended', 'completed', 'failed', 'busy', 'no-answer', 'canceled'];
+
+// Statuses of calls that got through; the rest count as failed
+const CONNECTED_CALL_STATUSES: CallStatus[] = ['ended', 'completed'];
+
+export interface CampaignTickResult {
+  campaignId: string;
+  status: ICampaign['status'];
+  dialed: number;
+  message: string;
+}
+
+/**
+ * Keeps the campaign's completed/failed counters up to date.
+ * Call this whenever a campaign call changes status; it only counts the
+ * first transition into a terminal status, so repeated webhooks are safe.
+ * successfulCalls follows the call's outcome instead (see recordOutcomeSuccess).
+ */
+export async function recordCampaignCallResult(call: ICall, previousStatus: CallStatus) {
+  if (!call.campaignId) return;
+  if (TERMINAL_CALL_STATUSES.includes(previousStatus) || !TERMINAL_CALL_STATUSES.includes(call.status)) return;
+  // Calls canceled before dialing were never attempted; once dialed (e.g. Twilio's
+  // canceled final status) they count as failed like busy and no-answer
+  if (call.status === 'canceled' && previousStatus === 'queued') return;
+
+  const connected = CONNECTED_CALL_STATUSES.includes(call.status);
+  await Campaign.updateOne(
+    { _id: call.campaignId },
+    { $inc: { completedCalls: 1, failedCalls: connected ? 0 : 1 } }
+  );
+}
+
+/**
+ * Loads every agent the campaign dials with (one per A/B variant, or just campaign.agentId),
+ * keyed by Agent _id.
+ */
+async function loadCampaignAgents(campaign: ICampaign) {
+  const ids = campaign.variants.length > 0 ? campaign.variants.map(v => v.agentId) : [campaign.agentId];
+  const agents = await Agent.find({ _id: { $in: ids } });
+  return new Map<string, any>(agents.map((agent: any) => [agent._id.toString(), agent]));
+}
+
+/**
+ * Creates one queued Call per campaign contact and moves the campaign to in-progress.
+ * With A/B variants, each contact is assigned a variant and gets that variant's agent.
+ * Contacts that already have a call for this campaign are skipped, so a retried start is harmless.
+ */
+async function startCampaign(campaign: ICampaign, agents: Map<string, any>) {
+  const contacts = await Contact.find({ _id: { $in: campaign.contacts }, userId: campaign.userId });
+  const existing = await Call.find({ campaignId: campaign._id }).distinct('contactId');
+  const existingIds = new Set(existing.map((id: any) => id.toString()));
+
+  const newCalls = contacts
+    .filter((contact: any) => !existingIds.has(contact._id.toString()))
+    .map((contact: any) => {
+      const variant = assignVariant(campaign._id!.toString(), contact._id.toString(), campaign.variants);
+      const agent = agents.get((variant?.agentId ?? campaign.agentId).toString());
+      return {
+        userId: campaign.userId,
+        agentId: agent._id,
+        elevenLabsAgentId: agent.agentId,
+        agentName: agent.name,
+        contactId: contact._id,
+        campaignId: campaign._id,
+        campaignVariant: variant?.key,
+        contactName: contact.name,
+        phoneNumber: contact.phoneNumber,
+        customMessage: variant?.customMessage ?? campaign.customMessage,
+        status: 'queued',
+      };
+    });
+
+  if (newCalls.length > 0) {
+    await Call.insertMany(newCalls);
+  }
+
+  campaign.status = 'in-progress';
+  campaign.startedAt = campaign.startedAt || new Date();
+  campaign.totalContacts = contacts.length;
+  await campaign.save();
+  console.log(`Campaign ${campaign._id} started with ${contacts.length} contacts (${newCalls.length} calls queued).`);
+}
+
+/**
+ * Claims up to `limit` due queued calls for the campaign and dials them through Exotel.
+ * Each call is claimed atomically (queued -> initiating) so overlapping runs never dial it twice.
+ * Calls outside the campaign's daily window in the contact's timezone are deferred, not dialed,
+ * and calls to numbers on the do-not-call list are canceled.
+ */
+async function dialQueuedCalls(campaign: ICampaign, agents: Map<string, any>, limit: number) {
+  let dialed = 0;
+  const window = { startTime: campaign.dailyStartTime, endTime: campaign.dailyEndTime };
+
+  // Bounded so a queue where every contact is outside its window cannot spin for long
+  for (let claimed = 0; dialed < limit && claimed < limit * 10; claimed++) {
+    // Retries wait in the queue until their scheduledFor time
+    const call = await Call.findOneAndUpdate(
+      { campaignId: campaign._id, status: 'queued', $or: [{ scheduledFor: null }, { scheduledFor: { $lte: new Date() } }] },
+      { $set: { status: 'initiating', callStartTime: new Date() } },
+      { sort: { createdAt: 1 }, new: true }
+    );
+    if (!call) break;
+    await recordTransition(call._id, 'queued', 'initiating', { source: 'campaign-runner' });
+
+    const dnc = await guardOutboundDial({
+      userId: campaign.userId,
+      phoneNumber: call.phoneNumber,
+      path: 'campaign',
+      callId: call._id,
+      campaignId: campaign._id,
+    });
+    if (dnc.blocked) {
+      await transitionCall(call, 'canceled', { source: 'dnc', reason: `Do-not-call: ${dnc.reason}` });
+      await call.save();
+      continue;
+    }
+
+    const agent = agents.get(String(call.agentId)) || agents.get(campaign.agentId.toString());
+
+    const windowCheck = await checkOutboundCallWindow({
+      userId: campaign.userId,
+      phoneNumber: call.phoneNumber,
+      contactId: call.contactId,
+      agentTimezone: agent?.timezone,
+      window,
+    });
+    if (!windowCheck.allowed) {
+      await deferCallForWindow(call, windowCheck);
+      continue;
+    }
+
+    dialed++;
+
+    const provider = await resolveCallProvider(call, agent || { userId: campaign.userId });
+    if (provider.isOwnNumber(call.phoneNumber)) {
+      await transitionCall(call, 'failed', { source: 'campaign-runner', reason: "Cannot call the system's own caller ID." });
+      await call.save();
+      await finalizeCallAttempt(call, 'initiating');
+      continue;
+    }
+
+    try {
+      call.agentVersion = agent?.currentVersion;
+      const result = await provider.dial(call, call.elevenLabsAgentId);
+      if (!result.ok) {
+        await finalizeCallAttempt(call, 'initiating');
+      }
+    } catch (error: any) {
+      console.error(`Campaign ${campaign._id}: failed to dial call ${call._id}:`, error);
+      await transitionCall(call, 'failed', { source: 'campaign-runner', reason: `Campaign dial error: ${error.message}` });
+      await call.save();
+      await finalizeCallAttempt(call, 'initiating');
+    }
+  }
+
+  return dialed;
+}
+
+/**
+ * Advances a single campaign by one step: starts it when it is due, dials as many
+ * queued calls as the concurrency and pause settings allow, and completes it once
+ * every call has finished.
+ */
+export async function processCampaign(campaign: ICampaign, now = new Date()): Promise<CampaignTickResult> {
+  const result = (dialed: number, message: string): CampaignTickResult => ({
+    campaignId: campaign._id!.toString(),
+    status: campaign.status,
+    dialed,
+    message,
+  });
+
+  // Every variant's agent must be usable, otherwise part of the contacts could never be dialed
+  const agents = await loadCampaignAgents(campaign);
+  const agentIds = campaign.variants.length > 0 ? campaign.variants.map(v => v.agentId.toString()) : [campaign.agentId.toString()];
+  if (agentIds.some(id => !agents.has(id))) {
+    return result(0, 'Agent not found');
+  }
+  if (agentIds.some(id => agents.get(id).disabled)) {
+    return result(0, 'Agent is disabled');
+  }
+
+  if (campaign.status === 'scheduled') {
+    if (campaign.scheduledStartTime && campaign.scheduledStartTime > now) {
+      return result(0, 'Not due yet');
+    }
+    await startCampaign(campaign, agents);
+  }
+
+  if (campaign.status !== 'in-progress') {
+    return result(0, `Campaign is ${campaign.status}`);
+  }
+
+  const activeCount = await Call.countDocuments({ campaignId: campaign._id, status: { $in: ACTIVE_CALL_STATUSES } });
+  const queuedCount = await Call.countDocuments({ campaignId: campaign._id, status: 'queued' });
+
+  if (queuedCount === 0 && activeCount === 0) {
+    campaign.status = 'completed';
+    campaign.completedAt = now;
+    await campaign.save();
+    return result(0, 'All calls finished');
+  }
+
+  // Past the campaign's end time: stop dialing and drop whatever was not reached
+  if (campaign.scheduledEndTime && campaign.scheduledEndTime <= now) {
+    await transitionMany({ campaignId: campaign._id }, 'queued', 'canceled', {
+      source: 'campaign-runner',
+      reason: 'Campaign end time reached before this contact was dialed',
+    });
+    if (activeCount === 0) {
+      campaign.status = 'completed';
+      campaign.completedAt = now;
+      await campaign.save();
+    }
+    return result(0, 'Campaign end time reached');
+  }
+
+  if (queuedCount === 0) {
+    return result(0, 'Waiting for live calls to finish');
+  }
+  if (campaign.nextDialAt && campaign.nextDialAt > now) {
+    return result(0, `Pausing until ${campaign.nextDialAt.toISOString()}`);
+  }
+
+  let slots = Math.max(0, (campaign.maxConcurrentCalls || 1) - activeCount);
+  const batchSize = campaign.callsBetweenPause || 0;
+  if (batchSize > 0) {
+    slots = Math.min(slots, batchSize - (campaign.dialedCalls % batchSize));
+  }
+  if (slots === 0) {
+    return result(0, 'Concurrency limit reached');
+  }
+
+  const dialed = await dialQueuedCalls(campaign, agents, slots);
+
+  campaign.dialedCalls = (campaign.dialedCalls || 0) + dialed;
+  if (batchSize > 0 && dialed > 0 && campaign.dialedCalls % batchSize === 0 && campaign.pauseDuration) {
+    campaign.nextDialAt = new Date(now.getTime() + campaign.pauseDuration * 60 * 1000);
+  }
+  await campaign.save();
+
+  return result(dialed, `Dialed ${dialed} call(s)`);
+}
+
+// How long one runner pass may hold the lease before another instance can take over
+const CAMPAIGN_LOCK_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Entry point for the scheduler: advances every campaign that is due or running.
+ * Runs under a Mongo lease so two instances never process campaigns at the same time;
+ * returns an empty list when another instance holds it.
+ */
+export async function runDueCampaigns(now = new Date()) {
+  await connectDB();
+
+  const results = await withJobLock('campaign-runner', CAMPAIGN_LOCK_TTL_MS, async () => {
+    const campaigns: ICampaign[] = await Campaign.find({
+      $or: [
+        { status: 'in-progress' },
+        { status: 'scheduled', $or: [{ scheduledStartTime: { $lte: now } }, { scheduledStartTime: null }] },
+      ],
+    });
+
+    const results: CampaignTickResult[] = [];
+    for (const campaign of campaigns) {
+      try {
+        results.push(await processCampaign(campaign, now));
+      } catch (error: any) {
+        console.error(`Error processing campaign ${campaign._id}:`, error);
+        results.push({ campaignId: campaign._id!.toString(), status: campaign.status, dialed: 0, message: error.message });
+      }
+    }
+    return results;
+  });
+
+  return results || [];
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Picks the user-editable campaign settings out of a request body and validates them.
+ * Returns an error message instead of the fields when something is malformed.
+ */
+export function parseCampaignSettings(body: any): { fields: Partial<ICampaign>; error?: string } {
+  const fields: any = {};
+
+  for (const key of ['name', 'description', 'customMessage'] as const) {
+    if (typeof body[key] === 'string') fields[key] = body[key].trim();
+  }
+
+  for (const key of ['dailyStartTime', 'dailyEndTime'] as const) {
+    if (body[key] === undefined) continue;
+    if (body[key] && !TIME_OF_DAY.test(body[key])) {
+      return { fields, error: `${key} must be in HH:MM format` };
+    }
+    fields[key] = body[key] || undefined;
+  }
+
+  for (const key of ['scheduledStartTime', 'scheduledEndTime'] as const) {
+    if (body[key] === undefined) continue;
+    const date = body[key] ? new Date(body[key]) : undefined;
+    if (date && isNaN(date.getTime())) {
+      return { fields, error: `${key} is not a valid date` };
+    }
+    fields[key] = date;
+  }
+
+  for (const key of ['maxConcurrentCalls', 'callsBetweenPause', 'pauseDuration'] as const) {
+    if (body[key] === undefined || body[key] === null || body[key] === '') continue;
+    const value = Number(body[key]);
+    if (!Number.isInteger(value) || value < 0) {
+      return { fields, error: `${key} must be a non-negative whole number` };
+    }
+    fields[key] = value;
+  }
+  if (fields.maxConcurrentCalls === 0) {
+    return { fields, error: 'maxConcurrentCalls must be at least 1' };
+  }
+
+  if (body.retryPolicy === null) {
+    fields.retryPolicy = undefined;
+  } else if (body.retryPolicy !== undefined) {
+    const { policy, error } = parseRetryPolicy(body.retryPolicy);
+    if (error) return { fields, error };
+    fields.retryPolicy = policy;
+  }
+
+  return { fields };
+}
+
+/**
+ * Stops the runner from dialing new calls. Calls already in progress are left
+ * alone and still update the campaign counters when they finish.
+ */
+export async function pauseCampaign(campaign: ICampaign): Promise<string | null> {
+  if (!['scheduled', 'in-progress'].includes(campaign.status)) {
+    return `Only scheduled or running campaigns can be paused (current status: ${campaign.status})`;
+  }
+  campaign.status = 'paused';
+  await campaign.save();
+  return null;
+}
+
+/**
+ * Hands a paused campaign back to the runner, either as running or, if it
+ * never started, as scheduled.
+ */
+export async function resumeCampaign(campaign: ICampaign): Promise<string | null> {
+  if (campaign.status !== 'paused') {
+    return `Only paused campaigns can be resumed (current status: ${campaign.status})`;
+  }
+  campaign.status = campaign.startedAt ? 'in-progress' : 'scheduled';
+  await campaign.save();
+  return null;
+}
+
+/**
+ * Cancels a campaign and marks every call that has not been dialed yet as canceled.
+ * Live calls are allowed to finish. Returns the number of calls canceled.
+ */
+export async function cancelCampaign(campaign: ICampaign): Promise<{ error: string | null; canceledCalls: number }> {
+  if (['completed', 'cancelled'].includes(campaign.status)) {
+    return { error: `Campaign is already ${campaign.status}`, canceledCalls: 0 };
+  }
+
+  campaign.status = 'cancelled';
+  campaign.completedAt = new Date();
+  await campaign.save();
+
+  const canceledCalls = await transitionMany({ campaignId: campaign._id }, 'queued', 'canceled', {
+    source: 'user',
+    reason: 'Campaign was cancelled',
+  });
+
+  return { error: null, canceledCalls };
+}
@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import Agent from '@/models/agentModel';
+import Call from '@/models/callModel';
+import { ICampaign } from '@/models/campaignModel';
+import { ICampaignVariant } from '@/models/campaignVariant';
+import { TERMINAL_CALL_STATUSES } from '@/lib/campaignRunner';
+import { chiSquareTest } from '@/lib/stats';
+import { OutcomeTaxonomy } from '@/lib/outcomes';
+
+const MAX_VARIANTS = 10;
+
+// p-value below which a difference between variants is reported as significant
+const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Picks the variant for a contact. The choice is a hash of the campaign and contact ids,
+ * so it is stable across runner restarts and retries, and roughly follows the weights.
+ */
+export function assignVariant(campaignId: string, contactId: string, variants: ICampaignVariant[]): ICampaignVariant | null {
+  if (variants.length === 0) return null;
+
+  const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+  const hash = crypto.createHash('sha256').update(`${campaignId}:${contactId}`).digest();
+  let bucket = hash.readUInt32BE(0) % totalWeight;
+
+  for (const variant of variants) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Validates the A/B variants from a request body and resolves their ElevenLabs agent ids
+ * to the user's Agent documents. An empty array turns A/B testing off.
+ */
+export async function parseCampaignVariants(userId: string, input: any): Promise<{ variants?: ICampaignVariant[]; error?: string }> {
+  if (!Array.isArray(input)) {
+    return { error: 'variants must be an array' };
+  }
+  if (input.length === 0) {
+    return { variants: [] };
+  }
+  if (input.length < 2 || input.length > MAX_VARIANTS) {
+    return { error: `An A/B test needs between 2 and ${MAX_VARIANTS} variants` };
+  }
+
+  const variants: ICampaignVariant[] = [];
+  const keys = new Set<string>();
+
+  for (let i = 0; i < input.length; i++) {
+    const entry = input[i] || {};
+    const key = String(entry.key || String.fromCharCode(65 + i)).trim();
+    if (keys.has(key)) {
+      return { error: `Duplicate variant key: ${key}` };
+    }
+    keys.add(key);
+
+    const weight = Number(entry.weight ?? 1);
+    if (!Number.isInteger(weight) || weight < 1) {
+      return { error: `Variant ${key}: weight must be a whole number of at least 1` };
+    }
+
+    if (!entry.agentId) {
+      return { error: `Variant ${key}: agentId is required` };
+    }
+    const agent = await Agent.findOne({ userId, agentId: entry.agentId }).select('_id');
+    if (!agent) {
+      return { error: `Variant ${key}: agent not found` };
+    }
+
+    variants.push({ key, agentId: agent._id, weight, customMessage: entry.customMessage || undefined });
+  }
+
+  return { variants };
+}
+
+export interface VariantOutcomeStats {
+  count: number; // Contacts that reached this outcome
+  rate: number; // count / contacts
+  costPerOutcome: number | null; // Variant's total cost divided by count
+}
+
+export interface VariantReport {
+  key: string;
+  agentId?: string;
+  agentName?: string;
+  weight: number;
+  contacts: number; // Contacts assigned to the variant
+  calls: number; // All attempts, including retries
+  finishedCalls: number;
+  avgDuration: number; // Seconds, over calls that connected
+  totalCost: number;
+  outcomes: Record<string, VariantOutcomeStats>;
+  success?: VariantOutcomeStats; // Contacts with an outcome that counts as a success
+}
+
+export interface OutcomeSignificance {
+  outcome: string;
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  significant: boolean;
+  lowSampleSize: boolean; // Too few contacts for the test to be trusted
+}
+
+/**
+ * Compares the variants of an A/B campaign: per-variant outcome and success rates, average
+ * duration and cost per outcome, plus a chi-square test per outcome across variants.
+ * Campaigns without variants come back as a single "default" variant.
+ */
+export async function buildVariantReport(campaign: ICampaign, taxonomy?: OutcomeTaxonomy) {
+  const calls = await Call.find({ campaignId: campaign._id })
+    .select('campaignVariant contactId status outcome duration cost agentId agentName')
+    .lean<any[]>();
+
+  const variantKeys = campaign.variants.length > 0 ? campaign.variants.map(v => v.key) : ['default'];
+  const groups = new Map<string, any[]>(variantKeys.map(key => [key, []]));
+  for (const call of calls) {
+    const key = call.campaignVariant || 'default';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(call);
+  }
+
+  const outcomeNames = new Set<string>();
+  const contactsWithOutcome = new Map<string, Map<string, Set<string>>>();
+
+  const variants: VariantReport[] = [];
+  for (const [key, variantCalls] of groups) {
+    const definition = campaign.variants.find(v => v.key === key);
+    const contactIds = new Set(variantCalls.map(c => String(c.contactId ?? c._id)));
+    const finished = variantCalls.filter(c => TERMINAL_CALL_STATUSES.includes(c.status) && c.status !== 'canceled');
+    const connected = variantCalls.filter(c => (c.duration || 0) > 0);
+    const totalCost = variantCalls.reduce((sum, c) => sum + (c.cost || 0), 0);
+
+    const byOutcome = new Map<string, Set<string>>();
+    const successfulContacts = new Set<string>();
+    for (const call of variantCalls) {
+      if (!call.outcome) continue;
+      outcomeNames.add(call.outcome);
+      if (!byOutcome.has(call.outcome)) byOutcome.set(call.outcome, new Set());
+      byOutcome.get(call.outcome)!.add(String(call.contactId ?? call._id));
+      if (taxonomy?.isSuccess(call.outcome, call.agentId)) successfulContacts.add(String(call.contactId ?? call._id));
+    }
+    contactsWithOutcome.set(key, byOutcome);
+
+    const outcomes: Record<string, VariantOutcomeStats> = {};
+    for (const [outcome, contacts] of byOutcome) {
+      outcomes[outcome] = {
+        count: contacts.size,
+        rate: contactIds.size > 0 ? contacts.size / contactIds.size : 0,
+        costPerOutcome: contacts.size > 0 ? totalCost / contacts.size : null,
+      };
+    }
+
+    variants.push({
+      key,
+      agentId: String(definition?.agentId ?? variantCalls[0]?.agentId ?? campaign.agentId),
+      agentName: variantCalls[0]?.agentName,
+      weight: definition?.weight ?? 1,
+      contacts: contactIds.size,
+      calls: variantCalls.length,
+      finishedCalls: finished.length,
+      avgDuration: connected.length > 0 ? connected.reduce((sum, c) => sum + c.duration, 0) / connected.length : 0,
+      totalCost,
+      outcomes,
+      success: taxonomy
+        ? {
+            count: successfulContacts.size,
+            rate: contactIds.size > 0 ? successfulContacts.size / contactIds.size : 0,
+            costPerOutcome: successfulContacts.size > 0 ? totalCost / successfulContacts.size : null,
+          }
+        : undefined,
+    });
+  }
+
+  // One 2 x k test per outcome: contacts with vs without it, for each variant
+  const significance: OutcomeSignificance[] = [];
+  if (variants.length > 1) {
+    for (const outcome of outcomeNames) {
+      const table = variants.map(v => {
+        const hits = contactsWithOutcome.get(v.key)?.get(outcome)?.size || 0;
+        return [hits, v.contacts - hits];
+      });
+      const test = chiSquareTest(table);
+      significance.push({
+        outcome,
+        chiSquare: test.chiSquare,
+        degreesOfFreedom: test.degreesOfFreedom,
+        pValue: test.pValue,
+        significant: test.degreesOfFreedom > 0 && !test.lowExpectedCounts && test.pValue < SIGNIFICANCE_LEVEL,
+        lowSampleSize: test.lowExpectedCounts,
+      });
+    }
+  }
+
+  return { variants, significance, significanceLevel: SIGNIFICANCE_LEVEL };
+}
@@ -0,0 +1,177 @@
+import { parse } from 'csv-parse/sync';
+import Contact from '@/models/contactModel';
+import DncEntry, { DncSource } from '@/models/dncEntryModel';
+import BlockedDial, { OutboundPath } from '@/models/blockedDialModel';
+import { ICall } from '@/models/callModel';
+import { normalizePhoneNumber } from '@/lib/phone';
+
+// The call outcome that means the contact asked never to be called again
+export const DO_NOT_CALL_OUTCOME = 'do_not_call';
+
+const SOURCE_REASONS: Record<DncSource, string> = {
+  contact: 'Contact is marked do-not-call',
+  outcome: 'Contact asked not to be called again',
+  ndnc: 'Number is registered with the TRAI NDNC registry',
+  upload: 'Number is on an uploaded scrub list',
+  manual: 'Number was added to the do-not-call list',
+};
+
+const UPLOAD_BATCH_SIZE = 1000;
+
+export type DncCheck =
+  | { blocked: false }
+  | { blocked: true; source: DncSource; reason: string; entryId?: any };
+
+interface DncEntryDetails {
+  source: DncSource;
+  reason?: string;
+  callId?: any;
+  contactId?: any;
+}
+
+/**
+ * Puts a number on the account's do-not-call list and marks matching contacts.
+ * A number already on the list keeps its original source. Returns null for numbers that cannot be parsed.
+ */
+export async function addToDnc(userId: any, phoneNumber: string, details: DncEntryDetails) {
+  const normalized = normalizePhoneNumber(phoneNumber);
+  if (!normalized) return null;
+
+  const entry = await DncEntry.findOneAndUpdate(
+    { userId, phoneNumber: normalized },
+    {
+      $setOnInsert: {
+        source: details.source,
+        reason: details.reason,
+        callId: details.callId,
+        contactId: details.contactId,
+      },
+    },
+    { upsert: true, new: true }
+  );
+  await Contact.updateMany({ userId, phoneNumber: normalized, status: { $ne: 'do-not-call' } }, { $set: { status: 'do-not-call', statusFromDnc: true } });
+  return entry;
+}
+
+/**
+ * Takes a number off the list. Contacts the list marked do-not-call become active
+ * again; contacts an operator marked keep their status and go on blocking the number.
+ */
+export async function removeFromDnc(userId: any, phoneNumber: string) {
+  const normalized = normalizePhoneNumber(phoneNumber) ?? phoneNumber;
+  await DncEntry.deleteOne({ userId, phoneNumber: normalized });
+  await Contact.updateMany(
+    { userId, phoneNumber: normalized, status: 'do-not-call', statusFromDnc: true },
+    { $set: { status: 'active' }, $unset: { statusFromDnc: 1 } }
+  );
+}
+
+/**
+ * Whether the account may dial this number: blocked if it is on the registry or
+ * belongs to a contact marked do-not-call.
+ */
+export async function checkDnc(userId: any, phoneNumber: string): Promise<DncCheck> {
+  const normalized = normalizePhoneNumber(phoneNumber) ?? phoneNumber;
+
+  const entry = await DncEntry.findOne({ userId, phoneNumber: normalized }).lean<any>();
+  if (entry) {
+    const reason = SOURCE_REASONS[entry.source as DncSource] + (entry.reason ? ` (${entry.reason})` : '');
+    return { blocked: true, source: entry.source, reason, entryId: entry._id };
+  }
+
+  const contact = await Contact.findOne({ userId, phoneNumber: normalized, status: 'do-not-call' }).select('_id').lean();
+  if (contact) {
+    return { blocked: true, source: 'contact', reason: SOURCE_REASONS.contact };
+  }
+
+  return { blocked: false };
+}
+
+interface OutboundDialTarget {
+  userId: any;
+  phoneNumber: string;
+  path: OutboundPath;
+  callId?: any;
+  campaignId?: any;
+}
+
+/**
+ * The do-not-call guard shared by every outbound path (single calls, batches,
+ * campaigns and the scheduled call dispatcher). Blocked attempts are logged.
+ */
+export async function guardOutboundDial(target: OutboundDialTarget): Promise<DncCheck> {
+  const check = await checkDnc(target.userId, target.phoneNumber);
+  if (!check.blocked) return check;
+
+  await BlockedDial.create({
+    userId: target.userId,
+    phoneNumber: target.phoneNumber,
+    path: target.path,
+    reason: check.reason,
+    dncEntryId: check.entryId,
+    callId: target.callId,
+    campaignId: target.campaignId,
+  });
+  console.log(`Blocked ${target.path} call to ${target.phoneNumber}: ${check.reason}`);
+  return check;
+}
+
+/**
+ * Adds the number to the list when a call ended with the do_not_call outcome.
+ */
+export async function recordDoNotCallOutcome(call: ICall) {
+  if (call.outcome !== DO_NOT_CALL_OUTCOME) return;
+  await addToDnc(call.userId, call.phoneNumber, { source: 'outcome', callId: call._id, contactId: call.contactId });
+}
+
+/**
+ * Reads phone numbers from an uploaded scrub list: a CSV with a phone/number/mobile
+ * column, or a plain list with one number per line.
+ */
+export function parseScrubList(buffer: Buffer): { numbers: string[]; invalid: number } {
+  const rows: string[][] = parse(buffer, { skip_empty_lines: true, relax_column_count: true, trim: true });
+  if (rows.length === 0) return { numbers: [], invalid: 0 };
+
+  let column = 0;
+  // A first row without a single valid number is a header
+  if (!rows[0].some(cell => normalizePhoneNumber(cell))) {
+    const header = rows.shift()!;
+    const named = header.findIndex(cell => /phone|number|mobile/i.test(cell));
+    if (named >= 0) column = named;
+  }
+
+  const numbers = new Set<string>();
+  let invalid = 0;
+  for (const row of rows) {
+    const normalized = normalizePhoneNumber(row[column]);
+    if (normalized) numbers.add(normalized);
+    else invalid++;
+  }
+  return { numbers: [...numbers], invalid };
+}
+
+/**
+ * Adds every number of a scrub list to the account's registry.
+ */
+export async function importScrubList(userId: any, buffer: Buffer, listName?: string) {
+  const { numbers, invalid } = parseScrubList(buffer);
+  let added = 0;
+
+  for (let i = 0; i < numbers.length; i += UPLOAD_BATCH_SIZE) {
+    const batch = numbers.slice(i, i + UPLOAD_BATCH_SIZE);
+    const result = await DncEntry.bulkWrite(
+      batch.map(phoneNumber => ({
+        updateOne: {
+          filter: { userId, phoneNumber },
+          update: { $setOnInsert: { userId, phoneNumber, source: 'upload', reason: listName } },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+    added += result.upsertedCount;
+    await Contact.updateMany({ userId, phoneNumber: { $in: batch }, status: { $ne: 'do-not-call' } }, { $set: { status: 'do-not-call', statusFromDnc: true } });
+  }
+
+  return { added, alreadyListed: numbers.length - added, invalid };
+}
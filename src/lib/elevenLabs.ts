@@ -4,9 +4,11 @@ import Agent from "@/models/agentModel";
 import callModel from "@/models/callModel";
 import KnowledgeDocument from "@/models/knowledgeModel"; // Import the model
 import { getDefaultSystemTools, combineTools } from "./systemTools";
+import { resolveCallProvider } from "./telephony";
+import { normalizePhoneNumber } from "./phone";
+import { recordAgentVersion } from "./agentVersions";
 
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY!;
-const ELEVENLABS_PHONE_ID = process.env.ELEVENLABS_PHONE_ID!;
 
 type AnyObj = Record<string, any>;
 
@@ -181,6 +183,7 @@ export async function createAgent(agentData: AnyObj) {
         knowledgeDocuments: processedKnowledgeDocuments,
     });
     await agent.save();
+    await recordAgentVersion(agent, { authorId: userId, source: "create" });
     
     await KnowledgeDocument.updateMany(
         { elevenLabsDocumentId: { $in: processedKnowledgeDocuments.map(d => d.document_id).filter(Boolean) } },
@@ -212,17 +215,6 @@ export async function getAgent(agentId: string) {
   }
 }
 
-export async function updateAgent(agentId: string, updates: any) {
-  try {
-    console.log(`Updating agent ${agentId}`);
-    // ... your existing update logic
-    return { success: true };
-  } catch (error) {
-    console.error(`Error updating agent ${agentId}:`, error);
-    throw error;
-  }
-}
-
 export async function deleteAgent(agentId: string) {
   try {
     await fetch(`https://api.elevenlabs.io/v1/convai/agents/${agentId}`, {
@@ -239,65 +231,59 @@ export async function deleteAgent(agentId: string) {
   }
 }
 
+/**
+ * Creates a Call record and dials it right away through the agent's telephony
+ * provider. Throws when the agent is missing or the provider rejects the call.
+ */
 export async function initiateCall(
   userId: string,
   agentId: string,
-  phoneNumber: string,
-  contactName: string
+  rawPhoneNumber: string,
+  contactName: string,
+  customMessage?: string,
+  links: { contactId?: any; redialOfCallId?: any } = {}
 ) {
   try {
+    const phoneNumber = normalizePhoneNumber(rawPhoneNumber);
+    if (!phoneNumber) throw new Error(`Invalid phone number: ${rawPhoneNumber}`);
+
     await connectDB();
     const agent = await Agent.findOne({ agentId, userId });
     if (!agent) throw new Error(`Agent not found with ID: ${agentId}`);
 
-    let formatted = phoneNumber.trim().replace(/[\s\-()]/g, "");
-    if (!formatted.startsWith("+")) {
-      formatted = `+91${formatted}`; // Assuming default country code
-    }
-
-    const callPayload = {
-      agent_id: agent.agentId,
-      agent_phone_number_id: ELEVENLABS_PHONE_ID,
-      to_number: formatted,
-      conversation_initiation_client_data: {
-        type: "conversation_initiation_client_data",
-        dynamic_variables: {
-          contact_name: contactName,
-        },
-      },
-    };
-
-    const resp = await fetch("https://api.elevenlabs.io/v1/convai/twilio/outbound_call", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "xi-api-key": ELEVENLABS_API_KEY,
-      },
-      body: JSON.stringify(callPayload),
-    });
-
-    if (!resp.ok) {
-      const errText = await resp.text();
-      throw new Error(`ElevenLabs API error (${resp.status}): ${errText}`);
-    }
-
-    const data = await resp.json();
-    
-    await callModel.create({
+    const call = new callModel({
       userId,
       agentId: agent._id,
-      phoneNumber: formatted,
-      direction: "outbound",
-      status: "initiated",
+      elevenLabsAgentId: agent.agentId,
+      agentName: agent.name,
+      phoneNumber,
       contactName,
-      conversationId: data.conversation_id,
-      elevenLabsCallSid: data.call_sid,
-      startTime: new Date(),
+      direction: "outbound",
+      status: "initiating",
+      customMessage: customMessage || undefined,
+      contactId: links.contactId,
+      redialOfCallId: links.redialOfCallId,
+      agentVersion: agent.currentVersion,
+      callStartTime: new Date(),
     });
+    const provider = await resolveCallProvider(call, agent);
+
+    if (provider.isOwnNumber(phoneNumber)) {
+      throw new Error("Cannot call the system's own caller ID.");
+    }
+
+    await call.save();
+    const result = await provider.dial(call, agent.agentId);
+    if (!result.ok) {
+      throw new Error(`${result.clientMessage}${result.details ? `: ${result.details}` : ""}`);
+    }
 
     return {
-      status: "initiated",
-      conversationId: data.conversation_id,
+      status: call.status,
+      callId: call._id.toString(),
+      provider: call.provider,
+      callSid: result.providerCallSid,
+      conversationId: call.conversationId,
     };
   } catch (error) {
     console.error("Error in initiateCall:", error);
@@ -319,3 +305,19 @@ export async function getConversation(conversationId: string) {
   return res.json();
 }
 
+/**
+ * Downloads the conversation's audio. Returns null when ElevenLabs has none
+ * (yet, or no longer, depending on retention).
+ */
+export async function fetchConversationAudio(conversationId: string): Promise<Response | null> {
+  const res = await fetch(
+    `https://api.elevenlabs.io/v1/convai/conversations/${conversationId}/audio`,
+    { headers: { "xi-api-key": ELEVENLABS_API_KEY } }
+  );
+
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`ElevenLabs audio fetch failed – ${res.status} ${await res.text()}`);
+  }
+  return res;
+}
@@ -2,6 +2,7 @@ import { HttpsAgent } from "agentkeepalive";
 import connectDB from "@/lib/db";
 import Agent from "@/models/agentModel";
 import { combineTools, getDefaultSystemTools } from "@/lib/systemTools";
+import { recordAgentVersion } from "@/lib/agentVersions";
 import { buildBuiltInTools, sanitizeAgentConfigForEL, AnyObj } from "./utils";
 
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY!;
@@ -111,6 +112,7 @@ export async function createAgent(agentData: AnyObj) {
       systemTools: getDefaultSystemTools(),
     });
     await agent.save();
+    await recordAgentVersion(agent, { authorId: agentData.userId, source: "create" });
 
     return {
       agent_id: agentId,
@@ -1,30 +1,66 @@
 // /lib/elevenlabs/agent/updateAgent.ts
 
 import connectDB from "@/lib/db";
-import Agent from "@/models/agentModel";
-import { sanitizeAgentConfigForEL } from "./utils";
+import Agent, { IAgent } from "@/models/agentModel";
+import { AgentSyncResult, isSyncedUpdate, syncAgentToElevenLabs } from "@/lib/agentSync";
+import { ensureBaselineVersion, recordAgentVersion, VERSIONED_AGENT_FIELDS } from "@/lib/agentVersions";
 
-const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY!;
+// The agent's configuration plus its on/off switch. Ownership, usage, sync state and
+// the version counter are only ever set by the server.
+const EDITABLE_AGENT_FIELDS = [...VERSIONED_AGENT_FIELDS, "disabled"];
 
-export async function updateAgent(agentId: string, updates: any) {
+export interface AgentUpdateResult {
+  agent: IAgent | null; // null when the account has no such agent
+  sync: AgentSyncResult | null; // Unset when only local fields changed
+  version?: number; // The agent's version after the update
+  syncError?: string; // ElevenLabs rejected the change, so nothing was saved
+}
+
+/**
+ * Updates one of the account's agents by its ElevenLabs id. The synced fields in the
+ * update that change value are patched onto the ElevenLabs agent before saving; when
+ * ElevenLabs rejects them nothing is saved. Other drifted fields stay flagged for the
+ * user to resolve. Updates that only touch local fields (retries, telephony, ...) skip
+ * ElevenLabs entirely. A change to the configuration is recorded as a new version.
+ * Fields that aren't editable are dropped. Throws a mongoose ValidationError for
+ * invalid values.
+ */
+export async function updateAgent(
+  userId: any,
+  agentId: string,
+  updates: Record<string, any>,
+  details: { authorId?: any; note?: string } = {}
+): Promise<AgentUpdateResult> {
   await connectDB();
 
-  const agent = await Agent.findById(agentId);
-  if (!agent) throw new Error("Agent not found");
+  const agent = await Agent.findOne({ agentId, userId });
+  if (!agent) return { agent: null, sync: null };
 
-  const sanitizedData = sanitizeAgentConfigForEL(updates);
+  await ensureBaselineVersion(agent);
 
-  await fetch(`https://api.elevenlabs.io/v1/agents/${agent.elevenlabsAgentId}`, {
-    method: "PATCH",
-    headers: {
-      "Content-Type": "application/json",
-      "xi-api-key": ELEVENLABS_API_KEY,
-    },
-    body: JSON.stringify(sanitizedData),
-  });
+  const fields: Record<string, any> = {};
+  for (const field of EDITABLE_AGENT_FIELDS) {
+    if (updates[field] !== undefined) fields[field] = updates[field];
+  }
+  agent.set(fields);
+  await agent.validate();
 
-  Object.assign(agent, updates);
+  // Resending a stored value mustn't overwrite an edit made in the ElevenLabs console
+  const changed = Object.keys(fields).filter(field => agent.isModified(field));
+  let sync: AgentSyncResult | null = null;
+  if (isSyncedUpdate(Object.fromEntries(changed.map(field => [field, fields[field]])))) {
+    try {
+      sync = await syncAgentToElevenLabs(agent, changed);
+    } catch (error: any) {
+      console.error(`Error syncing agent ${agentId} to ElevenLabs:`, error);
+      return { agent, sync: null, syncError: error.message };
+    }
+    agent.lastSyncedAt = sync.syncedAt;
+    agent.driftedFields = sync.drifted;
+    agent.driftCheckedAt = sync.syncedAt;
+  }
   await agent.save();
 
-  return agent;
+  const version = await recordAgentVersion(agent, { authorId: details.authorId, note: details.note });
+  return { agent, sync, version: version?.version ?? agent.currentVersion };
 }
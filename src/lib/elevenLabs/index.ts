@@ -4,5 +4,4 @@ export * from "./agents/createAgent";
 export * from "./agents/getAgent";
 export * from "./agents/updateAgent";
 export * from "./agents/deleteAgent";
-export * from "./call/initiateCall";
 export * from "./call/getConversation";
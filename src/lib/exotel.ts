@@ -0,0 +1,238 @@
+// /lib/exotel.ts
+import { ICall } from '@/models/callModel';
+import { signCallToken } from '@/lib/exotelWebhookAuth';
+import { transitionCall } from '@/lib/callLifecycle';
+import { isSamePhoneNumber } from '@/lib/phone';
+import { addToDnc } from '@/lib/dnc';
+
+export interface ExotelDialResult {
+    ok: boolean;
+    exotelCallSid?: string;
+    httpStatus: number;
+    clientMessage: string;
+    details?: string;
+}
+
+function getExotelConfig() {
+    return {
+        accountSid: process.env.EXOTEL_ACCOUNT_SID!,
+        apiKey: process.env.EXOTEL_API_KEY!,
+        apiToken: process.env.EXOTEL_API_TOKEN!,
+        callerId: process.env.EXOTEL_CALLER_ID!, // Your verified Exotel number
+    };
+}
+
+export function getExotelAuthHeader() {
+    const { apiKey, apiToken } = getExotelConfig();
+    return `Basic ${Buffer.from(`${apiKey}:${apiToken}`).toString('base64')}`;
+}
+
+/**
+ * Returns true if the given number is the system's own Exotel caller ID.
+ */
+export function isOwnCallerId(phoneNumber: string) {
+    const { callerId } = getExotelConfig();
+    return isSamePhoneNumber(callerId, phoneNumber);
+}
+
+/**
+ * Places an outbound call through Exotel for an existing Call record.
+ * The record is updated in place: on success it moves to 'ringing' with the
+ * Exotel Call SID set, on failure it moves to 'failed' with a failureReason.
+ */
+export async function makeExotelCall(call: ICall, elevenLabsAgentId: string): Promise<ExotelDialResult> {
+    const { accountSid, callerId } = getExotelConfig();
+
+    // Define the two separate webhook URLs
+    const connectUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/exotel/connect`;
+    const statusCallbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/exotel/webhook`;
+    const elevenlabsWebhookUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/elevenlabs`;
+
+    const exotelPayload = {
+        To: call.phoneNumber,
+        CallerId: callerId, // Can often be the same as From
+        // This URL is hit with a POST request when the call is answered. It must return ExoML.
+        Url: connectUrl,
+        // This URL is hit with status updates (ringing, completed, etc.).
+        StatusCallback: statusCallbackUrl,
+        StatusCallbackMethod: "GET", // The method for the 'StatusCallback' URL
+        // Pass your internal call ID and agent ID to the webhook
+        CustomField: JSON.stringify({
+            internalCallId: call._id.toString(),
+            elevenLabsAgentId,
+            elevenlabsWebhookUrl,
+            token: signCallToken(call._id.toString()), // Proves the webhooks' CustomField came from us
+        }),
+    };
+
+    const exotelApiUrl = `https://api.exotel.com/v1/Accounts/${accountSid}/Calls/connect.json?From=${callerId}`;
+    const requestBody = new URLSearchParams(exotelPayload).toString();
+
+    console.log(`Initiating Exotel call for ${call._id} with payload:`, exotelPayload);
+
+    const exotelResponse = await fetch(exotelApiUrl, {
+        method: 'POST',
+        headers: {
+            'Authorization': getExotelAuthHeader(),
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: requestBody,
+    });
+
+    if (!exotelResponse.ok) {
+        const errorText = await exotelResponse.text();
+        console.error("Exotel API Error:", errorText);
+
+        let failureReason = `Exotel initiation failed: ${errorText}`;
+        let clientMessage = `Error initiating call. Status: ${exotelResponse.status}`;
+
+        // Check for specific TRAI/NDNC error
+        if (exotelResponse.status === 403 && errorText.includes("TRAI NDNC")) {
+            failureReason = "Call blocked by TRAI/NDNC regulations. The recipient number is likely on the Do Not Call list.";
+            clientMessage = "This call cannot be completed due to TRAI/NDNC regulations. The number may be on the Do Not Call list.";
+            await addToDnc(call.userId, call.phoneNumber, { source: 'ndnc', callId: call._id, contactId: call.contactId });
+        }
+
+        await transitionCall(call, 'failed', { source: 'exotel', reason: failureReason });
+        await call.save();
+
+        return { ok: false, httpStatus: exotelResponse.status, clientMessage, details: errorText };
+    }
+
+    const exotelResult = await exotelResponse.json();
+    const exotelCallSid = exotelResult.Call.Sid; // Get the Call SID from Exotel response
+
+    console.log("Exotel Call Initiated:", exotelResult);
+
+    call.exotelCallSid = exotelCallSid;
+    await transitionCall(call, 'ringing', { source: 'exotel' });
+    await call.save();
+
+    return { ok: true, exotelCallSid, httpStatus: 200, clientMessage: 'Call initiated via Exotel' };
+}
+
+/**
+ * Asks Exotel to end a live call.
+ */
+export async function hangupExotelCall(exotelCallSid: string): Promise<{ ok: boolean; httpStatus: number; message: string }> {
+    const { accountSid } = getExotelConfig();
+    const exotelApiUrl = `https://api.exotel.com/v1/Accounts/${accountSid}/Calls/${exotelCallSid}.json`;
+
+    console.log(`Sending Hangup request to Exotel for SID: ${exotelCallSid}`);
+
+    const exotelResponse = await fetch(exotelApiUrl, {
+        method: 'POST',
+        headers: {
+            'Authorization': getExotelAuthHeader(),
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ Status: 'completed' }).toString(),
+    });
+
+    if (!exotelResponse.ok) {
+        const errorText = await exotelResponse.text();
+        console.error("Exotel Hangup API Error:", errorText);
+        return { ok: false, httpStatus: exotelResponse.status, message: `Exotel hangup error: ${errorText}` };
+    }
+
+    console.log(`Hangup request successful for Exotel SID: ${exotelCallSid}`);
+    return { ok: true, httpStatus: 200, message: 'Hangup request sent to Exotel' };
+}
+
+/**
+ * Maps an Exotel CallStatus to our call status. Intermediate statuses only
+ * apply while the call has not progressed past them.
+ */
+export function mapExotelStatus(callStatus: string, currentStatus: ICall['status']): ICall['status'] | null {
+    switch (callStatus) {
+        case 'completed':
+            return 'ended';
+        case 'failed':
+            return 'failed';
+        case 'busy':
+            return 'busy';
+        case 'no-answer':
+            return 'no-answer';
+        case 'answered':
+        case 'in-progress':
+            return currentStatus === 'ringing' || currentStatus === 'initiating' ? 'answered' : null;
+        case 'ringing':
+            return currentStatus === 'initiating' || currentStatus === 'queued' ? 'ringing' : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Looks up the call's recording URL in Exotel and downloads it.
+ * Returns null when Exotel has no recording for the call.
+ */
+export async function fetchExotelRecording(exotelCallSid: string): Promise<Response | null> {
+    const { accountSid } = getExotelConfig();
+    const detailsResponse = await fetch(`https://api.exotel.com/v1/Accounts/${accountSid}/Calls/${exotelCallSid}.json`, {
+        headers: { 'Authorization': getExotelAuthHeader() },
+    });
+    if (!detailsResponse.ok) {
+        throw new Error(`Exotel call details error: ${detailsResponse.status} ${await detailsResponse.text()}`);
+    }
+
+    const details = await detailsResponse.json();
+    const recordingUrl: string | undefined = details?.Call?.RecordingUrl;
+    if (!recordingUrl) return null;
+
+    const recordingResponse = await fetch(recordingUrl, { headers: { 'Authorization': getExotelAuthHeader() } });
+    if (!recordingResponse.ok) {
+        throw new Error(`Exotel recording download error: ${recordingResponse.status}`);
+    }
+    return recordingResponse;
+}
+
+// ExoML that ends the call; returned whenever a call cannot be connected to an agent
+export const EXOTEL_HANGUP_RESPONSE = '<Response><Hangup/></Response>';
+
+/**
+ * Creates the ExoML response to instruct Exotel to stream audio to a WebSocket.
+ * @param webSocketUrl The signed URL from ElevenLabs.
+ * @returns An XML string (ExoML).
+ */
+export function createExotelStreamResponse(webSocketUrl: string): string {
+    // Ensure the URL is properly XML-escaped
+    const escapedUrl = webSocketUrl.replace(/&/g, '&amp;');
+    return `
+        <Response>
+            <Stream url="${escapedUrl}" />
+        </Response>
+    `.trim();
+}
+
+/**
+ * Fetches a signed ElevenLabs conversation WebSocket URL for the agent, which
+ * Exotel streams the call audio to. The internal call id goes along as a dynamic
+ * variable so the post-call webhook can find the call.
+ */
+export async function getElevenLabsSignedUrl(elevenLabsAgentId: string, internalCallId: string, elevenlabsWebhookUrl?: string): Promise<string> {
+    const url = `https://api.elevenlabs.io/v1/convai/conversation/get-signed-url`;
+    const elResponse = await fetch(url, {
+        method: 'POST',
+        headers: { 'xi-api-key': process.env.ELEVENLABS_API_KEY!, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            agent_id: elevenLabsAgentId,
+            webhook_url: elevenlabsWebhookUrl,
+            conversation_initiation_client_data: {
+                type: 'conversation_initiation_client_data',
+                dynamic_variables: { call_id: internalCallId },
+            },
+        })
+    });
+
+    if (!elResponse.ok) {
+        const errorBody = await elResponse.text();
+        throw new Error(`ElevenLabs API error: ${elResponse.status} - ${errorBody}`);
+    }
+
+    const data = await elResponse.json();
+    if (!data.signed_url) {
+        throw new Error("ElevenLabs response missing signed_url");
+    }
+    return data.signed_url;
+}
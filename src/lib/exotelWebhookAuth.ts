@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+
+function getWebhookSecret() {
+  const secret = process.env.EXOTEL_WEBHOOK_SECRET;
+  if (!secret) throw new Error('EXOTEL_WEBHOOK_SECRET is not set');
+  return secret;
+}
+
+// Optional comma-separated list of IPs / IPv4 CIDR ranges Exotel calls us from, e.g. "54.251.0.0/16,13.232.1.10"
+const IP_ALLOWLIST = (process.env.EXOTEL_IP_ALLOWLIST || '')
+  .split(',')
+  .map(entry => entry.trim())
+  .filter(Boolean);
+
+/**
+ * The per-call token embedded in Exotel's CustomField. Only someone holding the
+ * secret can produce a token for a given call id. Throws when the secret is not
+ * configured, so calls are never dialed with tokens nobody can check.
+ */
+export function signCallToken(internalCallId: string) {
+  return crypto.createHmac('sha256', getWebhookSecret()).update(internalCallId).digest('hex');
+}
+
+export function isValidCallToken(internalCallId: string, token: string | null | undefined) {
+  if (!internalCallId || !token) return false;
+  const expected = signCallToken(internalCallId);
+  try {
+    return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+  } catch {
+    return false; // Different lengths
+  }
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function matchesAllowlistEntry(ip: string, entry: string) {
+  if (!entry.includes('/')) return ip === entry;
+
+  const [range, bitsText] = entry.split('/');
+  const bits = Number(bitsText);
+  const ipValue = ipv4ToNumber(ip);
+  const rangeValue = ipv4ToNumber(range);
+  if (ipValue === null || rangeValue === null || !Number.isInteger(bits) || bits < 0 || bits > 32) return false;
+
+  const blockSize = 2 ** (32 - bits);
+  return Math.floor(ipValue / blockSize) === Math.floor(rangeValue / blockSize);
+}
+
+// The client IP as seen by the first proxy in front of us
+function getRequestIp(request: NextRequest) {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const ip = forwarded ? forwarded.split(',')[0].trim() : request.headers.get('x-real-ip') || '';
+  return ip.replace(/^::ffff:/, ''); // IPv4-mapped IPv6
+}
+
+/**
+ * True when no allowlist is configured, or the request comes from an allowed address.
+ */
+export function isAllowedExotelIp(request: NextRequest) {
+  if (IP_ALLOWLIST.length === 0) return true;
+  const ip = getRequestIp(request);
+  const allowed = !!ip && IP_ALLOWLIST.some(entry => matchesAllowlistEntry(ip, entry));
+  if (!allowed) {
+    console.warn(`Rejected Exotel request from ${ip || 'unknown IP'} (not in EXOTEL_IP_ALLOWLIST)`);
+  }
+  return allowed;
+}
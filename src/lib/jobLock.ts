@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+import JobLock from '@/models/jobLockModel';
+
+/**
+ * Tries to take the named lease for `ttlMs`. Returns the owner id on success,
+ * or null if another instance currently holds it.
+ */
+export async function acquireJobLock(name: string, ttlMs: number): Promise<string | null> {
+  const owner = crypto.randomUUID();
+  const now = new Date();
+
+  try {
+    // Either take over an expired lease or create it; a live lease makes the upsert
+    // collide on the unique name and throw a duplicate key error.
+    await JobLock.findOneAndUpdate(
+      { name, lockedUntil: { $lte: now } },
+      { $set: { lockedBy: owner, lockedUntil: new Date(now.getTime() + ttlMs) } },
+      { upsert: true, new: true }
+    );
+    return owner;
+  } catch (error: any) {
+    if (error?.code === 11000) return null;
+    throw error;
+  }
+}
+
+export async function releaseJobLock(name: string, owner: string) {
+  await JobLock.updateOne({ name, lockedBy: owner }, { $set: { lockedUntil: new Date(0) } });
+}
+
+/**
+ * Runs `job` while holding the named lease. Returns null without running it
+ * if the lease is held elsewhere.
+ */
+export async function withJobLock<T>(name: string, ttlMs: number, job: () => Promise<T>): Promise<T | null> {
+  const owner = await acquireJobLock(name, ttlMs);
+  if (!owner) {
+    console.log(`Job '${name}' is already running on another instance; skipping.`);
+    return null;
+  }
+  try {
+    return await job();
+  } finally {
+    await releaseJobLock(name, owner);
+  }
+}
@@ -0,0 +1,186 @@
+import { OpenAI } from 'openai';
+import mongoose from 'mongoose';
+import OutcomeDefinition from '@/models/outcomeDefinitionModel';
+import Agent from '@/models/agentModel';
+import Call, { ICall } from '@/models/callModel';
+import Campaign from '@/models/campaignModel';
+
+const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+export interface OutcomeDefinitionInput {
+  name: string;
+  description: string;
+  color: string;
+  countsAsSuccess: boolean;
+}
+
+export interface ResolvedOutcome extends OutcomeDefinitionInput {
+  _id?: string; // Unset for built-in defaults that were never saved
+  agentId?: string; // Agent _id for agent-specific outcomes
+  order: number;
+}
+
+// Used when the analyzer cannot tell, or answers with something not in the list
+export const FALLBACK_OUTCOME = 'neutral';
+
+// The taxonomy every account starts with. `do_not_call`, `call_back_later` and
+// `needs_follow_up` also drive the do-not-call list and callbacks.
+export const DEFAULT_OUTCOMES: OutcomeDefinitionInput[] = [
+  { name: 'highly_interested', description: 'The contact showed strong interest and wants to go ahead', color: '#22c55e', countsAsSuccess: true },
+  { name: 'appointment_scheduled', description: 'A meeting, visit, demo or appointment was booked', color: '#22c55e', countsAsSuccess: true },
+  { name: 'needs_follow_up', description: 'The contact is interested but needs more information or a follow-up', color: '#eab308', countsAsSuccess: false },
+  { name: 'not_interested', description: 'The contact clearly declined', color: '#ef4444', countsAsSuccess: false },
+  { name: 'do_not_call', description: 'The contact asked never to be called again', color: '#ef4444', countsAsSuccess: false },
+  { name: 'neutral', description: 'No clear interest or rejection', color: '#6b7280', countsAsSuccess: false },
+  { name: 'unqualified', description: 'The contact is not a fit (wrong person, no need, no budget)', color: '#ef4444', countsAsSuccess: false },
+  { name: 'call_back_later', description: 'The contact asked to be called back at another time', color: '#3b82f6', countsAsSuccess: false },
+];
+
+const toResolved = (definition: any): ResolvedOutcome => ({
+  _id: definition._id?.toString(),
+  agentId: definition.agentId?.toString(),
+  name: definition.name,
+  description: definition.description,
+  color: definition.color,
+  countsAsSuccess: !!definition.countsAsSuccess,
+  order: definition.order ?? 0,
+});
+
+/**
+ * Saves the default taxonomy for an account that has no account-wide outcomes yet,
+ * so the first edit starts from the defaults instead of an empty list.
+ */
+export async function ensureOutcomeDefinitions(userId: any) {
+  const existing = await OutcomeDefinition.countDocuments({ userId, agentId: null });
+  if (existing > 0) return;
+  await OutcomeDefinition.insertMany(
+    DEFAULT_OUTCOMES.map((outcome, order) => ({ ...outcome, userId, order })),
+    { ordered: false }
+  ).catch((error: any) => {
+    // Another request seeded the same account at the same time
+    if (error.code !== 11000) throw error;
+  });
+}
+
+export interface OutcomeTaxonomy {
+  forAgent(agentId?: any): ResolvedOutcome[];
+  find(outcome: string | undefined, agentId?: any): ResolvedOutcome | undefined;
+  isSuccess(outcome: string | undefined, agentId?: any): boolean;
+}
+
+/**
+ * An account's outcome taxonomy: account-wide outcomes (or the defaults, if never
+ * saved) plus each agent's own. An agent outcome with the same name replaces the
+ * account-wide one for that agent.
+ */
+export function createOutcomeTaxonomy(accountOutcomes: ResolvedOutcome[], agentOutcomes: ResolvedOutcome[]): OutcomeTaxonomy {
+  const forAgent = (agentId?: any) => {
+    const own = agentId ? agentOutcomes.filter(o => o.agentId === agentId.toString()) : [];
+    const overridden = new Set(own.map(o => o.name));
+    return [...accountOutcomes.filter(o => !overridden.has(o.name)), ...own].sort((a, b) => a.order - b.order);
+  };
+  const find = (outcome: string | undefined, agentId?: any) => (outcome ? forAgent(agentId).find(o => o.name === outcome) : undefined);
+  return { forAgent, find, isSuccess: (outcome, agentId) => !!find(outcome, agentId)?.countsAsSuccess };
+}
+
+export async function loadOutcomeTaxonomy(userId: any): Promise<OutcomeTaxonomy> {
+  const definitions = await OutcomeDefinition.find({ userId }).sort({ order: 1, createdAt: 1 }).lean<any[]>();
+  const account = definitions.filter(d => !d.agentId).map(toResolved);
+  const agents = definitions.filter(d => d.agentId).map(toResolved);
+  return createOutcomeTaxonomy(
+    account.length > 0 ? account : DEFAULT_OUTCOMES.map((outcome, order) => ({ ...outcome, order })),
+    agents
+  );
+}
+
+/**
+ * Resolves an agent given as its ElevenLabs id or our own _id, within the account.
+ */
+export async function findAccountAgent(userId: any, agentId: string) {
+  const query = mongoose.Types.ObjectId.isValid(agentId) ? { _id: agentId } : { agentId };
+  return Agent.findOne({ ...query, userId }).select('_id agentId name');
+}
+
+/**
+ * Picks the call's outcome from the summary, choosing from the outcomes defined for
+ * the call's agent. Answers outside the list fall back to "neutral".
+ */
+export async function analyzeCallOutcome(summary: string, outcomes: ResolvedOutcome[]): Promise<string> {
+  if (!summary?.trim() || outcomes.length === 0) return FALLBACK_OUTCOME;
+
+  const list = outcomes.map(o => `- ${o.name}: ${o.description}`).join('\n');
+  try {
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-3.5-turbo',
+      temperature: 0,
+      messages: [
+        {
+          role: 'system',
+          content: `You analyze call summaries. Determine the outcome from this list:\n${list}\nRespond with only the outcome name.`,
+        },
+        { role: 'user', content: `Call summary: ${summary}` },
+      ],
+    });
+    const answer = completion.choices[0]?.message?.content?.trim().toLowerCase().replace(/[^a-z0-9_]/g, '') || '';
+    return outcomes.some(o => o.name === answer) ? answer : FALLBACK_OUTCOME;
+  } catch (err) {
+    console.error('OpenAI outcome analysis failed:', err);
+    return FALLBACK_OUTCOME;
+  }
+}
+
+/**
+ * Records whether the call's outcome counts as a success and keeps its campaign's
+ * successfulCalls counter in step. Safe to call every time the outcome is (re)set:
+ * the counter only moves when the call's success flag actually changes.
+ */
+export async function recordOutcomeSuccess(call: ICall, taxonomy?: OutcomeTaxonomy) {
+  const outcomes = taxonomy || (await loadOutcomeTaxonomy(call.userId));
+  const success = outcomes.isSuccess(call.outcome, call.agentId);
+
+  const before = await Call.findOneAndUpdate(
+    { _id: call._id, outcomeSuccess: { $ne: success } },
+    { $set: { outcomeSuccess: success } },
+    { new: false }
+  ).select('outcomeSuccess campaignId');
+  call.outcomeSuccess = success;
+  if (!before?.campaignId) return;
+
+  const delta = success ? 1 : before.outcomeSuccess ? -1 : 0;
+  if (delta !== 0) {
+    await Campaign.updateOne({ _id: before.campaignId }, { $inc: { successfulCalls: delta } });
+  }
+}
+
+/**
+ * Validates an outcome definition from a request body. With `partial`, only the
+ * fields present are checked (for updates).
+ */
+export function parseOutcomeDefinition(body: any, partial = false): { fields: Partial<OutcomeDefinitionInput>; error?: string } {
+  const fields: Partial<OutcomeDefinitionInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+    if (!/^[a-z][a-z0-9_]{0,49}$/.test(name)) {
+      return { fields, error: 'Outcome name must start with a letter and use only letters, digits and underscores (max 50)' };
+    }
+    fields.name = name;
+  }
+  if (body.description !== undefined || !partial) {
+    if (typeof body.description !== 'string' || !body.description.trim()) {
+      return { fields, error: 'Describe when this outcome applies; the analyzer relies on it' };
+    }
+    fields.description = body.description.trim();
+  }
+  if (body.color !== undefined) {
+    if (typeof body.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(body.color)) {
+      return { fields, error: 'Colour must be a hex value like #22c55e' };
+    }
+    fields.color = body.color;
+  }
+  if (body.countsAsSuccess !== undefined) {
+    if (typeof body.countsAsSuccess !== 'boolean') return { fields, error: 'countsAsSuccess must be true or false' };
+    fields.countsAsSuccess = body.countsAsSuccess;
+  }
+  return { fields };
+}
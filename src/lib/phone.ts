@@ -0,0 +1,124 @@
+// Phone number parsing and E.164 formatting shared by contacts, calls, leads and imports.
+
+export interface ParsedPhoneNumber {
+  e164: string; // "+919876543210"
+  countryCallingCode: string; // "91"
+  nationalNumber: string; // "9876543210"
+}
+
+interface RegionRules {
+  callingCode: string;
+  nationalLengths: number[]; // Valid lengths of the national (significant) number
+  trunkPrefix?: string; // Dialed before national numbers inside the country, e.g. "0"
+}
+
+// Regions we dial most; numbers from other countries are accepted when written with their country code
+const REGIONS: Record<string, RegionRules> = {
+  IN: { callingCode: '91', nationalLengths: [10], trunkPrefix: '0' },
+  US: { callingCode: '1', nationalLengths: [10], trunkPrefix: '1' },
+  CA: { callingCode: '1', nationalLengths: [10], trunkPrefix: '1' },
+  GB: { callingCode: '44', nationalLengths: [9, 10], trunkPrefix: '0' },
+  AE: { callingCode: '971', nationalLengths: [8, 9], trunkPrefix: '0' },
+  SA: { callingCode: '966', nationalLengths: [8, 9], trunkPrefix: '0' },
+  SG: { callingCode: '65', nationalLengths: [8] },
+  AU: { callingCode: '61', nationalLengths: [9], trunkPrefix: '0' },
+  DE: { callingCode: '49', nationalLengths: [6, 7, 8, 9, 10, 11], trunkPrefix: '0' },
+  FR: { callingCode: '33', nationalLengths: [9], trunkPrefix: '0' },
+  NP: { callingCode: '977', nationalLengths: [8, 10], trunkPrefix: '0' },
+  BD: { callingCode: '880', nationalLengths: [8, 9, 10], trunkPrefix: '0' },
+  LK: { callingCode: '94', nationalLengths: [9], trunkPrefix: '0' },
+  PK: { callingCode: '92', nationalLengths: [9, 10], trunkPrefix: '0' },
+};
+
+// Region used for numbers written without a country code
+export const DEFAULT_PHONE_REGION = (process.env.DEFAULT_PHONE_REGION || 'IN').toUpperCase();
+
+// E.164 allows at most 15 digits; anything shorter than 7 is not a dialable number
+const MIN_E164_DIGITS = 7;
+const MAX_E164_DIGITS = 15;
+
+function rulesForCallingCode(digits: string): RegionRules | null {
+  // Calling codes are prefix-free, so the first match of length 1-3 is the right one
+  for (let length = 1; length <= 3; length++) {
+    const code = digits.slice(0, length);
+    const rules = Object.values(REGIONS).find(r => r.callingCode === code);
+    if (rules) return rules;
+  }
+  return null;
+}
+
+function fromInternational(digits: string): ParsedPhoneNumber | null {
+  if (digits.length < MIN_E164_DIGITS || digits.length > MAX_E164_DIGITS) return null;
+
+  const rules = rulesForCallingCode(digits);
+  if (!rules) {
+    // Unknown country: only the overall length can be checked
+    return { e164: `+${digits}`, countryCallingCode: '', nationalNumber: digits };
+  }
+
+  const nationalNumber = digits.slice(rules.callingCode.length);
+  if (!rules.nationalLengths.includes(nationalNumber.length)) return null;
+  return { e164: `+${digits}`, countryCallingCode: rules.callingCode, nationalNumber };
+}
+
+/**
+ * Parses a phone number as typed by a person or found in a CSV: "+91 98765 43210",
+ * "098765-43210", "0091 9876543210" and "919876543210" all become +919876543210
+ * (with IN as the region). Returns null when the number is not valid.
+ */
+export function parsePhoneNumber(input: string | null | undefined, defaultRegion = DEFAULT_PHONE_REGION): ParsedPhoneNumber | null {
+  if (!input) return null;
+  const cleaned = String(input).trim().replace(/[\s\-().\/]/g, '');
+  if (!/^\+?\d+$/.test(cleaned)) return null;
+
+  if (cleaned.startsWith('+')) return fromInternational(cleaned.slice(1));
+  if (cleaned.startsWith('00')) return fromInternational(cleaned.slice(2));
+
+  const region = REGIONS[defaultRegion.toUpperCase()];
+  if (!region) return null;
+
+  let national = cleaned;
+  if (region.nationalLengths.includes(national.length)) {
+    return fromInternational(region.callingCode + national);
+  }
+  // National format with the trunk prefix, e.g. "09876543210"
+  if (region.trunkPrefix && national.startsWith(region.trunkPrefix)) {
+    national = national.slice(region.trunkPrefix.length);
+    if (region.nationalLengths.includes(national.length)) {
+      return fromInternational(region.callingCode + national);
+    }
+  }
+  // The country code without a plus, e.g. "919876543210"
+  if (cleaned.startsWith(region.callingCode)) {
+    return fromInternational(cleaned);
+  }
+  return null;
+}
+
+/**
+ * The number in E.164 ("+919876543210"), or null if it cannot be parsed.
+ */
+export function normalizePhoneNumber(input: string | null | undefined, defaultRegion = DEFAULT_PHONE_REGION): string | null {
+  return parsePhoneNumber(input, defaultRegion)?.e164 ?? null;
+}
+
+export function isValidPhoneNumber(input: string | null | undefined, defaultRegion = DEFAULT_PHONE_REGION) {
+  return parsePhoneNumber(input, defaultRegion) !== null;
+}
+
+/**
+ * True if both strings are the same number, however they were written.
+ */
+export function isSamePhoneNumber(a: string | null | undefined, b: string | null | undefined) {
+  const left = normalizePhoneNumber(a);
+  return left !== null && left === normalizePhoneNumber(b);
+}
+
+/**
+ * Mongoose setter for phone number fields: stores valid numbers in E.164 and
+ * leaves anything unparseable as typed, so it is never silently lost.
+ */
+export function phoneNumberSetter(value: string) {
+  if (typeof value !== 'string') return value;
+  return normalizePhoneNumber(value) ?? value.trim();
+}
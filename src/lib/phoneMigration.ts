@@ -0,0 +1,140 @@
+import mongoose from 'mongoose';
+import Contact from '@/models/contactModel';
+import Lead from '@/models/leadModel';
+import Call from '@/models/callModel';
+import Campaign from '@/models/campaignModel';
+import { normalizePhoneNumber } from '@/lib/phone';
+
+export interface PhoneMigrationReport {
+  dryRun: boolean;
+  contacts: { scanned: number; normalized: number; merged: number; invalid: number };
+  leads: { scanned: number; normalized: number; invalid: number };
+  calls: { scanned: number; normalized: number; invalid: number };
+  invalidContacts: { id: string; phoneNumber: string }[]; // Left as they are for a person to fix
+}
+
+// Contact fields copied from a duplicate when the kept contact has no value
+const MERGED_CONTACT_FIELDS = ['name', 'email', 'company', 'jobTitle', 'notes', 'timezone'];
+
+const BULK_BATCH_SIZE = 500;
+
+/**
+ * Rewrites phone numbers in a collection to E.164 in batches. Works on the raw
+ * collection so documents are touched only when their stored value changes.
+ */
+async function normalizeCollection(model: mongoose.Model<any>, fields: string[], dryRun: boolean) {
+  const stats = { scanned: 0, normalized: 0, invalid: 0 };
+  const projection = Object.fromEntries(fields.map(f => [f, 1]));
+  const cursor = model.collection.find({}, { projection });
+  let batch: any[] = [];
+
+  const flush = async () => {
+    if (!dryRun && batch.length > 0) await model.collection.bulkWrite(batch, { ordered: false });
+    batch = [];
+  };
+
+  for await (const doc of cursor) {
+    stats.scanned++;
+    const set: Record<string, string> = {};
+    for (const field of fields) {
+      const value = doc[field];
+      if (typeof value !== 'string' || !value) continue;
+      const normalized = normalizePhoneNumber(value);
+      if (!normalized) {
+        if (field === fields[0]) stats.invalid++;
+      } else if (normalized !== value) {
+        set[field] = normalized;
+      }
+    }
+    if (Object.keys(set).length === 0) continue;
+
+    stats.normalized++;
+    batch.push({ updateOne: { filter: { _id: doc._id }, update: { $set: set } } });
+    if (batch.length >= BULK_BATCH_SIZE) await flush();
+  }
+  await flush();
+  return stats;
+}
+
+/**
+ * Folds duplicate contacts into the oldest one: missing fields and tags are
+ * copied over, calls, leads and campaigns are pointed at it, and the rest are deleted.
+ */
+async function mergeContacts(keeper: any, duplicates: any[]) {
+  const duplicateIds = duplicates.map(d => d._id);
+  const set: Record<string, any> = {};
+
+  for (const field of MERGED_CONTACT_FIELDS) {
+    if (keeper[field]) continue;
+    const donor = duplicates.find(d => d[field]);
+    if (donor) set[field] = donor[field];
+  }
+  const tags = new Set<string>([...(keeper.tags || []), ...duplicates.flatMap(d => d.tags || [])]);
+  if (tags.size > 0) set.tags = [...tags];
+  const lastContacted = [keeper, ...duplicates]
+    .map(c => c.lastContacted)
+    .filter(Boolean)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+  if (lastContacted) set.lastContacted = lastContacted;
+
+  await Call.collection.updateMany({ contactId: { $in: duplicateIds } }, { $set: { contactId: keeper._id } });
+  await Lead.collection.updateMany({ contactId: { $in: duplicateIds } }, { $set: { contactId: keeper._id } });
+
+  // $addToSet and $pull cannot target the same field in one update
+  const campaignFilter = { contacts: { $in: duplicateIds } };
+  await Campaign.collection.updateMany(campaignFilter, { $addToSet: { contacts: keeper._id } });
+  await Campaign.collection.updateMany(campaignFilter, { $pull: { contacts: { $in: duplicateIds } } } as any);
+
+  // Duplicates go first: one of them may hold the E.164 value the keeper is about to take
+  await Contact.collection.deleteMany({ _id: { $in: duplicateIds } });
+  return set;
+}
+
+async function normalizeContacts(dryRun: boolean, report: PhoneMigrationReport) {
+  const groups = new Map<string, any[]>();
+
+  for await (const contact of Contact.collection.find({}).sort({ createdAt: 1, _id: 1 })) {
+    report.contacts.scanned++;
+    const normalized = normalizePhoneNumber(contact.phoneNumber);
+    if (!normalized) {
+      report.contacts.invalid++;
+      report.invalidContacts.push({ id: contact._id.toString(), phoneNumber: contact.phoneNumber });
+      continue;
+    }
+    const key = `${contact.userId}:${normalized}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push({ ...contact, normalized });
+  }
+
+  for (const [, [keeper, ...duplicates]] of groups) {
+    if (duplicates.length === 0 && keeper.phoneNumber === keeper.normalized) continue;
+
+    report.contacts.normalized++;
+    report.contacts.merged += duplicates.length;
+    if (dryRun) continue;
+
+    const set = duplicates.length > 0 ? await mergeContacts(keeper, duplicates) : {};
+    await Contact.collection.updateOne({ _id: keeper._id }, { $set: { ...set, phoneNumber: keeper.normalized } });
+  }
+}
+
+/**
+ * One-off migration of existing data to E.164: contacts (merging ones that turn
+ * out to be the same number), leads and calls. Safe to run more than once.
+ */
+export async function migratePhoneNumbers({ dryRun = false } = {}): Promise<PhoneMigrationReport> {
+  const report: PhoneMigrationReport = {
+    dryRun,
+    contacts: { scanned: 0, normalized: 0, merged: 0, invalid: 0 },
+    leads: { scanned: 0, normalized: 0, invalid: 0 },
+    calls: { scanned: 0, normalized: 0, invalid: 0 },
+    invalidContacts: [],
+  };
+
+  await normalizeContacts(dryRun, report);
+  report.leads = await normalizeCollection(Lead, ['phoneNumber'], dryRun);
+  report.calls = await normalizeCollection(Call, ['phoneNumber', 'inboundNumber'], dryRun);
+
+  console.log(`Phone number migration${dryRun ? ' (dry run)' : ''}:`, JSON.stringify({ ...report, invalidContacts: report.invalidContacts.length }));
+  return report;
+}
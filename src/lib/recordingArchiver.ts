@@ -0,0 +1,150 @@
+import connectDB from '@/lib/db';
+import Call, { ICall } from '@/models/callModel';
+import { getProviderForCall } from '@/lib/telephony';
+import { fetchConversationAudio } from '@/lib/elevenLabs';
+import { withJobLock } from '@/lib/jobLock';
+import { getRecordingStorage } from '@/lib/storage';
+
+// Calls that connected to someone; other terminal statuses have nothing to record
+const RECORDED_STATUSES: ICall['status'][] = ['ended', 'completed'];
+
+// Providers publish recordings a little after the call ends
+const ARCHIVE_DELAY_MS = 2 * 60 * 1000;
+
+// Recordings can take a while to show up, so retry with a growing delay before giving up
+const MAX_ARCHIVE_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+const MAX_RECORDINGS_PER_RUN = 20;
+
+const ARCHIVE_LOCK_TTL_MS = 10 * 60 * 1000;
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+};
+
+export interface ArchiveResult {
+  archived: number;
+  unavailable: number; // No provider had a recording after every attempt
+  failed: number; // Attempts that errored and will be retried (or gave up)
+  skipped?: boolean; // Another instance was already archiving
+}
+
+export function recordingPlaybackUrl(callId: any) {
+  return `/api/calls/${callId}/recording`;
+}
+
+/**
+ * Downloads the call's audio: the provider's own recording first (Exotel's recording
+ * URL or Twilio's recording), then the ElevenLabs conversation audio.
+ */
+async function downloadRecording(call: ICall) {
+  const provider = getProviderForCall(call);
+  const providerRecording = await provider.fetchRecording(call);
+  if (providerRecording) {
+    return { source: provider.name, response: providerRecording };
+  }
+
+  if (call.conversationId) {
+    const audio = await fetchConversationAudio(call.conversationId);
+    if (audio) return { source: 'elevenlabs' as const, response: audio };
+  }
+
+  return null;
+}
+
+/**
+ * Fetches one call's recording and stores it in the configured storage backend.
+ * Returns false when no recording is available yet.
+ */
+export async function archiveCallRecording(call: ICall): Promise<boolean> {
+  const download = await downloadRecording(call);
+  if (!download) return false;
+
+  const data = Buffer.from(await download.response.arrayBuffer());
+  const contentType = (download.response.headers.get('content-type') || 'audio/mpeg').split(';')[0].trim();
+  const extension = CONTENT_TYPE_EXTENSIONS[contentType] || 'bin';
+  const key = `${call.userId}/${call._id}.${extension}`;
+
+  const storage = getRecordingStorage();
+  await storage.put(key, data, contentType);
+
+  call.recordingStatus = 'archived';
+  call.recordingSource = download.source;
+  call.recordingStorage = storage.name;
+  call.recordingKey = key;
+  call.recordingContentType = contentType;
+  call.recordingSize = data.length;
+  call.recordingArchivedAt = new Date();
+  call.recordingUrl = recordingPlaybackUrl(call._id);
+  call.recordingError = undefined;
+  call.recordingNextAttemptAt = undefined;
+  await call.save();
+  return true;
+}
+
+/**
+ * Claims a finished call whose recording is due to be archived. The claim pushes
+ * recordingNextAttemptAt forward, so a crashed run does not block the call forever.
+ */
+async function claimNextCall(now: Date) {
+  return Call.findOneAndUpdate(
+    {
+      status: { $in: RECORDED_STATUSES },
+      recordingStatus: { $in: [null, 'pending'] },
+      updatedAt: { $lte: new Date(now.getTime() - ARCHIVE_DELAY_MS) },
+      $or: [{ recordingNextAttemptAt: null }, { recordingNextAttemptAt: { $lte: now } }],
+    },
+    {
+      $set: { recordingStatus: 'pending', recordingNextAttemptAt: new Date(now.getTime() + ARCHIVE_LOCK_TTL_MS) },
+      $inc: { recordingAttempts: 1 },
+    },
+    { sort: { updatedAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Archives recordings of recently finished calls. Meant to run from a cron job;
+ * runs under a Mongo lease so only one instance archives at a time.
+ */
+export async function archivePendingRecordings(now = new Date()): Promise<ArchiveResult> {
+  await connectDB();
+
+  const result: ArchiveResult = { archived: 0, unavailable: 0, failed: 0 };
+
+  const ran = await withJobLock('recording-archiver', ARCHIVE_LOCK_TTL_MS, async () => {
+    for (let i = 0; i < MAX_RECORDINGS_PER_RUN; i++) {
+      const call = await claimNextCall(now);
+      if (!call) break;
+
+      const attempts = call.recordingAttempts || 1;
+      const lastAttempt = attempts >= MAX_ARCHIVE_ATTEMPTS;
+      const retryAt = new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+
+      try {
+        if (await archiveCallRecording(call)) {
+          result.archived++;
+          continue;
+        }
+        call.recordingStatus = lastAttempt ? 'unavailable' : 'pending';
+        call.recordingNextAttemptAt = lastAttempt ? undefined : retryAt;
+        if (lastAttempt) result.unavailable++;
+      } catch (error: any) {
+        console.error(`Recording archiver: failed to archive call ${call._id}:`, error);
+        call.recordingStatus = lastAttempt ? 'failed' : 'pending';
+        call.recordingNextAttemptAt = lastAttempt ? undefined : retryAt;
+        call.recordingError = error.message;
+        result.failed++;
+      }
+      await call.save();
+    }
+    return true;
+  });
+
+  if (!ran) result.skipped = true;
+  return result;
+}
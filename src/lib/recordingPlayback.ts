@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ICall } from '@/models/callModel';
+import { ByteRange, getStorageBackend } from '@/lib/storage';
+
+/**
+ * Parses a single-range "Range: bytes=..." header against an object of `size` bytes.
+ * Returns null when there is no usable header (serve everything), or 'unsatisfiable'.
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null; // Multiple or malformed ranges: fall back to the whole file
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) return null;
+
+  let start: number;
+  let end: number;
+  if (!startText) {
+    // Suffix range: the last N bytes
+    const length = Number(endText);
+    if (length === 0) return 'unsatisfiable';
+    start = Math.max(0, size - length);
+    end = size - 1;
+  } else {
+    start = Number(startText);
+    end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+/**
+ * Streams an archived recording from its storage backend, honouring Range
+ * requests so browsers can seek without downloading the whole file.
+ */
+export async function serveArchivedRecording(request: NextRequest, call: ICall) {
+  const storage = getStorageBackend(call.recordingStorage);
+  const size = call.recordingSize ?? (await storage.size(call.recordingKey!));
+  if (size === null) {
+    return new NextResponse('Recording file is missing from storage', { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': call.recordingContentType || 'audio/mpeg',
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=3600',
+  };
+
+  const range = parseRangeHeader(request.headers.get('range'), size);
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${size}` } });
+  }
+  if (!range) {
+    const body = await storage.read(call.recordingKey!);
+    return new NextResponse(body, { status: 200, headers: { ...headers, 'Content-Length': String(size) } });
+  }
+
+  const body = await storage.read(call.recordingKey!, range);
+  return new NextResponse(body, {
+    status: 206,
+    headers: {
+      ...headers,
+      'Content-Length': String(range.end - range.start + 1),
+      'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+    },
+  });
+}
@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import User from '@/models/userModel';
+import { ICall } from '@/models/callModel';
+import { ITranscriptTurn } from '@/models/transcriptTurn';
+import { isValidPhoneNumber } from '@/lib/phone';
+
+export const REDACTION_CATEGORIES = ['card', 'aadhaar', 'pan', 'email', 'phone', 'otp'] as const;
+export type RedactionCategory = (typeof REDACTION_CATEGORIES)[number];
+
+// What happens to the unredacted text: kept encrypted for admins, or thrown away
+export const REDACTION_ORIGINAL_MODES = ['encrypt', 'discard'] as const;
+export type RedactionOriginalMode = (typeof REDACTION_ORIGINAL_MODES)[number];
+
+export interface RedactionSettings {
+  enabled: boolean;
+  categories: RedactionCategory[];
+  originals: RedactionOriginalMode;
+}
+
+// The unredacted fields of a call, as stored (encrypted) in Call.redactedOriginal
+export interface RedactedOriginal {
+  summary?: string;
+  transcription?: string;
+  transcript?: ITranscriptTurn[];
+}
+
+const MASKS: Record<RedactionCategory, string> = {
+  card: '[CARD]',
+  aadhaar: '[AADHAAR]',
+  pan: '[PAN]',
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  otp: '[OTP]',
+};
+
+const DEFAULT_REDACTION_SETTINGS: RedactionSettings = { enabled: false, categories: [...REDACTION_CATEGORIES], originals: 'discard' };
+
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const PAN = /\b[A-Z]{3}[PCHABGJLFT][A-Z]\d{4}[A-Z]\b/gi;
+// A code read out right after it is named, e.g. "my OTP is 4 8 2 9 1 0"
+const OTP = /\b(otp|one[\s-]time\s(?:password|code)|verification\scode|security\scode|pin)\b([^\d\n]{0,20})(\d(?:[\s-]?\d){3,7})(?!\d)/gi;
+// Runs of digits spoken or typed with spaces/dashes; classified as card, Aadhaar or phone below
+const DIGIT_RUN = /\+?\d(?:[\s-]?\d){6,18}(?!\d)/g;
+
+// A key of its own, so rotating other secrets never makes stored originals unreadable
+function getEncryptionKey() {
+  const secret = process.env.PII_ENCRYPTION_KEY;
+  if (!secret) throw new Error('PII_ENCRYPTION_KEY is not set');
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+// Verhoeff tables; every Aadhaar number ends in a Verhoeff check digit
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function passesVerhoeff(digits: string) {
+  let check = 0;
+  [...digits].reverse().forEach((digit, i) => {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+function passesLuhn(digits: string) {
+  let sum = 0;
+  [...digits].reverse().forEach((digit, i) => {
+    let value = Number(digit);
+    if (i % 2 === 1) {
+      value *= 2;
+      if (value > 9) value -= 9;
+    }
+    sum += value;
+  });
+  return sum % 10 === 0;
+}
+
+function classifyDigitRun(run: string, categories: RedactionCategory[]): RedactionCategory | null {
+  const digits = run.replace(/\D/g, '');
+  if (categories.includes('card') && digits.length >= 13 && digits.length <= 19 && passesLuhn(digits)) return 'card';
+  if (categories.includes('aadhaar') && digits.length === 12 && /^[2-9]/.test(digits) && !run.startsWith('+') && passesVerhoeff(digits)) return 'aadhaar';
+  if (categories.includes('phone') && digits.length >= 8 && digits.length <= 15 && isValidPhoneNumber(run)) return 'phone';
+  return null;
+}
+
+/**
+ * Masks personal data in free text: card numbers (Luhn-checked), Aadhaar numbers
+ * (Verhoeff-checked), PAN numbers, emails, phone numbers and OTPs read out in the call.
+ * Returns the categories it found so callers know whether anything changed.
+ */
+export function redactText(text: string, categories: RedactionCategory[] = [...REDACTION_CATEGORIES]) {
+  const found = new Set<RedactionCategory>();
+  if (!text) return { text, found: [] as RedactionCategory[] };
+
+  let result = text;
+  if (categories.includes('email')) {
+    result = result.replace(EMAIL, () => (found.add('email'), MASKS.email));
+  }
+  if (categories.includes('pan')) {
+    result = result.replace(PAN, () => (found.add('pan'), MASKS.pan));
+  }
+  if (categories.includes('otp')) {
+    result = result.replace(OTP, (_match, keyword, between) => (found.add('otp'), `${keyword}${between}${MASKS.otp}`));
+  }
+  result = result.replace(DIGIT_RUN, run => {
+    const category = classifyDigitRun(run, categories);
+    if (!category) return run;
+    found.add(category);
+    return MASKS[category];
+  });
+
+  return { text: result, found: [...found] };
+}
+
+export function encryptOriginal(original: RedactedOriginal) {
+  const key = getEncryptionKey();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(original), 'utf8'), cipher.final()]);
+  // iv.tag.ciphertext, all base64
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+export function decryptOriginal(payload: string): RedactedOriginal {
+  const key = getEncryptionKey();
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return JSON.parse(Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8'));
+}
+
+/**
+ * Loads the account's redaction settings. Accounts that never saved any have redaction off.
+ */
+export async function getAccountRedactionSettings(userId: any): Promise<RedactionSettings> {
+  const user = await User.findById(userId).select('redaction').lean<any>();
+  if (!user?.redaction) return DEFAULT_REDACTION_SETTINGS;
+  return {
+    enabled: !!user.redaction.enabled,
+    categories: user.redaction.categories?.length ? user.redaction.categories : DEFAULT_REDACTION_SETTINGS.categories,
+    originals: user.redaction.originals || DEFAULT_REDACTION_SETTINGS.originals,
+  };
+}
+
+function redactTurns(turns: ITranscriptTurn[], categories: RedactionCategory[], found: Set<RedactionCategory>) {
+  const redact = (value?: string) => {
+    if (!value) return value;
+    const redacted = redactText(value, categories);
+    redacted.found.forEach(category => found.add(category));
+    return redacted.text;
+  };
+  return turns.map(turn => ({
+    role: turn.role,
+    text: redact(turn.text) || '',
+    startOffset: turn.startOffset,
+    interrupted: turn.interrupted,
+    toolCalls: (turn.toolCalls || []).map(toolCall => ({ ...toolCall, params: redact(toolCall.params), result: redact(toolCall.result) })),
+  }));
+}
+
+/**
+ * Redacts a call's summary and transcript with the given settings. Works on plain
+ * objects (lean queries, API payloads) and returns a copy; the input is left alone.
+ */
+export function redactCallContent<T extends RedactedOriginal>(call: T, settings: RedactionSettings): { call: T; found: RedactionCategory[] } {
+  if (!settings.enabled) return { call, found: [] };
+
+  const found = new Set<RedactionCategory>();
+  const redacted: T = { ...call };
+  for (const field of ['summary', 'transcription'] as const) {
+    const value = call[field];
+    if (!value) continue;
+    const result = redactText(value, settings.categories);
+    result.found.forEach(category => found.add(category));
+    redacted[field] = result.text;
+  }
+  if (call.transcript?.length) {
+    redacted.transcript = redactTurns(call.transcript, settings.categories, found);
+  }
+  return { call: redacted, found: [...found] };
+}
+
+/**
+ * Applies the account's redaction settings to a call document before it is saved.
+ * When something was masked and the account keeps originals, the unredacted text
+ * is stored encrypted in Call.redactedOriginal, readable only by admins.
+ */
+export async function redactCallBeforeSave(call: ICall) {
+  const settings = await getAccountRedactionSettings(call.userId);
+  if (!settings.enabled) return;
+
+  const original: RedactedOriginal = {
+    summary: call.summary,
+    transcription: call.transcription,
+    transcript: call.transcript?.map(turn => (typeof (turn as any).toObject === 'function' ? (turn as any).toObject() : turn)),
+  };
+  const { call: redacted, found } = redactCallContent(original, settings);
+  if (found.length === 0) return;
+
+  call.summary = redacted.summary;
+  call.transcription = redacted.transcription;
+  if (redacted.transcript) call.transcript = redacted.transcript;
+  call.redactedCategories = [...new Set([...(call.redactedCategories || []), ...found])];
+  call.redactedAt = new Date();
+  call.redactedOriginal = settings.originals === 'encrypt' ? encryptOriginal(original) : undefined;
+}
+
+/**
+ * Validates redaction settings from a request body.
+ */
+export function parseRedactionSettings(body: any): { fields: Partial<RedactionSettings>; error?: string } {
+  const fields: Partial<RedactionSettings> = {};
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') return { fields, error: 'enabled must be true or false' };
+    fields.enabled = body.enabled;
+  }
+  if (body.categories !== undefined) {
+    if (!Array.isArray(body.categories) || body.categories.some((c: any) => !REDACTION_CATEGORIES.includes(c))) {
+      return { fields, error: `categories must be a list of: ${REDACTION_CATEGORIES.join(', ')}` };
+    }
+    if (body.categories.length === 0) return { fields, error: 'Pick at least one kind of data to redact' };
+    fields.categories = [...new Set<RedactionCategory>(body.categories)];
+  }
+  if (body.originals !== undefined) {
+    if (!REDACTION_ORIGINAL_MODES.includes(body.originals)) {
+      return { fields, error: `originals must be one of: ${REDACTION_ORIGINAL_MODES.join(', ')}` };
+    }
+    if (body.originals === 'encrypt' && !process.env.PII_ENCRYPTION_KEY) {
+      return { fields, error: 'Originals can only be kept once PII_ENCRYPTION_KEY is configured' };
+    }
+    fields.originals = body.originals;
+  }
+  return { fields };
+}
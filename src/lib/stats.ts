@@ -0,0 +1,90 @@
+// Small statistics helpers for comparing campaign variants.
+
+export interface ChiSquareResult {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  lowExpectedCounts: boolean; // Some expected cell count is below 5, so the p-value is unreliable
+}
+
+// Natural log of the gamma function (Lanczos approximation)
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) series += c / ++y;
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+// Regularized upper incomplete gamma function Q(a, x)
+function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+
+  if (x < a + 1) {
+    // Series representation of P(a, x), then Q = 1 - P
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 200; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+  }
+
+  // Continued fraction representation of Q(a, x) (modified Lentz)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 200; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/**
+ * Pearson's chi-square test of independence on a contingency table
+ * (rows = groups, columns = categories). Rows or columns that are all zero are ignored.
+ */
+export function chiSquareTest(table: number[][]): ChiSquareResult {
+  const rows = table.filter(row => row.some(v => v > 0));
+  const columnCount = rows[0]?.length || 0;
+  const columns = Array.from({ length: columnCount }, (_, j) => j).filter(j => rows.some(row => row[j] > 0));
+
+  const degreesOfFreedom = (rows.length - 1) * (columns.length - 1);
+  if (degreesOfFreedom <= 0) {
+    return { chiSquare: 0, degreesOfFreedom: 0, pValue: 1, lowExpectedCounts: true };
+  }
+
+  const rowTotals = rows.map(row => columns.reduce((sum, j) => sum + row[j], 0));
+  const columnTotals = columns.map(j => rows.reduce((sum, row) => sum + row[j], 0));
+  const total = rowTotals.reduce((a, b) => a + b, 0);
+
+  let chiSquare = 0;
+  let lowExpectedCounts = false;
+  rows.forEach((row, i) => {
+    columns.forEach((j, k) => {
+      const expected = (rowTotals[i] * columnTotals[k]) / total;
+      if (expected < 5) lowExpectedCounts = true;
+      chiSquare += (row[j] - expected) ** 2 / expected;
+    });
+  });
+
+  const pValue = upperIncompleteGamma(degreesOfFreedom / 2, chiSquare / 2);
+  return { chiSquare, degreesOfFreedom, pValue: Math.min(1, Math.max(0, pValue)), lowExpectedCounts };
+}
@@ -0,0 +1,30 @@
+import { localStorageBackend } from './local';
+import { s3StorageBackend } from './s3';
+import { StorageBackend, StorageBackendName, STORAGE_BACKENDS } from './types';
+
+export * from './types';
+
+const BACKENDS: Record<StorageBackendName, StorageBackend> = {
+  local: localStorageBackend,
+  s3: s3StorageBackend,
+};
+
+export function isStorageBackendName(value: any): value is StorageBackendName {
+  return STORAGE_BACKENDS.includes(value);
+}
+
+/**
+ * The backend new recordings are written to: RECORDING_STORAGE ("local" or "s3"), local by default.
+ */
+export function getRecordingStorage(): StorageBackend {
+  const name = process.env.RECORDING_STORAGE;
+  return isStorageBackendName(name) ? BACKENDS[name] : BACKENDS.local;
+}
+
+/**
+ * The backend an archived object was written to, so switching RECORDING_STORAGE
+ * does not break playback of older recordings.
+ */
+export function getStorageBackend(name?: string | null): StorageBackend {
+  return isStorageBackendName(name) ? BACKENDS[name] : BACKENDS.local;
+}
@@ -0,0 +1,53 @@
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageBackend } from './types';
+
+function getRoot() {
+  return path.resolve(process.env.RECORDING_STORAGE_DIR || path.join(process.cwd(), 'storage', 'recordings'));
+}
+
+// Resolves a key inside the storage root, refusing keys that would escape it
+function resolveKey(key: string) {
+  const root = getRoot();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+/**
+ * Stores objects as files under RECORDING_STORAGE_DIR (./storage/recordings by default).
+ */
+export const localStorageBackend: StorageBackend = {
+  name: 'local',
+
+  async put(key, data) {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename, so a reader never sees a half-written file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  },
+
+  async size(key) {
+    try {
+      const stat = await fs.stat(resolveKey(key));
+      return stat.size;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  },
+
+  async read(key, range) {
+    const stream = createReadStream(resolveKey(key), range ? { start: range.start, end: range.end } : undefined);
+    return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+  },
+
+  async delete(key) {
+    await fs.rm(resolveKey(key), { force: true });
+  },
+};
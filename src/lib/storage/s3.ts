@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { StorageBackend } from './types';
+
+function getS3Config() {
+  const region = process.env.S3_REGION || 'us-east-1';
+  return {
+    region,
+    bucket: process.env.S3_BUCKET!,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+    endpoint: (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, ''), // MinIO, R2, Spaces...
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true', // Most non-AWS services need this
+  };
+}
+
+function objectUrl(key: string) {
+  const { bucket, endpoint, forcePathStyle } = getS3Config();
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  if (forcePathStyle) return new URL(`${endpoint}/${bucket}/${encodedKey}`);
+  const url = new URL(endpoint);
+  return new URL(`${url.protocol}//${bucket}.${url.host}/${encodedKey}`);
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * Signs a request with AWS Signature Version 4, which every S3-compatible service accepts.
+ */
+function signedHeaders(method: string, url: URL, payloadHash: string, extra: Record<string, string> = {}) {
+  const { region, accessKeyId, secretAccessKey } = getS3Config();
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''); // YYYYMMDDTHHMMSSZ
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...Object.fromEntries(Object.entries(extra).map(([k, v]) => [k.toLowerCase(), v])),
+  };
+  const names = Object.keys(headers).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    names.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+    names.join(';'),
+    payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  const { host, ...rest } = headers;
+  return {
+    ...rest,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+  };
+}
+
+async function s3Error(action: string, response: Response) {
+  return new Error(`S3 ${action} failed: ${response.status} ${await response.text()}`);
+}
+
+/**
+ * Stores objects in an S3-compatible bucket (S3_BUCKET, S3_ENDPOINT, S3_REGION and credentials).
+ */
+export const s3StorageBackend: StorageBackend = {
+  name: 's3',
+
+  async put(key, data, contentType) {
+    const url = objectUrl(key);
+    const headers = signedHeaders('PUT', url, sha256(data), { 'content-type': contentType });
+    const response = await fetch(url, { method: 'PUT', headers, body: new Uint8Array(data) });
+    if (!response.ok) throw await s3Error('upload', response);
+  },
+
+  async size(key) {
+    const url = objectUrl(key);
+    const response = await fetch(url, { method: 'HEAD', headers: signedHeaders('HEAD', url, 'UNSIGNED-PAYLOAD') });
+    if (response.status === 404) return null;
+    if (!response.ok) throw await s3Error('stat', response);
+    return Number(response.headers.get('content-length') || 0);
+  },
+
+  async read(key, range) {
+    const url = objectUrl(key);
+    const headers: Record<string, string> = signedHeaders('GET', url, 'UNSIGNED-PAYLOAD');
+    if (range) headers.Range = `bytes=${range.start}-${range.end}`;
+    const response = await fetch(url, { headers });
+    if (!response.ok || !response.body) throw await s3Error('download', response);
+    return response.body;
+  },
+
+  async delete(key) {
+    const url = objectUrl(key);
+    const response = await fetch(url, { method: 'DELETE', headers: signedHeaders('DELETE', url, 'UNSIGNED-PAYLOAD') });
+    if (!response.ok && response.status !== 404) throw await s3Error('delete', response);
+  },
+};
@@ -0,0 +1,22 @@
+export type StorageBackendName = 'local' | 's3';
+
+export const STORAGE_BACKENDS: StorageBackendName[] = ['local', 's3'];
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive, as in HTTP Range headers
+}
+
+/**
+ * Where archived call recordings live. Keys are relative paths such as
+ * "<userId>/<callId>.mp3"; content types are kept on the Call, not here.
+ */
+export interface StorageBackend {
+  name: StorageBackendName;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Size in bytes, or null when the object does not exist
+  size(key: string): Promise<number | null>;
+  // The whole object, or only `range` of it
+  read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+  delete(key: string): Promise<void>;
+}
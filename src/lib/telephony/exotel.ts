@@ -0,0 +1,38 @@
+import { ICall } from '@/models/callModel';
+import { makeExotelCall, hangupExotelCall, mapExotelStatus, fetchExotelRecording, isOwnCallerId } from '@/lib/exotel';
+import { TelephonyProvider } from './types';
+
+// Exotel dials the contact and streams the answered call to ElevenLabs via /api/exotel/connect
+export const exotelProvider: TelephonyProvider = {
+  name: 'exotel',
+
+  async dial(call, elevenLabsAgentId) {
+    const result = await makeExotelCall(call, elevenLabsAgentId);
+    return {
+      ok: result.ok,
+      providerCallSid: result.exotelCallSid,
+      httpStatus: result.httpStatus,
+      clientMessage: result.clientMessage,
+      details: result.details,
+    };
+  },
+
+  async hangup(call) {
+    if (!call.exotelCallSid) {
+      return { ok: false, httpStatus: 400, message: 'Exotel Call SID not found for this call.' };
+    }
+    return hangupExotelCall(call.exotelCallSid);
+  },
+
+  mapStatus: mapExotelStatus,
+
+  async fetchRecording(call) {
+    return call.exotelCallSid ? fetchExotelRecording(call.exotelCallSid) : null;
+  },
+
+  isOwnNumber: isOwnCallerId,
+
+  getCallSid(call: ICall) {
+    return call.exotelCallSid;
+  },
+};
@@ -0,0 +1,51 @@
+import User from '@/models/userModel';
+import { ICall } from '@/models/callModel';
+import { exotelProvider } from './exotel';
+import { twilioProvider } from './twilio';
+import { TelephonyProvider, TelephonyProviderName, TELEPHONY_PROVIDERS } from './types';
+
+export * from './types';
+
+const PROVIDERS: Record<TelephonyProviderName, TelephonyProvider> = {
+  exotel: exotelProvider,
+  twilio: twilioProvider,
+};
+
+export function isTelephonyProviderName(value: any): value is TelephonyProviderName {
+  return TELEPHONY_PROVIDERS.includes(value);
+}
+
+export function getTelephonyProvider(name?: string | null): TelephonyProvider {
+  return isTelephonyProviderName(name) ? PROVIDERS[name] : PROVIDERS.exotel;
+}
+
+/**
+ * The provider for a call that has already been dialed (calls created before
+ * providers existed are Exotel calls).
+ */
+export function getProviderForCall(call: Pick<ICall, 'provider'>): TelephonyProvider {
+  return getTelephonyProvider(call.provider);
+}
+
+/**
+ * Picks the provider an agent dials out with: the agent's own choice, then the
+ * account's, then DEFAULT_TELEPHONY_PROVIDER, then Exotel.
+ */
+export async function resolveProviderName(agent: { userId: any; telephonyProvider?: string | null }): Promise<TelephonyProviderName> {
+  if (isTelephonyProviderName(agent.telephonyProvider)) return agent.telephonyProvider;
+
+  const user = await User.findById(agent.userId).select('telephonyProvider').lean<any>();
+  if (isTelephonyProviderName(user?.telephonyProvider)) return user.telephonyProvider;
+
+  const envDefault = process.env.DEFAULT_TELEPHONY_PROVIDER;
+  return isTelephonyProviderName(envDefault) ? envDefault : 'exotel';
+}
+
+/**
+ * Stamps the call with the agent's provider (not saved; dialing saves the call)
+ * and returns the adapter to dial it with.
+ */
+export async function resolveCallProvider(call: ICall, agent: { userId: any; telephonyProvider?: string | null }): Promise<TelephonyProvider> {
+  call.provider = await resolveProviderName(agent);
+  return PROVIDERS[call.provider];
+}
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { ICall } from '@/models/callModel';
+import { transitionCall } from '@/lib/callLifecycle';
+import { normalizePhoneNumber, isSamePhoneNumber } from '@/lib/phone';
+import { TelephonyProvider } from './types';
+
+function getTwilioConfig() {
+  return {
+    accountSid: process.env.TWILIO_ACCOUNT_SID!,
+    authToken: process.env.TWILIO_AUTH_TOKEN!,
+    callerId: process.env.TWILIO_CALLER_ID || '', // The Twilio number imported into ElevenLabs
+    elevenLabsApiKey: process.env.ELEVENLABS_API_KEY!,
+    elevenLabsPhoneId: process.env.ELEVENLABS_PHONE_ID!, // ElevenLabs id of that Twilio number
+  };
+}
+
+function getTwilioAuthHeader() {
+  const { accountSid, authToken } = getTwilioConfig();
+  return `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`;
+}
+
+// Where Twilio reports the call's final status; see /api/webhooks/twilio
+export function getTwilioStatusCallbackUrl(callId: string) {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/twilio?callId=${encodeURIComponent(callId)}`;
+}
+
+/**
+ * Checks X-Twilio-Signature: an HMAC-SHA1, keyed with the auth token, of the full
+ * callback URL followed by the sorted POST parameters.
+ */
+export function isValidTwilioSignature(url: string, params: Record<string, string>, signature: string | null) {
+  if (!signature) return false;
+  const { authToken } = getTwilioConfig();
+  const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+  const expected = crypto.createHmac('sha1', authToken).update(data).digest('base64');
+  try {
+    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  } catch {
+    return false; // Different lengths
+  }
+}
+
+/**
+ * ElevenLabs creates the Twilio call, so the status callback is attached afterwards.
+ * Twilio then reports the final status (completed, busy, no-answer, failed, canceled).
+ */
+async function attachStatusCallback(call: ICall) {
+  const { accountSid } = getTwilioConfig();
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Calls/${call.twilioCallSid}.json`, {
+    method: 'POST',
+    headers: { 'Authorization': getTwilioAuthHeader(), 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ StatusCallback: getTwilioStatusCallbackUrl(call._id.toString()), StatusCallbackMethod: 'POST' }).toString(),
+  });
+  if (!response.ok) {
+    console.error(`Twilio status callback could not be set for call ${call._id}:`, await response.text());
+  }
+}
+
+/**
+ * Twilio calls are placed through ElevenLabs' native Twilio integration, which
+ * dials the contact from the Twilio number imported into ElevenLabs and connects
+ * the agent directly. Hangup and recordings go to the Twilio REST API.
+ */
+export const twilioProvider: TelephonyProvider = {
+  name: 'twilio',
+
+  async dial(call, elevenLabsAgentId) {
+    const { elevenLabsApiKey, elevenLabsPhoneId } = getTwilioConfig();
+
+    const payload = {
+      agent_id: elevenLabsAgentId,
+      agent_phone_number_id: elevenLabsPhoneId,
+      to_number: normalizePhoneNumber(call.phoneNumber) ?? call.phoneNumber, // ElevenLabs expects E.164
+      conversation_initiation_client_data: {
+        type: 'conversation_initiation_client_data',
+        dynamic_variables: {
+          contact_name: call.contactName || '',
+          call_id: call._id.toString(), // Lets the post-call webhook find this record
+        },
+      },
+    };
+
+    const response = await fetch('https://api.elevenlabs.io/v1/convai/twilio/outbound_call', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'xi-api-key': elevenLabsApiKey },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('ElevenLabs Twilio outbound call error:', errorText);
+      await transitionCall(call, 'failed', { source: 'twilio', reason: `Twilio initiation failed: ${errorText}` });
+      await call.save();
+      return { ok: false, httpStatus: response.status, clientMessage: `Error initiating call. Status: ${response.status}`, details: errorText };
+    }
+
+    const data = await response.json();
+    const callSid: string | undefined = data.callSid || data.call_sid;
+
+    call.twilioCallSid = callSid;
+    call.conversationId = data.conversation_id;
+    await transitionCall(call, 'ringing', { source: 'twilio' });
+    await call.save();
+    if (callSid) await attachStatusCallback(call);
+
+    return { ok: true, providerCallSid: callSid, httpStatus: 200, clientMessage: 'Call initiated via Twilio' };
+  },
+
+  async hangup(call) {
+    if (!call.twilioCallSid) {
+      return { ok: false, httpStatus: 400, message: 'Twilio Call SID not found for this call.' };
+    }
+
+    const { accountSid } = getTwilioConfig();
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Calls/${call.twilioCallSid}.json`, {
+      method: 'POST',
+      headers: { 'Authorization': getTwilioAuthHeader(), 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ Status: 'completed' }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Twilio Hangup API Error:', errorText);
+      return { ok: false, httpStatus: response.status, message: `Twilio hangup error: ${errorText}` };
+    }
+    return { ok: true, httpStatus: 200, message: 'Hangup request sent to Twilio' };
+  },
+
+  // Same rules as Exotel: final statuses always apply, intermediate ones only move a call forward
+  mapStatus(providerStatus, currentStatus) {
+    switch (providerStatus) {
+      case 'completed':
+        return 'ended';
+      case 'failed':
+        return 'failed';
+      case 'busy':
+        return 'busy';
+      case 'no-answer':
+        return 'no-answer';
+      case 'canceled':
+        return 'canceled';
+      case 'in-progress':
+        return currentStatus === 'ringing' || currentStatus === 'initiating' ? 'answered' : null;
+      case 'ringing':
+        return currentStatus === 'initiating' || currentStatus === 'queued' ? 'ringing' : null;
+      default:
+        return null;
+    }
+  },
+
+  async fetchRecording(call) {
+    if (!call.twilioCallSid) return null;
+
+    const { accountSid } = getTwilioConfig();
+    const listResponse = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Calls/${call.twilioCallSid}/Recordings.json`, {
+      headers: { 'Authorization': getTwilioAuthHeader() },
+    });
+    if (!listResponse.ok) {
+      throw new Error(`Twilio recordings error: ${listResponse.status} ${await listResponse.text()}`);
+    }
+
+    const { recordings } = await listResponse.json();
+    const recording = recordings?.[0];
+    if (!recording) return null;
+
+    const mediaUrl = `https://api.twilio.com${recording.uri.replace(/\.json$/, '')}.mp3`;
+    const mediaResponse = await fetch(mediaUrl, { headers: { 'Authorization': getTwilioAuthHeader() } });
+    if (!mediaResponse.ok) {
+      throw new Error(`Twilio recording download error: ${mediaResponse.status}`);
+    }
+    return mediaResponse;
+  },
+
+  isOwnNumber(phoneNumber) {
+    const { callerId } = getTwilioConfig();
+    return isSamePhoneNumber(callerId, phoneNumber);
+  },
+
+  getCallSid(call: ICall) {
+    return call.twilioCallSid;
+  },
+};
@@ -0,0 +1,45 @@
+import { ICall } from '@/models/callModel';
+
+export type TelephonyProviderName = 'exotel' | 'twilio';
+
+export const TELEPHONY_PROVIDERS: TelephonyProviderName[] = ['exotel', 'twilio'];
+
+export interface DialResult {
+  ok: boolean;
+  providerCallSid?: string; // The provider's id for the call (Exotel CallSid / Twilio CallSid)
+  httpStatus: number;
+  clientMessage: string; // Safe to show to the user
+  details?: string;
+}
+
+export interface HangupResult {
+  ok: boolean;
+  httpStatus: number;
+  message: string;
+}
+
+/**
+ * One telephony backend. Adapters update the Call record they are given
+ * (status, provider call id, failureReason) so callers stay provider-agnostic.
+ */
+export interface TelephonyProvider {
+  name: TelephonyProviderName;
+
+  /** Places the outbound call and connects it to the ElevenLabs agent. */
+  dial(call: ICall, elevenLabsAgentId: string): Promise<DialResult>;
+
+  /** Ends a live call. */
+  hangup(call: ICall): Promise<HangupResult>;
+
+  /** Maps a provider call status to ours, or null when it should not change the call. */
+  mapStatus(providerStatus: string, currentStatus: ICall['status']): ICall['status'] | null;
+
+  /** Downloads the call recording, or returns null if the provider has none. */
+  fetchRecording(call: ICall): Promise<Response | null>;
+
+  /** True if the number is the caller id this provider dials out from. */
+  isOwnNumber(phoneNumber: string): boolean;
+
+  /** The provider's id for the call, if it was dialed. */
+  getCallSid(call: ICall): string | undefined;
+}
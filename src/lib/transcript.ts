@@ -0,0 +1,46 @@
+import { ITranscriptToolCall, ITranscriptTurn } from '@/models/transcriptTurn';
+
+const stringify = (value: any) => (value === undefined || value === null ? undefined : typeof value === 'string' ? value : JSON.stringify(value));
+
+/**
+ * Converts an ElevenLabs conversation transcript (from the conversation API or the
+ * post-call webhook) into turns. Tool results are matched to their calls by request id.
+ * Also accepts the older `messages` shape ({ role, text }) without timing.
+ */
+export function parseElevenLabsTranscript(raw: any): ITranscriptTurn[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter(entry => entry && (entry.role === 'agent' || entry.role === 'user'))
+    .map(entry => {
+      const results: any[] = Array.isArray(entry.tool_results) ? entry.tool_results : [];
+      const toolCalls: ITranscriptToolCall[] = (Array.isArray(entry.tool_calls) ? entry.tool_calls : []).map((toolCall: any) => {
+        const result = results.find(r => r.request_id && r.request_id === toolCall.request_id)
+          ?? results.find(r => r.tool_name === toolCall.tool_name);
+        return {
+          name: toolCall.tool_name || 'tool',
+          params: stringify(toolCall.params_as_json ?? toolCall.params),
+          result: stringify(result?.result_value ?? result?.result),
+          isError: result ? !!result.is_error : undefined,
+        };
+      });
+
+      return {
+        role: entry.role,
+        text: entry.message ?? entry.text ?? '',
+        startOffset: Number(entry.time_in_call_secs) || 0,
+        toolCalls,
+        interrupted: !!entry.interrupted,
+      };
+    });
+}
+
+/**
+ * The flat "role: text" form kept in Call.transcription for search, exports and prompts.
+ */
+export function transcriptToText(turns: ITranscriptTurn[]) {
+  return turns
+    .filter(turn => turn.text)
+    .map(turn => `${turn.role}: ${turn.text}`)
+    .join('\n');
+}
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IRetryPolicy, RetryPolicySchema } from './retryPolicy';
 
 export interface IKnowledgeDocument {
   document_id: string;
@@ -100,9 +101,29 @@ export interface IAgent extends Document {
   // Personality
   ignoreDefaultPersonality: boolean;
 
+  // Call retries for busy / no-answer / failed calls
+  retryPolicy?: IRetryPolicy;
+
+  // Delay before a follow-up call when the contact asked to be called back without giving a time
+  callbackDelayMinutes: number;
+
+  // Telephony provider used to dial out; falls back to the account's provider when unset
+  telephonyProvider?: 'exotel' | 'twilio';
+
   // Analytics and usage
   usageMinutes: number;
   lastCalledAt?: Date;
+
+  // Last time the ElevenLabs agent was patched to match this one
+  lastSyncedAt?: Date;
+
+  // Latest AgentVersion number; 0 until the first snapshot
+  currentVersion: number;
+
+  // Fields that differ from the ElevenLabs agent, as of the last drift check
+  driftedFields: string[];
+  driftCheckedAt?: Date;
+  driftError?: string; // Why the last drift check could not read the ElevenLabs agent
   createdAt: Date;
   updatedAt: Date;
 }
@@ -352,12 +373,43 @@ const AgentSchema = new Schema<IAgent>(
       default: false,
     },
 
+    // Call retries
+    retryPolicy: RetryPolicySchema,
+
+    // Follow-up callbacks
+    callbackDelayMinutes: {
+      type: Number,
+      default: 24 * 60,
+      min: 1,
+    },
+
+    // Telephony
+    telephonyProvider: {
+      type: String,
+      enum: ['exotel', 'twilio'],
+    },
+
     // Analytics
     usageMinutes: {
       type: Number,
       default: 0,
     },
     lastCalledAt: Date,
+
+    // Version history
+    currentVersion: {
+      type: Number,
+      default: 0,
+    },
+
+    // ElevenLabs sync
+    lastSyncedAt: Date,
+    driftedFields: {
+      type: [String],
+      default: [],
+    },
+    driftCheckedAt: Date,
+    driftError: String,
   },
   { timestamps: true }
 );
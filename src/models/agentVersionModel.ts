@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAgentVersion extends Document {
+  agentId: mongoose.Types.ObjectId; // Agent _id
+  userId: mongoose.Types.ObjectId;
+  version: number; // 1, 2, 3... per agent
+  config: Record<string, any>; // Snapshot of the agent's configuration fields
+  changedFields: string[]; // Fields that differ from the previous version
+  authorId?: mongoose.Types.ObjectId; // Who saved it; unset for system changes
+  note?: string; // Change note given when saving
+  source: 'baseline' | 'create' | 'edit' | 'pull' | 'rollback' | 'import';
+  restoredFromVersion?: number; // For rollbacks: the version that was restored
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AgentVersionSchema = new Schema<IAgentVersion>(
+  {
+    agentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agent',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    config: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    changedFields: {
+      type: [String],
+      default: [],
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    source: {
+      type: String,
+      enum: ['baseline', 'create', 'edit', 'pull', 'rollback', 'import'],
+      default: 'edit',
+    },
+    restoredFromVersion: Number,
+  },
+  { timestamps: true }
+);
+
+AgentVersionSchema.index({ agentId: 1, version: -1 }, { unique: true });
+
+const AgentVersion = mongoose.models.AgentVersion || mongoose.model<IAgentVersion>('AgentVersion', AgentVersionSchema);
+
+export default AgentVersion;
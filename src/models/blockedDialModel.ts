@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type OutboundPath = 'single' | 'batch' | 'campaign' | 'scheduled';
+
+export interface IBlockedDial extends Document {
+  userId: mongoose.Types.ObjectId;
+  phoneNumber: string;
+  path: OutboundPath; // Which outbound path tried to dial
+  reason: string;
+  dncEntryId?: mongoose.Types.ObjectId; // The registry entry that matched, if any
+  callId?: mongoose.Types.ObjectId; // Set for queued calls (campaign / scheduled) that were canceled
+  campaignId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const BlockedDialSchema = new Schema<IBlockedDial>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    phoneNumber: { type: String, required: true },
+    path: { type: String, enum: ['single', 'batch', 'campaign', 'scheduled'], required: true },
+    reason: { type: String, required: true },
+    dncEntryId: { type: Schema.Types.ObjectId, ref: 'DncEntry' },
+    callId: { type: Schema.Types.ObjectId, ref: 'Call' },
+    campaignId: { type: Schema.Types.ObjectId, ref: 'Campaign' },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+BlockedDialSchema.index({ userId: 1, createdAt: -1 });
+
+const BlockedDial = mongoose.models.BlockedDial || mongoose.model<IBlockedDial>('BlockedDial', BlockedDialSchema);
+
+export default BlockedDial;
@@ -0,0 +1,29 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICallEvent extends Document {
+  callId: mongoose.Types.ObjectId;
+  type: 'transition' | 'rejected'; // A status change, or an attempted change the lifecycle refused
+  from: string; // Status before the event
+  to: string; // Status the call moved (or tried to move) to
+  source: string; // Who caused it, e.g. "exotel-webhook", "dispatcher", "user"
+  reason?: string;
+  createdAt: Date;
+}
+
+const CallEventSchema = new Schema<ICallEvent>(
+  {
+    callId: { type: Schema.Types.ObjectId, ref: 'Call', required: true },
+    type: { type: String, enum: ['transition', 'rejected'], required: true },
+    from: { type: String, required: true },
+    to: { type: String, required: true },
+    source: { type: String, required: true },
+    reason: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+CallEventSchema.index({ callId: 1, createdAt: 1 }); // A call's timeline
+
+const CallEvent = mongoose.models.CallEvent || mongoose.model<ICallEvent>('CallEvent', CallEventSchema);
+
+export default CallEvent;
@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { phoneNumberSetter } from "@/lib/phone";
+import { ITranscriptTurn, TranscriptTurnSchema } from "./transcriptTurn";
 
 // Interface defining the Call document structure
 export interface ICall extends Document {
@@ -6,13 +8,18 @@ export interface ICall extends Document {
   userId: mongoose.Types.ObjectId; // Reference to the user who owns the call
   agentId?: mongoose.Types.ObjectId; // Reference to your internal Agent model (optional if only using elevenLabsAgentId)
   elevenLabsAgentId: string; // The specific agent ID from ElevenLabs used for this call
+  agentVersion?: number; // AgentVersion the agent was at when the call was dialed or answered
+  provider: "exotel" | "twilio"; // Telephony provider that placed (or will place) the call
   exotelCallSid?: string; // Unique identifier for the call provided by Exotel
+  twilioCallSid?: string; // Unique identifier for the call provided by Twilio
   agentName?: string; // Name of the agent for display purposes
   contactId?: mongoose.Types.ObjectId; // Reference to a Contact model (optional)
   campaignId?: mongoose.Types.ObjectId; // Reference to a Campaign model (optional)
-  phoneNumber: string; // The phone number called
+  campaignVariant?: string; // Key of the campaign A/B variant this call belongs to
+  phoneNumber: string; // The contact's phone number (called, or calling in)
   contactName?: string; // Name of the person being called
-  direction: "outbound"; // Direction will be outbound for this flow
+  direction: "outbound" | "inbound"; // Inbound calls come in on a number mapped to an agent
+  inboundNumber?: string; // Our number the contact dialed (inbound calls only)
 
   // Updated Status Enum to reflect Exotel + Internal states
   status:
@@ -37,16 +44,37 @@ export interface ICall extends Document {
 
   summary?: string; // AI-generated summary (optional)
   notes?: string; // Manual notes added by user (optional)
-  recordingUrl?: string; // URL of the call recording (from Exotel or storage)
-  transcription?: string; // Full call transcription (optional)
+  tags?: string[]; // Free-form labels added by the user on the call detail page
+  recordingUrl?: string; // Where the archived recording is played from (/api/calls/<id>/recording)
+  recordingStatus?: "pending" | "archived" | "unavailable" | "failed"; // Unset until the archiver first looks at the call
+  recordingSource?: "exotel" | "twilio" | "elevenlabs"; // Where the archived audio came from
+  recordingStorage?: string; // Storage backend holding the file ("local" | "s3")
+  recordingKey?: string; // Object key within that backend
+  recordingContentType?: string;
+  recordingSize?: number; // Bytes
+  recordingArchivedAt?: Date;
+  recordingAttempts?: number; // Archive attempts so far
+  recordingNextAttemptAt?: Date; // When the archiver may try again
+  recordingError?: string; // Last archive error
+  transcription?: string; // Full call transcription as "role: text" lines (optional)
+  transcript?: ITranscriptTurn[]; // The same conversation turn by turn, with offsets into the recording
+  redactedCategories?: string[]; // Kinds of personal data masked in the summary/transcript ("card", "email", ...)
+  redactedAt?: Date;
+  redactedOriginal?: string; // Unredacted summary/transcript, AES-GCM encrypted; only when the account keeps originals
   customMessage?: string; // Initial message/context passed to the agent for this specific call
 
-  scheduledFor?: Date; // If the call was scheduled (for campaigns)
+  scheduledFor?: Date; // If the call was scheduled (campaigns, retries or a single call dialed later)
+  retryOfCallId?: mongoose.Types.ObjectId; // The original call this attempt retries (unset on the first attempt)
+  attemptNumber: number; // 1 for the original call, 2+ for retries
+  maxAttempts?: number; // Attempts allowed by the retry policy when this call was created
+  followUpOfCallId?: mongoose.Types.ObjectId; // The call whose outcome asked for this callback
+  redialOfCallId?: mongoose.Types.ObjectId; // The call this one was placed again from ("call again")
   callStartTime?: Date; // When the call was actually initiated or connected
   callEndTime?: Date; // When the call ended
   duration?: number; // Duration of the connected part of the call in seconds
   cost?: number; // Cost of the call (e.g., in smallest currency unit like paise/cents)
   outcome?: string; // Custom outcome defined by agent or user (e.g., 'appointment_booked', 'interested')
+  outcomeSuccess?: boolean; // Whether the outcome counted as a success when it was recorded
 
   createdAt: Date; // Provided by timestamps: true
   updatedAt: Date; // Provided by timestamps: true
@@ -58,14 +86,19 @@ const CallSchema = new Schema<ICall>(
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
     agentId: { type: Schema.Types.ObjectId, ref: "Agent" }, // Your internal agent link
     elevenLabsAgentId: { type: String, required: true, index: true }, // The ID used to get the signed URL
+    agentVersion: { type: Number }, // Agent config version that handled the call
     agentName: { type: String },
+    provider: { type: String, enum: ["exotel", "twilio"], default: "exotel" },
     exotelCallSid: { type: String, index: true, unique: true, sparse: true }, // Exotel's unique call ID
+    twilioCallSid: { type: String, index: true, unique: true, sparse: true }, // Twilio's unique call ID
     contactId: { type: Schema.Types.ObjectId, ref: "Contact" },
     campaignId: { type: Schema.Types.ObjectId, ref: "Campaign", index: true },
+    campaignVariant: { type: String },
 
-    phoneNumber: { type: String, required: true },
+    phoneNumber: { type: String, required: true, set: phoneNumberSetter }, // Stored in E.164
     contactName: { type: String },
-    direction: { type: String, enum: ["outbound"], required: true, default: "outbound" }, // Default to outbound
+    direction: { type: String, enum: ["outbound", "inbound"], required: true, default: "outbound" }, // Default to outbound
+    inboundNumber: { type: String, set: phoneNumberSetter }, // Our number the contact dialed (inbound calls only)
 
     status: {
       type: String,
@@ -83,16 +116,37 @@ const CallSchema = new Schema<ICall>(
 
     summary: { type: String },
     notes: { type: String },
+    tags: { type: [String], default: undefined },
     recordingUrl: { type: String },
+    recordingStatus: { type: String, enum: ["pending", "archived", "unavailable", "failed"] },
+    recordingSource: { type: String, enum: ["exotel", "twilio", "elevenlabs"] },
+    recordingStorage: { type: String },
+    recordingKey: { type: String },
+    recordingContentType: { type: String },
+    recordingSize: { type: Number },
+    recordingArchivedAt: { type: Date },
+    recordingAttempts: { type: Number, default: 0 },
+    recordingNextAttemptAt: { type: Date },
+    recordingError: { type: String },
     transcription: { type: String },
+    transcript: { type: [TranscriptTurnSchema], default: undefined },
+    redactedCategories: { type: [String], default: undefined },
+    redactedAt: { type: Date },
+    redactedOriginal: { type: String, select: false }, // Never returned by list/export queries
     customMessage: { type: String }, // Context for the agent
 
     scheduledFor: { type: Date },
+    retryOfCallId: { type: Schema.Types.ObjectId, ref: "Call", index: true },
+    attemptNumber: { type: Number, default: 1 },
+    maxAttempts: { type: Number },
+    followUpOfCallId: { type: Schema.Types.ObjectId, ref: "Call", index: true },
+    redialOfCallId: { type: Schema.Types.ObjectId, ref: "Call" },
     callStartTime: { type: Date }, // Consider renaming from startTime for clarity if preferred
     callEndTime: { type: Date }, // Consider renaming from endTime for clarity if preferred
     duration: { type: Number }, // In seconds
     cost: { type: Number, default: 0 }, // Store in smallest unit (e.g., paise/cents)
     outcome: { type: String },
+    outcomeSuccess: { type: Boolean },
   },
   { 
     timestamps: true // Adds createdAt and updatedAt automatically
@@ -102,6 +156,13 @@ const CallSchema = new Schema<ICall>(
 // Indexing commonly queried fields
 CallSchema.index({ userId: 1, createdAt: -1 }); // For fetching recent calls per user
 CallSchema.index({ status: 1 });
+CallSchema.index({ status: 1, scheduledFor: 1 }); // For the scheduled call dispatcher
+CallSchema.index({ status: 1, recordingStatus: 1, recordingNextAttemptAt: 1 }); // For the recording archiver
+// Call history search; the userId prefix keeps each account's search to its own calls
+CallSchema.index(
+  { userId: 1, summary: "text", transcription: "text", notes: "text", outcome: "text", contactName: "text" },
+  { name: "call_text_search", weights: { summary: 5, outcome: 4, contactName: 4, notes: 2, transcription: 1 } }
+);
 
 // Export the model, creating it if it doesn't exist
 export default mongoose.models.Call as mongoose.Model<ICall> ?? 
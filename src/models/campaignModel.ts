@@ -1,10 +1,13 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { IRetryPolicy, RetryPolicySchema } from "./retryPolicy";
+import { ICampaignVariant, CampaignVariantSchema } from "./campaignVariant";
 
 export interface ICampaign extends Document {
   userId: mongoose.Types.ObjectId;
   name: string;
   description?: string;
-  agentId: mongoose.Types.ObjectId;
+  agentId: mongoose.Types.ObjectId; // The only agent, or the first variant's agent when A/B testing
+  variants: ICampaignVariant[]; // A/B test arms; empty means every call uses agentId
   status: "draft" | "scheduled" | "in-progress" | "completed" | "paused" | "cancelled";
   contacts: mongoose.Types.ObjectId[];
   customMessage?: string;
@@ -15,9 +18,14 @@ export interface ICampaign extends Document {
   maxConcurrentCalls?: number;
   callsBetweenPause?: number;
   pauseDuration?: number; // in minutes
+  retryPolicy?: IRetryPolicy; // Overrides the agent's retry policy for this campaign's calls
+  startedAt?: Date; // When the runner moved the campaign to in-progress
+  completedAt?: Date; // When the runner marked the campaign completed
+  nextDialAt?: Date; // Earliest time the runner may dial again (set after each callsBetweenPause batch)
+  dialedCalls: number; // Calls handed to the telephony provider so far
   totalContacts: number;
   completedCalls: number;
-  successfulCalls: number;
+  successfulCalls: number; // Calls whose outcome counts as a success
   failedCalls: number;
 }
 
@@ -27,6 +35,7 @@ const CampaignSchema = new Schema<ICampaign>(
     name: { type: String, required: true },
     description: { type: String },
     agentId: { type: Schema.Types.ObjectId, ref: "Agent", required: true },
+    variants: { type: [CampaignVariantSchema], default: [] },
     status: {
       type: String,
       enum: ["draft", "scheduled", "in-progress", "completed", "paused", "cancelled"],
@@ -41,6 +50,11 @@ const CampaignSchema = new Schema<ICampaign>(
     maxConcurrentCalls: { type: Number, default: 1 },
     callsBetweenPause: { type: Number },
     pauseDuration: { type: Number },
+    retryPolicy: RetryPolicySchema,
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+    nextDialAt: { type: Date },
+    dialedCalls: { type: Number, default: 0 },
     totalContacts: { type: Number, default: 0 },
     completedCalls: { type: Number, default: 0 },
     successfulCalls: { type: Number, default: 0 },
@@ -49,5 +63,9 @@ const CampaignSchema = new Schema<ICampaign>(
   { timestamps: true }
 );
 
+// The runner polls for campaigns that are due or currently running
+CampaignSchema.index({ status: 1, scheduledStartTime: 1 });
+CampaignSchema.index({ userId: 1, createdAt: -1 });
+
 export default mongoose.models.Campaign ||
   mongoose.model<ICampaign>("Campaign", CampaignSchema);
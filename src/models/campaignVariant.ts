@@ -0,0 +1,19 @@
+import mongoose, { Schema } from 'mongoose';
+
+// One arm of a campaign A/B test. Contacts are split between variants by weight.
+export interface ICampaignVariant {
+  key: string; // Short label shown in reports, e.g. "A", "B"
+  agentId: mongoose.Types.ObjectId; // Agent (and so prompt/voice) used for this variant's calls
+  weight: number; // Relative share of contacts, e.g. 50/50 or 80/20
+  customMessage?: string; // Overrides the campaign's customMessage for this variant
+}
+
+export const CampaignVariantSchema = new Schema<ICampaignVariant>(
+  {
+    key: { type: String, required: true, trim: true },
+    agentId: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+    weight: { type: Number, required: true, min: 1 },
+    customMessage: { type: String },
+  },
+  { _id: false }
+);
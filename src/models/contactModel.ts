@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { phoneNumberSetter } from '@/lib/phone';
 
 export interface IContact extends Document {
   userId: mongoose.Types.ObjectId;
@@ -12,6 +13,8 @@ export interface IContact extends Document {
   lastContacted?: Date;
   source?: string;
   status?: 'active' | 'inactive' | 'do-not-call';
+  statusFromDnc?: boolean; // The do-not-call list, not an operator, set status to do-not-call
+  timezone?: string; // IANA zone, e.g. "Asia/Kolkata"; inferred from the phone number when unset
   createdAt: Date;
   updatedAt: Date;
 }
@@ -31,6 +34,7 @@ const ContactSchema = new Schema<IContact>(
       type: String,
       required: true,
       trim: true,
+      set: phoneNumberSetter, // Stored in E.164 so the same number always matches
     },
     email: {
       type: String,
@@ -61,6 +65,13 @@ const ContactSchema = new Schema<IContact>(
       enum: ['active', 'inactive', 'do-not-call'],
       default: 'active',
     },
+    statusFromDnc: {
+      type: Boolean,
+    },
+    timezone: {
+      type: String,
+      trim: true,
+    },
   },
   { timestamps: true }
 );
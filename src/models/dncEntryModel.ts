@@ -0,0 +1,34 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { phoneNumberSetter } from '@/lib/phone';
+
+export type DncSource = 'contact' | 'outcome' | 'ndnc' | 'upload' | 'manual';
+
+export interface IDncEntry extends Document {
+  userId: mongoose.Types.ObjectId;
+  phoneNumber: string; // E.164
+  source: DncSource; // How the number got on the list
+  reason?: string;
+  callId?: mongoose.Types.ObjectId; // The call that put it there (outcome / NDNC rejection)
+  contactId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DncEntrySchema = new Schema<IDncEntry>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    phoneNumber: { type: String, required: true, set: phoneNumberSetter },
+    source: { type: String, enum: ['contact', 'outcome', 'ndnc', 'upload', 'manual'], required: true },
+    reason: { type: String },
+    callId: { type: Schema.Types.ObjectId, ref: 'Call' },
+    contactId: { type: Schema.Types.ObjectId, ref: 'Contact' },
+  },
+  { timestamps: true }
+);
+
+DncEntrySchema.index({ userId: 1, phoneNumber: 1 }, { unique: true }); // One entry per number per account
+DncEntrySchema.index({ userId: 1, createdAt: -1 });
+
+const DncEntry = mongoose.models.DncEntry || mongoose.model<IDncEntry>('DncEntry', DncEntrySchema);
+
+export default DncEntry;
@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A named lease used to make sure a background job (dispatcher, campaign runner)
+// only runs on one server instance at a time.
+export interface IJobLock extends Document {
+  name: string;
+  lockedBy: string; // Random id of the run holding the lease
+  lockedUntil: Date; // The lease expires here even if the holder never releases it
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobLockSchema = new Schema<IJobLock>(
+  {
+    name: { type: String, required: true, unique: true },
+    lockedBy: { type: String, required: true },
+    lockedUntil: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+const JobLock = mongoose.models.JobLock || mongoose.model<IJobLock>('JobLock', JobLockSchema);
+
+export default JobLock;
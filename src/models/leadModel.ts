@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { phoneNumberSetter } from '@/lib/phone';
 
 export interface ILead extends Document {
   userId: mongoose.Types.ObjectId;
@@ -72,6 +73,7 @@ const LeadSchema = new Schema<ILead>(
       type: String,
       required: true,
       trim: true,
+      set: phoneNumberSetter, // Stored in E.164 so the same number always matches
     },
     company: {
       type: String,
@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IOutcomeDefinition extends Document {
+  userId: mongoose.Types.ObjectId;
+  agentId?: mongoose.Types.ObjectId; // Set for outcomes that only one agent uses; unset = every agent of the account
+  name: string; // Stored on Call.outcome, e.g. "payment_promised"
+  description: string; // Tells the outcome analyzer when this outcome applies
+  color: string; // Hex colour used for badges and charts
+  countsAsSuccess: boolean; // Counted in successfulCalls and success rates
+  order: number; // Display order
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OutcomeDefinitionSchema = new Schema<IOutcomeDefinition>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    agentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agent',
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+      match: [/^[a-z][a-z0-9_]{0,49}$/, 'Outcome names use lowercase letters, digits and underscores'],
+    },
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    color: {
+      type: String,
+      default: '#6b7280', // gray-500
+      match: [/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex value like #22c55e'],
+    },
+    countsAsSuccess: {
+      type: Boolean,
+      default: false,
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { timestamps: true }
+);
+
+// One definition per name for the account, and one per name for each agent
+OutcomeDefinitionSchema.index({ userId: 1, agentId: 1, name: 1 }, { unique: true });
+
+const OutcomeDefinition = mongoose.models.OutcomeDefinition || mongoose.model<IOutcomeDefinition>('OutcomeDefinition', OutcomeDefinitionSchema);
+
+export default OutcomeDefinition;
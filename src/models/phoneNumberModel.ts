@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPhoneNumber extends Document {
+  userId: mongoose.Types.ObjectId;
+  phoneNumber: string; // The number as entered, e.g. "+91 80 4567 1234" or an Exotel virtual number
+  numberKey: string; // Last 10 digits, used to match the number Exotel reports as dialed
+  provider: 'exotel';
+  agentId: mongoose.Types.ObjectId; // Agent that answers calls to this number
+  label?: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PhoneNumberSchema = new Schema<IPhoneNumber>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    phoneNumber: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    numberKey: {
+      type: String,
+      required: true,
+      unique: true, // A number can only route to one agent
+    },
+    provider: {
+      type: String,
+      enum: ['exotel'],
+      default: 'exotel',
+    },
+    agentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agent',
+      required: true,
+    },
+    label: {
+      type: String,
+      trim: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The key numbers are matched on: the last 10 digits, so "+91 80 4567 1234",
+ * "08045671234" and "918045671234" all map to the same number.
+ */
+export function toNumberKey(phoneNumber: string) {
+  return phoneNumber.replace(/\D/g, '').slice(-10);
+}
+
+const PhoneNumber = mongoose.models.PhoneNumber || mongoose.model<IPhoneNumber>('PhoneNumber', PhoneNumberSchema);
+
+export default PhoneNumber;
@@ -0,0 +1,51 @@
+import { Schema } from 'mongoose';
+
+export type RetryableCallStatus = 'busy' | 'no-answer' | 'failed';
+
+// Shared by agents and campaigns. A campaign's policy takes precedence over its agent's.
+export interface IRetryPolicy {
+  maxAttempts: number; // Total attempts including the first call; 1 disables retries
+  backoffMinutes: number; // Delay before each retry is dialed
+  retryOn: RetryableCallStatus[]; // Final call statuses that trigger a retry
+}
+
+export const RetryPolicySchema = new Schema<IRetryPolicy>(
+  {
+    maxAttempts: { type: Number, default: 1, min: 1, max: 10 },
+    backoffMinutes: { type: Number, default: 30, min: 1 },
+    retryOn: {
+      type: [String],
+      enum: ['busy', 'no-answer', 'failed'],
+      default: ['busy', 'no-answer'],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Validates a retry policy coming from a request body.
+ * Returns the normalized policy, or an error message.
+ */
+export function parseRetryPolicy(input: any): { policy?: IRetryPolicy; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'retryPolicy must be an object' };
+  }
+
+  const maxAttempts = Number(input.maxAttempts ?? 1);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > 10) {
+    return { error: 'retryPolicy.maxAttempts must be a whole number between 1 and 10' };
+  }
+
+  const backoffMinutes = Number(input.backoffMinutes ?? 30);
+  if (!Number.isFinite(backoffMinutes) || backoffMinutes < 1) {
+    return { error: 'retryPolicy.backoffMinutes must be at least 1' };
+  }
+
+  const retryOn = input.retryOn ?? ['busy', 'no-answer'];
+  const allowed: RetryableCallStatus[] = ['busy', 'no-answer', 'failed'];
+  if (!Array.isArray(retryOn) || retryOn.some((s) => !allowed.includes(s))) {
+    return { error: `retryPolicy.retryOn may only contain: ${allowed.join(', ')}` };
+  }
+
+  return { policy: { maxAttempts, backoffMinutes, retryOn } };
+}
@@ -0,0 +1,39 @@
+import { Schema } from 'mongoose';
+
+// A tool the agent called during a turn, with what came back
+export interface ITranscriptToolCall {
+  name: string;
+  params?: string; // Arguments as JSON
+  result?: string;
+  isError?: boolean;
+}
+
+// One turn of a call's conversation, in the order spoken
+export interface ITranscriptTurn {
+  role: 'agent' | 'user';
+  text: string; // Empty for turns that only called tools
+  startOffset: number; // Seconds from the start of the call (and of its recording)
+  toolCalls: ITranscriptToolCall[];
+  interrupted: boolean; // The agent was cut off by the contact
+}
+
+const TranscriptToolCallSchema = new Schema<ITranscriptToolCall>(
+  {
+    name: { type: String, required: true },
+    params: { type: String },
+    result: { type: String },
+    isError: { type: Boolean },
+  },
+  { _id: false }
+);
+
+export const TranscriptTurnSchema = new Schema<ITranscriptTurn>(
+  {
+    role: { type: String, enum: ['agent', 'user'], required: true },
+    text: { type: String, default: '' },
+    startOffset: { type: Number, default: 0 },
+    toolCalls: { type: [TranscriptToolCallSchema], default: [] },
+    interrupted: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
@@ -13,6 +13,16 @@ export interface IUser extends Document {
   totalMinutes: number;
   agentsAllowed: number;
   extraMinuteRate?: number;
+  callingWindow: { startTime?: string; endTime?: string }; // Default "HH:MM" hours in the contact's local time; both empty = no limit
+  blackoutDates: { date: string; label?: string }[]; // "YYYY-MM-DD" days (e.g. public holidays) with no outbound calls
+  telephonyProvider: 'exotel' | 'twilio'; // Default provider for agents that don't pick their own
+  role: 'user' | 'admin'; // Admins can read the encrypted originals of redacted calls
+  redaction: {
+    enabled: boolean; // Mask personal data in transcripts and summaries before they are stored
+    categories: ('card' | 'aadhaar' | 'pan' | 'email' | 'phone' | 'otp')[];
+    originals: 'encrypt' | 'discard'; // Keep the unredacted text encrypted for admins, or drop it
+  };
+  agentClaimTag?: string; // Tag that marks ElevenLabs agents this account may import
   resetPasswordToken?: string
   resetPasswordExpire?: Date;
   createdAt: Date;
@@ -76,6 +86,37 @@ const UserSchema = new Schema<IUser>(
       enum: ['free', 'starter', 'growth', 'pro', 'enterprise'],
       default: 'free',
     },
+    callingWindow: {
+      startTime: { type: String, default: '09:00' },
+      endTime: { type: String, default: '21:00' },
+    },
+    blackoutDates: [
+      {
+        _id: false,
+        date: { type: String, required: true },
+        label: { type: String, trim: true },
+      },
+    ],
+    telephonyProvider: {
+      type: String,
+      enum: ['exotel', 'twilio'],
+      default: 'exotel',
+    },
+    role: {
+      type: String,
+      enum: ['user', 'admin'],
+      default: 'user',
+    },
+    redaction: {
+      enabled: { type: Boolean, default: false },
+      categories: {
+        type: [String],
+        enum: ['card', 'aadhaar', 'pan', 'email', 'phone', 'otp'],
+        default: ['card', 'aadhaar', 'pan', 'email', 'phone', 'otp'],
+      },
+      originals: { type: String, enum: ['encrypt', 'discard'], default: 'discard' },
+    },
+    agentClaimTag: { type: String, unique: true, sparse: true },
     resetPasswordToken: String,
     resetPasswordExpire: Date,
   },
@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWebhookEvent extends Document {
+  provider: 'exotel';
+  callSid: string; // Provider call id the event is about
+  status: string; // Event status, e.g. "ringing", "completed" or "stream:failed" for stream events
+  callId?: mongoose.Types.ObjectId; // Our Call; events are only recorded once it is identified
+  payload: Record<string, any>; // The raw parameters, for debugging
+  result?: 'applied' | 'ignored'; // What processing did with the event
+  note?: string; // Why an event was ignored
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookEventSchema = new Schema<IWebhookEvent>(
+  {
+    provider: { type: String, enum: ['exotel'], required: true },
+    callSid: { type: String, required: true },
+    status: { type: String, required: true },
+    callId: { type: Schema.Types.ObjectId, ref: 'Call', index: true },
+    payload: { type: Schema.Types.Mixed },
+    result: { type: String, enum: ['applied', 'ignored'] },
+    note: { type: String },
+  },
+  { timestamps: true }
+);
+
+// One event per call and status: redelivered callbacks hit this index and are skipped
+WebhookEventSchema.index({ provider: 1, callSid: 1, status: 1 }, { unique: true });
+
+const WebhookEvent = mongoose.models.WebhookEvent || mongoose.model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
+
+export default WebhookEvent;